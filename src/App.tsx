@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactFlow, {
   Node,
   Edge,
@@ -9,27 +9,152 @@ import ReactFlow, {
   Background,
   Controls,
   MiniMap,
-  NodeTypes,
   OnConnect,
   BackgroundVariant,
+  XYPosition,
+  Panel,
 } from 'reactflow';
 import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 
-import TextNode, { TextNodeData } from './nodes/TextNode';
+import { nodeTypes, createNodeData, FlowNodeData, NODE_TYPE_LABELS } from './nodes';
+import { edgeTypes, FLOW_EDGE_TYPE, createEdgeData } from './edges';
+import { FlowEdgeData } from './edges/edgeData';
 import NodesPanel from './components/NodesPanel';
-import SettingsPanel from './components/SettingsPanel';
-import { validateFlow, createFlowData } from './utils/validation';
+import SettingsPanel, { SelectedEdge } from './components/SettingsPanel';
+import FlowLibrary from './components/FlowLibrary';
+import VariablesPanel from './components/VariablesPanel';
+import PreviewPanel from './components/PreviewPanel';
+import ProblemsPanel, { ProblemsDock } from './components/ProblemsPanel';
+import HistoryPanel, { CURRENT_REVISION, RevisionComparison } from './components/HistoryPanel';
+import LocalesPanel from './components/LocalesPanel';
+import ConnectPicker from './components/ConnectPicker';
+import LiveRegion from './components/LiveRegion';
+import SearchBar from './components/SearchBar';
+import AnalyticsBar from './components/AnalyticsBar';
+import ExportMenu, { ExportFormat } from './components/ExportMenu';
+import CommentsPanel from './components/CommentsPanel';
+import { FlowEditorContext, CanvasAnalytics } from './context/FlowEditorContext';
+import { validateFlow, createFlowData, restoreFlowData, describeNode, createValidationCache, ValidationIssue, FlowData } from './utils/validation';
+import { buildFlowGraph, getSourceHandleIds, getHandleLabel } from './engine/graph';
+import {
+  loadFlow,
+  loadLastOpenFlow,
+  saveFlow,
+  setLastOpenFlowId,
+  SavedSubflow,
+  listSubflows,
+  loadSubflow,
+  saveSubflow,
+  deleteSubflow,
+  listRevisions,
+  loadRevision,
+  addRevision,
+  RevisionSummary,
+  getCommentAuthor,
+  setCommentAuthor,
+} from './utils/storage';
+import { downloadBlob, downloadFlowFile, downloadTextFile, parseFlowFile, toFileName } from './utils/flowFile';
+import { useUndoRedo } from './hooks/useUndoRedo';
+import { useAutoLayout } from './hooks/useAutoLayout';
+import { useCanvasKeyboard, getFocusedNodeId } from './hooks/useCanvasKeyboard';
+import { FlowVariable, collectFlowVariables } from './utils/variables';
+import { copySelection, instantiateFragment, parseFragment, serializeFragment } from './utils/clipboard';
+import { createId } from './utils/ids';
+import { groupSelection, toSubflowGraph, withGroupContents } from './utils/groups';
+import { GroupNodeData } from './nodes/GroupNode';
+import { diffFlows, buildDiffOverlay } from './utils/diff';
+import { SearchOptions, findMatches, replaceInMessages } from './utils/search';
+import { exportMermaid, exportDot, exportConversationScript } from './utils/exporters';
+import { renderCanvasPng, renderCanvasSvg } from './utils/canvasImage';
+import { CommentThread, canHaveComments, collectThreads, countOpenThreads } from './utils/comments';
+import { ConversationEvent, parseEventLog, summarizeEvents, findMissingNodes, computeEdgeTraffic } from './utils/analytics';
+import { getBenchmarkSize, generateBenchmarkFlow, runValidationBenchmark } from './utils/benchmark';
+import {
+  LocaleSettings,
+  DEFAULT_LOCALE_SETTINGS,
+  describeLocale,
+  exportTranslationsCsv,
+  exportTranslationsXliff,
+  parseTranslationsCsv,
+  parseTranslationsXliff,
+  applyTranslations,
+} from './utils/translations';
 
-// Define custom node types for React Flow
-// Maps string identifiers to React components for rendering different node types
-const nodeTypes: NodeTypes = {
-  textNode: TextNode, // 'textNode' renders as our custom chat message component
-};
-
-// Initial empty state - no nodes or connections when app starts
+// Initial empty state - used when there is no previously opened flow to restore
 const initialNodes: Node[] = [];
 const initialEdges: Edge[] = [];
+const initialVariables: FlowVariable[] = [];
+
+// Outer canvas kept aside while a group's nested flow is open for editing
+interface GroupFrame {
+  groupId: string;
+  name: string;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+// Distance between a copied node and its pasted/duplicated copy
+const PASTE_OFFSET = 40;
+
+// From this many nodes the canvas only renders what is in view
+const LARGE_FLOW_NODE_COUNT = 500;
+
+// Edges saved before labels existed have no type - they render as FlowEdge too
+const DEFAULT_EDGE_OPTIONS = { type: FLOW_EDGE_TYPE };
+
+// True while the user is typing - shortcuts then belong to the text field
+const isEditingText = () => {
+  const activeElement = document.activeElement as HTMLElement;
+  return !!activeElement && (
+    activeElement.tagName === 'INPUT' ||
+    activeElement.tagName === 'TEXTAREA' ||
+    activeElement.contentEditable === 'true'
+  );
+};
+
+// Why an imported file was rejected - the first few problems, then a count of the rest
+const MAX_LISTED_IMPORT_ERRORS = 5;
+const showImportErrors = (fileName: string, errors: string[]) => {
+  toast.error(
+    <div>
+      <div className="font-medium">Cannot import {fileName}:</div>
+      <ul className="list-disc pl-4 text-sm">
+        {errors.slice(0, MAX_LISTED_IMPORT_ERRORS).map(error => <li key={error}>{error}</li>)}
+      </ul>
+      {errors.length > MAX_LISTED_IMPORT_ERRORS && <div className="text-sm">…and {errors.length - MAX_LISTED_IMPORT_ERRORS} more</div>}
+    </div>
+  );
+};
+
+// Restore the last-open flow from the library, falling back to an empty canvas
+// ?benchmark=N opens a generated N-node flow instead, unsaved
+const loadInitialState = () => {
+  const benchmarkSize = getBenchmarkSize(window.location.search);
+  if (benchmarkSize) {
+    const fixture = generateBenchmarkFlow(benchmarkSize);
+    return {
+      flowId: null,
+      flowName: `Benchmark (${benchmarkSize} nodes)`,
+      ...restoreFlowData(fixture),
+      locales: fixture.locales,
+      benchmark: fixture,
+    };
+  }
+  const flow = loadLastOpenFlow();
+  if (!flow) {
+    return {
+      flowId: null,
+      flowName: 'Untitled flow',
+      nodes: initialNodes,
+      edges: initialEdges,
+      variables: initialVariables,
+      locales: DEFAULT_LOCALE_SETTINGS,
+      benchmark: null,
+    };
+  }
+  return { flowId: flow.id, flowName: flow.name, ...restoreFlowData(flow.data), locales: flow.data.locales, benchmark: null };
+};
 
 /**
  * Main App Component - Chatbot Flow Builder
@@ -40,17 +165,207 @@ const initialEdges: Edge[] = [];
  * - Right panel: SettingsPanel (appears when node selected)
  * 
  * Flow Logic:
- * - Each node can have max 1 outgoing connection (enforced in onConnect)
+ * - Each source handle can have max 1 outgoing connection (enforced in onConnect)
+ * - Button nodes have one source handle per reply button, so messages can branch
+ * - Condition nodes branch on flow-level variables declared in the Variables dialog
  * - Target handles accept multiple incoming connections
- * - Validation ensures single starting node before saving
+ * - Validation ensures single starting node before saving; all issues are
+ *   listed live in the Problems panel
+ * - Saved flows live in the browser library and the last one reopens on startup
+ * - Every canvas/settings edit snapshots state first so it can be undone
+ * - Auto-arrange lays the flow (or the selection) out left to right in layers
+ * - Selections copy/paste through the system clipboard, so they can move between tabs
+ * - Selections can be grouped into sub-flows; opening one swaps the canvas to its
+ *   nested flow (outer canvases wait in groupPath) and saving folds edits back in
+ * - Messages can be translated per flow language; the canvas language picks
+ *   what nodes show and what the settings panel edits
+ * - Every save also records a revision; comparing two revisions swaps the
+ *   canvas for a read-only overlay of both until the comparison is closed
+ * - Everything works from the keyboard: palette entries insert at the view
+ *   centre, arrows follow edges between nodes, Enter opens settings and C
+ *   connects via a picker; toasts are mirrored to a screen reader live region
+ * - Ctrl+F searches the canvas; matches are marked on the nodes and stepping
+ *   through them centres the view on each one
+ * - Connections are FlowEdges carrying an optional label, delay and priority,
+ *   edited in the settings panel when a single connection is selected
+ * - A conversation log can be overlaid: message nodes show visits and drop-off,
+ *   connections grow with their traffic; the log itself is never saved
+ * - Export writes the flow file, Mermaid/DOT diagrams, a conversation script
+ *   or an image of the canvas view
+ * - Sticky notes annotate the canvas; review threads live on message nodes and
+ *   are managed in the comments panel, which replaces settings while open
+ * - Message nodes may pause, type and keep business hours; closed hours add an
+ *   "Outside hours" handle, and dropping the hours drops its connection
+ * - Large flows stay responsive: lookups go through the indexed canvas graph,
+ *   validation only re-checks what an edit touched, zoomed-out nodes render a
+ *   simplified body and big canvases skip offscreen elements
  */
 function App() {
-  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
-  const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
-  const [selectedNode, setSelectedNode] = useState<Node<TextNodeData> | null>(null);
+  const [initialState] = useState(loadInitialState); // Read storage once on mount
+  const [nodes, setNodes, onNodesChange] = useNodesState(initialState.nodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(initialState.edges);
+  const [flowId, setFlowId] = useState<string | null>(initialState.flowId); // null until first save
+  const [flowName, setFlowName] = useState(initialState.flowName);
+  const [variables, setVariables] = useState<FlowVariable[]>(initialState.variables);
+  const [showVariables, setShowVariables] = useState(false);
+  const [locales, setLocales] = useState<LocaleSettings>(initialState.locales);
+  const [canvasLocale, setCanvasLocale] = useState<string | null>(null); // Language shown on the canvas, null = default
+  const [showLocales, setShowLocales] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showPreview, setShowPreview] = useState(false); // Conversation simulator replaces settings panel
+  const [activeNodeId, setActiveNodeId] = useState<string | null>(null); // Highlighted by the simulator
+  const [showProblems, setShowProblems] = useState(false);
+  const [problemsDock, setProblemsDock] = useState<ProblemsDock>('bottom');
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null); // Connection shown in settings when no node is
   const [showSettings, setShowSettings] = useState(false); // Controls right panel visibility
+  const [groupPath, setGroupPath] = useState<GroupFrame[]>([]); // Outer canvases while editing a group, root first
+  const [subflows, setSubflows] = useState<SavedSubflow[]>(listSubflows);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]); // Open flow's history, newest first
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null); // Set while the compare overlay shows
+  const [connectSourceId, setConnectSourceId] = useState<string | null>(null); // Node the connect picker is open for
+  const [settingsFocusRequest, setSettingsFocusRequest] = useState(0); // Bumped when Enter opens settings
+  const [announcement, setAnnouncement] = useState(''); // Screen reader live region text
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ matchCase: false, nodeType: null });
+  const [searchIndex, setSearchIndex] = useState(0); // Current match, clamped to the match count
+  const [analyticsLog, setAnalyticsLog] = useState<{ fileName: string; events: ConversationEvent[] } | null>(null); // Overlaid conversation log
+  const [showComments, setShowComments] = useState(false); // Comments panel replaces settings while open
+  const [commentAuthor, setCommentAuthorState] = useState(getCommentAuthor); // Signed under new comments
   const reactFlowWrapper = useRef<HTMLDivElement>(null); // For drag & drop positioning
+  const importInputRef = useRef<HTMLInputElement>(null); // Hidden file picker for imports
+  const analyticsInputRef = useRef<HTMLInputElement>(null); // Hidden file picker for conversation logs
+  const pasteCount = useRef(0); // Repeated pastes of one copy cascade instead of stacking
+  const [validationCache] = useState(createValidationCache); // Graph and issues reused between validation runs
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
+  const { takeSnapshot, beginStep, commitStep, undo, redo, resetHistory, canUndo, canRedo } = useUndoRedo({
+    nodes,
+    edges,
+    variables,
+    locales,
+    setNodes,
+    setEdges,
+    setVariables,
+    setLocales,
+  });
+
+  // Say something through the live region - cleared first so repeating a message is read again
+  const announce = useCallback((message: string) => {
+    setAnnouncement('');
+    requestAnimationFrame(() => setAnnouncement(message));
+  }, []);
+
+  // Toasts are visual only - read plain-text ones out as well
+  useEffect(() => toast.onChange(item => {
+    if (item.status === 'added' && typeof item.content === 'string') announce(item.content);
+  }), [announce]);
+
+  // Animated layered layout - recentre the view once the whole flow is arranged
+  const handleArranged = useCallback((selectionOnly: boolean) => {
+    if (!selectionOnly) reactFlowInstance?.fitView({ duration: 300 });
+  }, [reactFlowInstance]);
+  const { arrange } = useAutoLayout({ nodes, edges, setNodes, takeSnapshot, onArranged: handleArranged });
+  const selectedNodeCount = nodes.filter(node => node.selected).length;
+
+  // The open canvas indexed by ID and per-node edges - lookups below never scan the node or edge lists
+  const canvasGraph = useMemo(() => buildFlowGraph(nodes, edges), [nodes, edges]);
+
+  // The whole flow with the open group's edits folded back in - what gets saved, validated and previewed
+  const rootGraph = useMemo(() => groupPath.reduceRight(
+    (inner, frame) => ({
+      nodes: frame.nodes.map(node => (node.id === frame.groupId ? withGroupContents(node, inner.nodes, inner.edges) : node)),
+      edges: frame.edges,
+    }),
+    { nodes, edges },
+  ), [groupPath, nodes, edges]);
+
+  // The canvas language only applies while it is still one of the flow's non-default languages
+  const activeLocale = canvasLocale && canvasLocale !== locales.defaultLocale && locales.locales.includes(canvasLocale)
+    ? canvasLocale
+    : null;
+
+  // Both sides of the open comparison - a revision id resolves from storage, CURRENT_REVISION to the canvas
+  const comparedFlows = useMemo(() => {
+    if (!comparison || !flowId) return null;
+
+    const resolve = (id: string) => (id === CURRENT_REVISION
+      ? createFlowData(rootGraph.nodes, rootGraph.edges, variables, locales)
+      : loadRevision(flowId, id)?.data);
+    const base = resolve(comparison.baseId);
+    const target = resolve(comparison.targetId);
+    return base && target ? { base, target } : null;
+  }, [comparison, flowId, rootGraph, variables, locales]);
+
+  const flowDiff = useMemo(
+    () => (comparedFlows ? diffFlows(comparedFlows.base, comparedFlows.target) : null),
+    [comparedFlows],
+  );
+
+  // Read-only canvas content shown instead of the editable flow while comparing
+  const diffOverlay = useMemo(
+    () => (comparedFlows && flowDiff ? buildDiffOverlay(flowDiff, comparedFlows.target, comparedFlows.base) : null),
+    [comparedFlows, flowDiff],
+  );
+
+  // Declared variables plus those captured by collect-input nodes
+  const variableRegistry = useMemo(() => collectFlowVariables(rootGraph.nodes, variables), [rootGraph, variables]);
+
+  // Re-validated on every edit so the problems panel stays current
+  const validation = useMemo(
+    () => validateFlow(rootGraph.nodes, rootGraph.edges, variables, locales, validationCache),
+    [rootGraph, variables, locales, validationCache],
+  );
+  const errorCount = validation.issues.filter(issue => issue.severity === 'error').length;
+
+  // Search results on the current canvas, in reading order
+  const searchMatches = useMemo(
+    () => (showSearch ? findMatches(nodes, searchQuery, searchOptions) : []),
+    [showSearch, nodes, searchQuery, searchOptions],
+  );
+  const currentMatchIndex = searchMatches.length > 0 ? Math.min(searchIndex, searchMatches.length - 1) : -1;
+  const currentMatchId = currentMatchIndex >= 0 ? searchMatches[currentMatchIndex].nodeId : null;
+
+  // Log stats are computed once per import; what the flow no longer has follows the flow's edits
+  const flowAnalytics = useMemo(() => (analyticsLog ? summarizeEvents(analyticsLog.events) : null), [analyticsLog]);
+  const missingAnalyticsNodes = useMemo(
+    () => (flowAnalytics ? findMissingNodes(flowAnalytics, rootGraph.nodes) : []),
+    [flowAnalytics, rootGraph.nodes],
+  );
+  const canvasAnalytics = useMemo((): CanvasAnalytics | null => {
+    if (!flowAnalytics) return null;
+    const edgeTraffic = computeEdgeTraffic(flowAnalytics, nodes, edges);
+    return { nodes: flowAnalytics.nodes, edgeTraffic, maxTraffic: [...edgeTraffic.values()].reduce((max, traffic) => Math.max(max, traffic), 0) };
+  }, [flowAnalytics, nodes, edges]);
+
+  // Cleared if the node goes away (undo, group opened) while the picker is open
+  const connectSource = connectSourceId ? canvasGraph.nodesById.get(connectSourceId) ?? null : null;
+
+  // Derived from nodes so the settings panel follows undo/redo
+  const selectedNode = useMemo(
+    () => (selectedNodeId ? canvasGraph.nodesById.get(selectedNodeId) as Node<FlowNodeData> | undefined : undefined) ?? null,
+    [canvasGraph, selectedNodeId],
+  );
+
+  // Review threads on the open canvas; new ones go to the selected message node
+  const commentThreads = useMemo(() => collectThreads(nodes), [nodes]);
+  const openThreadCount = useMemo(() => countOpenThreads(commentThreads.map(entry => entry.thread)), [commentThreads]);
+  const commentFocusNode = selectedNode && canHaveComments(selectedNode) ? selectedNode : null;
+
+  // Selected connection with its endpoints spelled out for the settings header
+  const selectedEdge = useMemo((): SelectedEdge | null => {
+    const edge = selectedEdgeId ? canvasGraph.edgesById.get(selectedEdgeId) : undefined;
+    const source = edge && canvasGraph.nodesById.get(edge.source);
+    const target = edge && canvasGraph.nodesById.get(edge.target);
+    if (!edge || !source || !target) return null;
+    const handleLabel = getHandleLabel(source, edge.sourceHandle ?? null);
+    return {
+      edge: edge as Edge<FlowEdgeData>,
+      from: `${describeNode(source)}${handleLabel ? ` (${handleLabel})` : ''}`,
+      to: describeNode(target),
+    };
+  }, [canvasGraph, selectedEdgeId]);
 
   // Handle new connections between nodes
   // Business rule: each source handle can only have ONE outgoing connection
@@ -58,32 +373,66 @@ function App() {
   const onConnect: OnConnect = useCallback(
     (params: Connection) => {
       // Check if source already has a connection
-      const existingEdge = edges.find(edge => 
-        edge.source === params.source && edge.sourceHandle === params.sourceHandle
+      const existingEdge = (canvasGraph.outgoing.get(params.source ?? '') || []).find(edge =>
+        (edge.sourceHandle ?? null) === (params.sourceHandle ?? null)
       );
 
       if (existingEdge) {
-        toast.error('Each node can only have one outgoing connection');
+        toast.error(params.sourceHandle
+          ? 'Each reply button can only have one outgoing connection'
+          : 'Each node can only have one outgoing connection');
         return;
       }
 
-      setEdges((eds: Edge[]) => addEdge(params, eds));
+      takeSnapshot();
+      setEdges((eds: Edge[]) => addEdge({ ...params, type: FLOW_EDGE_TYPE, data: createEdgeData() }, eds));
     },
-    [edges, setEdges],
+    [canvasGraph, setEdges, takeSnapshot],
   );
 
   // Handle selection changes - show settings panel for single node selection
-  // Right panel only appears when exactly one node is selected for editing
+  // Right panel only appears when exactly one node (or one lone connection) is selected for editing
   const onSelectionChange = useCallback((params: { nodes: Node[]; edges: Edge[] }) => {
     if (params.nodes.length === 1) {
-      setSelectedNode(params.nodes[0] as Node<TextNodeData>);
+      setSelectedNodeId(params.nodes[0].id);
+      setSelectedEdgeId(null);
+      setShowSettings(true);
+    } else if (params.nodes.length === 0 && params.edges.length === 1) {
+      setSelectedNodeId(null);
+      setSelectedEdgeId(params.edges[0].id);
       setShowSettings(true);
     } else {
-      setSelectedNode(null);
+      setSelectedNodeId(null);
+      setSelectedEdgeId(null);
       setShowSettings(false);
     }
   }, []);
 
+  // New node of a palette type - saved sub-flows are copied with fresh IDs so they can be added many times
+  const createPaletteNode = useCallback((type: string, position: XYPosition, subflowId?: string): Node<FlowNodeData> | null => {
+    let data = createNodeData(type); // Type-specific defaults (e.g. starter reply buttons)
+    if (subflowId) {
+      const subflow = loadSubflow(subflowId);
+      if (!subflow) {
+        toast.error('That sub-flow is no longer in the palette');
+        return null;
+      }
+      const inner = instantiateFragment(subflow.group.flow, { x: 0, y: 0 });
+      data = {
+        name: subflow.name,
+        flow: toSubflowGraph(inner.nodes, inner.edges),
+        entryNodeId: inner.nodeIds.get(subflow.group.entryNodeId) ?? '',
+      };
+    }
+
+    return {
+      id: createId('node'),
+      type,
+      position,
+      data,
+    };
+  }, []);
+
   // Handle drag & drop from nodes panel to canvas
   // Creates new node instances when dropped from the left panel
   const onDrop = useCallback(
@@ -103,16 +452,13 @@ function App() {
         y: event.clientY - reactFlowBounds.top,
       });
 
-      const newNode: Node<TextNodeData> = {
-        id: `node-${Date.now()}`, // TODO: consider using uuid for production
-        type,
-        position,
-        data: { text: 'Enter your message here' },
-      };
+      const newNode = createPaletteNode(type, position, event.dataTransfer.getData('application/subflow') || undefined);
+      if (!newNode) return;
 
+      takeSnapshot();
       setNodes((nds: Node[]) => nds.concat(newNode));
     },
-    [reactFlowInstance, setNodes],
+    [reactFlowInstance, createPaletteNode, setNodes, takeSnapshot],
   );
 
   // Allow dropping - required for HTML5 drag & drop
@@ -121,8 +467,24 @@ function App() {
     event.dataTransfer.dropEffect = 'move';
   }, []);
 
+  // Record node position before a drag so moves can be undone
+  const onNodeDragStart = useCallback(() => beginStep(), [beginStep]);
+
+  // Drag start also fires on a plain click, so the undo step is only kept if a node moved
+  const commitDrag = useCallback((dragged: Node[]) => commitStep(before => {
+    const positions = new Map(before.nodes.map(node => [node.id, node.position]));
+    return dragged.some(node => {
+      const start = positions.get(node.id);
+      return !start || start.x !== node.position.x || start.y !== node.position.y;
+    });
+  }), [commitStep]);
+  const onNodeDragStop = useCallback((_event: React.MouseEvent, _node: Node, dragged: Node[]) => commitDrag(dragged), [commitDrag]);
+  const onSelectionDragStop = useCallback((_event: React.MouseEvent, dragged: Node[]) => commitDrag(dragged), [commitDrag]);
+
   // Update node data from settings panel
-  const handleNodeDataChange = useCallback((nodeId: string, data: TextNodeData) => {
+  // Consecutive keystrokes in the same field coalesce into one undo step
+  const handleNodeDataChange = useCallback((nodeId: string, data: FlowNodeData, field?: string) => {
+    takeSnapshot(field ? `data:${nodeId}:${field}` : undefined);
     setNodes((nds: Node[]) =>
       nds.map((node: Node) => {
         if (node.id === nodeId) {
@@ -131,71 +493,682 @@ function App() {
         return node;
       })
     );
-  }, [setNodes]);
+
+    // Drop connections whose handle disappeared (e.g. a removed reply button)
+    const node = canvasGraph.nodesById.get(nodeId);
+    if (!node) return;
+    const handleIds = getSourceHandleIds({ ...node, data });
+    const isStale = (edge: Edge) => edge.source === nodeId && !handleIds.includes(edge.sourceHandle ?? null);
+    if (canvasGraph.outgoing.get(nodeId)!.some(isStale)) {
+      setEdges((eds: Edge[]) => eds.filter(edge => !isStale(edge)));
+    }
+  }, [canvasGraph, setNodes, setEdges, takeSnapshot]);
+
+  // Update a connection's label and metadata from the settings panel
+  const handleEdgeDataChange = useCallback((edgeId: string, data: FlowEdgeData, field?: string) => {
+    takeSnapshot(field ? `edge:${edgeId}:${field}` : undefined);
+    setEdges((eds: Edge[]) => eds.map((edge: Edge) => (edge.id === edgeId ? { ...edge, type: FLOW_EDGE_TYPE, data } : edge)));
+  }, [setEdges, takeSnapshot]);
+
+  // Update flow-level variable declarations from the Variables dialog
+  const handleVariablesChange = useCallback((next: FlowVariable[], field?: string) => {
+    takeSnapshot(field);
+    setVariables(next);
+  }, [takeSnapshot]);
+
+  const handleLocalesChange = useCallback((next: LocaleSettings) => {
+    takeSnapshot();
+    setLocales(next);
+  }, [takeSnapshot]);
+
+  // Translator files cover the whole flow, groups included
+  const handleExportTranslationsCsv = useCallback(() => {
+    downloadTextFile(toFileName(flowName, 'csv'), exportTranslationsCsv(rootGraph.nodes, locales), 'text/csv');
+  }, [rootGraph, locales, flowName]);
+
+  const handleExportTranslationsXliff = useCallback((locale: string) => {
+    const xliff = exportTranslationsXliff(rootGraph.nodes, locales, locale, flowName);
+    downloadTextFile(toFileName(`${flowName}-${locale}`, 'xlf'), xliff, 'application/xml');
+  }, [rootGraph, locales, flowName]);
+
+  // Apply a translator's file to the whole flow as one undoable edit
+  // Like comparing, this works on the whole flow, so any open group is left first
+  const handleImportTranslations = useCallback(async (file: File) => {
+    const text = await file.text();
+    const result = text.trimStart().startsWith('<')
+      ? parseTranslationsXliff(text, locales)
+      : parseTranslationsCsv(text, locales);
+    if (!result.isValid) {
+      showImportErrors(file.name, result.errors);
+      return;
+    }
+
+    const { nodes: translated, applied, unmatched } = applyTranslations(rootGraph.nodes, result.entries);
+    if (groupPath.length > 0) {
+      setEdges(rootGraph.edges);
+      setGroupPath([]);
+      resetHistory();
+    } else {
+      takeSnapshot();
+    }
+    setNodes(translated);
+    toast.success(
+      `Imported ${applied} translation${applied === 1 ? '' : 's'}` +
+      (unmatched > 0 ? ` - ${unmatched} string${unmatched === 1 ? '' : 's'} no longer exist in the flow` : '')
+    );
+  }, [rootGraph, locales, groupPath, setNodes, setEdges, takeSnapshot, resetHistory]);
 
   // Close settings panel
   const handleCloseSettings = useCallback(() => {
     setShowSettings(false);
-    setSelectedNode(null);
+    setSelectedNodeId(null);
+    setSelectedEdgeId(null);
     setNodes((nds: Node[]) =>
       nds.map((node: Node) => ({ ...node, selected: false })) // Deselect all nodes
     );
-  }, [setNodes]);
+    setEdges((eds: Edge[]) => eds.map((edge: Edge) => ({ ...edge, selected: false })));
+  }, [setNodes, setEdges]);
 
   const handleSave = useCallback(() => {
-    const validation = validateFlow(nodes, edges);
-    
     if (!validation.isValid) {
-      toast.error(validation.errorMessage);
+      toast.error(errorCount === 1
+        ? validation.errorMessage
+        : `Cannot save Flow: ${errorCount} problems need fixing - see the Problems panel.`);
+      setShowProblems(true);
+      return;
+    }
+
+    const flowData = createFlowData(rootGraph.nodes, rootGraph.edges, variables, locales); // Clean JSON for saving
+
+    try {
+      const stored = saveFlow({ id: flowId, name: flowName, data: flowData });
+      setFlowId(stored.id);
+      setFlowName(stored.name);
+      setLastOpenFlowId(stored.id); // Reopen this flow on next startup
+      addRevision(stored.id, stored.name, flowData);
+      setRevisions(listRevisions(stored.id));
+      toast.success(`Flow "${stored.name}" saved successfully!`);
+    } catch {
+      toast.error('Cannot save Flow: browser storage is full or unavailable.');
+    }
+  }, [rootGraph, variables, locales, validation, errorCount, flowId, flowName]);
+
+  // Select and zoom to whatever a problem refers to
+  // Edge-only issues focus both ends of the connection; variable issues open the Variables dialog
+  const handleSelectIssue = useCallback((issue: ValidationIssue) => {
+    const focusIds = new Set(issue.nodeIds);
+    issue.edgeIds
+      .map(id => canvasGraph.edgesById.get(id))
+      .forEach(edge => edge && focusIds.add(edge.source).add(edge.target));
+
+    if (focusIds.size === 0) {
+      if (issue.code === 'invalid-variable-name') setShowVariables(true);
+      return;
+    }
+    if (![...focusIds].some(id => canvasGraph.nodesById.has(id))) {
+      toast.info('This problem is outside the sub-flow being edited - go back to see it.');
+      return;
+    }
+
+    const nodeIds = new Set(issue.nodeIds);
+    const edgeIds = new Set(issue.edgeIds);
+    setNodes((nds: Node[]) => nds.map(node => ({ ...node, selected: nodeIds.has(node.id) })));
+    setEdges((eds: Edge[]) => eds.map(edge => ({ ...edge, selected: edgeIds.has(edge.id) })));
+    reactFlowInstance?.fitView({
+      nodes: [...focusIds].map(id => ({ id })),
+      duration: 400, // Animate so it is clear where the view moved
+      padding: 0.4,
+      maxZoom: 1.5,
+    });
+  }, [canvasGraph, reactFlowInstance, setNodes, setEdges]);
+
+  // Reload the history whenever the panel opens or another flow is opened
+  useEffect(() => {
+    if (showHistory) setRevisions(flowId ? listRevisions(flowId) : []);
+  }, [showHistory, flowId]);
+
+  // A comparison belongs to the flow it was started on
+  useEffect(() => setComparison(null), [flowId]);
+
+  // Revisions describe the whole flow, so comparing leaves any open group first
+  const handleComparisonChange = useCallback((next: RevisionComparison | null) => {
+    if (next && groupPath.length > 0) {
+      setNodes(rootGraph.nodes);
+      setEdges(rootGraph.edges);
+      setGroupPath([]);
+      resetHistory();
+    }
+    setComparison(next);
+    if (next && !comparison) requestAnimationFrame(() => reactFlowInstance?.fitView({ duration: 300 }));
+  }, [groupPath, rootGraph, comparison, reactFlowInstance, setNodes, setEdges, resetHistory]);
+
+  const handleCloseHistory = useCallback(() => {
+    setShowHistory(false);
+    setComparison(null);
+  }, []);
+
+  // Zoom the compare overlay to a changed node
+  const handleFocusDiffNode = useCallback((nodeId: string) => {
+    reactFlowInstance?.fitView({ nodes: [{ id: nodeId }], duration: 400, padding: 0.4, maxZoom: 1.5 });
+  }, [reactFlowInstance]);
+
+  // Put a revision back on the canvas as an undoable edit - saving makes it the latest revision
+  const handleRestoreRevision = useCallback((revisionId: string) => {
+    const revision = flowId ? loadRevision(flowId, revisionId) : null;
+    if (!revision) {
+      toast.error('That revision no longer exists');
+      return;
+    }
+
+    const savedAt = new Date(revision.savedAt).toLocaleString();
+    if (!window.confirm(`Replace the canvas with the revision saved ${savedAt}?`)) return;
+
+    const restored = restoreFlowData(revision.data);
+    if (groupPath.length > 0) {
+      resetHistory(); // The undo stack belongs to the open group's canvas
+    } else {
+      takeSnapshot();
+    }
+    setNodes(restored.nodes);
+    setEdges(restored.edges);
+    setVariables(restored.variables);
+    setLocales(revision.data.locales);
+    setGroupPath([]);
+    setComparison(null);
+    setSelectedNodeId(null);
+    setShowSettings(false);
+    requestAnimationFrame(() => reactFlowInstance?.fitView());
+    toast.success(`Restored the revision from ${savedAt} - save to keep it`);
+  }, [flowId, groupPath, reactFlowInstance, setNodes, setEdges, takeSnapshot, resetHistory]);
+
+  // Comments are flow content: saved with the node and undoable like any other edit
+  const handleThreadsChange = useCallback((nodeId: string, threads: CommentThread[]) => {
+    takeSnapshot();
+    setNodes((nds: Node[]) => nds.map(node => (node.id === nodeId
+      ? { ...node, data: { ...node.data, comments: threads.length > 0 ? threads : undefined } } // No empty lists in saved data
+      : node)));
+  }, [setNodes, takeSnapshot]);
+
+  const handleCommentAuthorChange = useCallback((author: string) => {
+    setCommentAuthorState(author);
+    setCommentAuthor(author);
+  }, []);
+
+  // A node's comment badge - select the node and show its threads
+  const openComments = useCallback((nodeId: string) => {
+    setNodes((nds: Node[]) => nds.map(node => ({ ...node, selected: node.id === nodeId })));
+    setSelectedNodeId(nodeId);
+    setShowComments(true);
+  }, [setNodes]);
+
+  // A thread's node name in the comments panel - select it and zoom to it
+  const handleSelectCommentNode = useCallback((nodeId: string) => {
+    openComments(nodeId);
+    reactFlowInstance?.fitView({ nodes: [{ id: nodeId }], duration: 400, padding: 0.4, maxZoom: 1.5 });
+  }, [openComments, reactFlowInstance]);
+
+  // Swap the canvas to a group's nested flow; the current canvas waits in groupPath
+  // Undo history is per canvas, so it restarts on the way in and out
+  const openGroup = useCallback((nodeId: string) => {
+    if (comparison) return; // The compare overlay is read-only
+    const group = nodes.find(node => node.id === nodeId && node.type === 'groupNode');
+    if (!group) return;
+
+    const data = group.data as GroupNodeData;
+    const inner = restoreFlowData({ ...data.flow, variables: [] });
+    setGroupPath(path => [...path, {
+      groupId: group.id,
+      name: data.name,
+      nodes: nodes.map(node => ({ ...node, selected: false })),
+      edges,
+    }]);
+    setNodes(inner.nodes);
+    setEdges(inner.edges);
+    setSelectedNodeId(null);
+    setShowSettings(false);
+    resetHistory();
+    requestAnimationFrame(() => reactFlowInstance?.fitView());
+  }, [nodes, edges, comparison, reactFlowInstance, setNodes, setEdges, resetHistory]);
+
+  // Leave the open group, writing its nested flow back into the group node
+  const closeGroup = useCallback(() => {
+    const frame = groupPath[groupPath.length - 1];
+    if (!frame) return;
+
+    setNodes(frame.nodes.map(node => (node.id === frame.groupId ? withGroupContents(node, nodes, edges) : node)));
+    setEdges(frame.edges);
+    setGroupPath(groupPath.slice(0, -1));
+    setSelectedNodeId(null);
+    setShowSettings(false);
+    resetHistory();
+    requestAnimationFrame(() => reactFlowInstance?.fitView());
+  }, [groupPath, nodes, edges, reactFlowInstance, setNodes, setEdges, resetHistory]);
+
+  const editorContext = useMemo(() => ({
+    activeNodeId,
+    variableNames: new Set(variableRegistry.map(variable => variable.name)),
+    locale: activeLocale,
+    search: showSearch && searchQuery
+      ? {
+        query: searchQuery,
+        matchCase: searchOptions.matchCase,
+        matchedNodeIds: new Set(searchMatches.map(match => match.nodeId)),
+        currentNodeId: currentMatchId,
+      }
+      : null,
+    analytics: canvasAnalytics,
+    openGroup,
+    openComments,
+  }), [activeNodeId, variableRegistry, activeLocale, showSearch, searchQuery, searchOptions, searchMatches, currentMatchId, canvasAnalytics, openGroup, openComments]);
+
+  // Enter on a focused node - select just that node and move focus into its settings
+  const handleOpenSettingsFor = useCallback((nodeId: string) => {
+    setNodes((nds: Node[]) => nds.map(node => ({ ...node, selected: node.id === nodeId })));
+    setSelectedNodeId(nodeId);
+    setShowSettings(true);
+    if (showPreview || showHistory) {
+      announce('Node selected - close the preview or history panel to edit its settings');
+      return;
+    }
+    setSettingsFocusRequest(request => request + 1);
+  }, [showPreview, showHistory, setNodes, announce]);
+
+  const { labelledNodes, focusNode, handleKeyDown: handleCanvasKeyDown } = useCanvasKeyboard({
+    graph: canvasGraph,
+    setNodes,
+    takeSnapshot,
+    reactFlowInstance,
+    readOnly: !!comparison,
+    onOpenSettings: handleOpenSettingsFor,
+    onStartConnect: setConnectSourceId,
+    announce,
+  });
+
+  // Keyboard alternative to dropping - add a palette type at the centre of the view
+  // Repeated inserts cascade like pastes instead of stacking on one spot
+  const handleInsertNode = useCallback((type: string, subflowId?: string) => {
+    const bounds = reactFlowWrapper.current?.getBoundingClientRect();
+    if (!bounds || !reactFlowInstance) return;
+    if (comparison) {
+      toast.info('Stop comparing revisions to edit the flow');
+      return;
+    }
+
+    const centre = reactFlowInstance.project({ x: bounds.width / 2, y: bounds.height / 2 });
+    const position = { x: centre.x, y: centre.y };
+    while (nodes.some(node => Math.abs(node.position.x - position.x) < 1 && Math.abs(node.position.y - position.y) < 1)) {
+      position.x += PASTE_OFFSET;
+      position.y += PASTE_OFFSET;
+    }
+
+    const newNode = createPaletteNode(type, position, subflowId);
+    if (!newNode) return;
+
+    takeSnapshot();
+    setNodes((nds: Node[]) => [...nds.map(node => ({ ...node, selected: false })), newNode]);
+    focusNode(newNode.id, false);
+    announce(`Added ${NODE_TYPE_LABELS[type] || 'node'} - press Enter to edit it or C to connect it`);
+  }, [nodes, comparison, reactFlowInstance, createPaletteNode, setNodes, takeSnapshot, focusNode, announce]);
+
+  // Connection picked in the connect dialog - same rules as dragging one
+  const handlePickerConnect = useCallback((connection: Connection) => {
+    onConnect(connection);
+    setConnectSourceId(null);
+    const source = connection.source ? canvasGraph.nodesById.get(connection.source) : undefined;
+    const target = connection.target ? canvasGraph.nodesById.get(connection.target) : undefined;
+    if (source && target) announce(`Connected ${describeNode(source)} to ${describeNode(target)}`);
+    if (connection.source) focusNode(connection.source, false);
+  }, [canvasGraph, onConnect, announce, focusNode]);
+
+  const handlePickerClose = useCallback(() => {
+    if (connectSourceId) focusNode(connectSourceId, false);
+    setConnectSourceId(null);
+  }, [connectSourceId, focusNode]);
+
+  // Escape in the settings panel - back to the node being edited
+  const handleSettingsReturnFocus = useCallback(() => {
+    if (selectedNodeId) focusNode(selectedNodeId);
+  }, [selectedNodeId, focusNode]);
+
+  // Centre the view on a search match, keeping the current zoom
+  const centreOnNode = useCallback((nodeId: string) => {
+    const node = canvasGraph.nodesById.get(nodeId);
+    if (!node || !reactFlowInstance) return;
+    reactFlowInstance.setCenter(
+      node.position.x + (node.width ?? 0) / 2,
+      node.position.y + (node.height ?? 0) / 2,
+      { zoom: reactFlowInstance.getZoom(), duration: 300 },
+    );
+  }, [canvasGraph, reactFlowInstance]);
+
+  // New query or options - start again from the first match
+  const handleSearchChange = useCallback((query: string, options: SearchOptions) => {
+    setSearchQuery(query);
+    setSearchOptions(options);
+    setSearchIndex(0);
+    const first = findMatches(nodes, query, options)[0];
+    if (first) centreOnNode(first.nodeId);
+  }, [nodes, centreOnNode]);
+
+  // Next / previous match, wrapping around at either end
+  const handleSearchStep = useCallback((offset: 1 | -1) => {
+    if (searchMatches.length === 0) return;
+    const index = (currentMatchIndex + offset + searchMatches.length) % searchMatches.length;
+    setSearchIndex(index);
+    centreOnNode(searchMatches[index].nodeId);
+  }, [searchMatches, currentMatchIndex, centreOnNode]);
+
+  // Escape - keyboard focus goes to the match the user stopped at
+  const handleCloseSearch = useCallback(() => {
+    setShowSearch(false);
+    if (currentMatchId) focusNode(currentMatchId, false);
+  }, [currentMatchId, focusNode]);
+
+  // Replace in every message on this canvas as one undo step
+  const handleReplaceAll = useCallback((replacement: string) => {
+    if (comparison) return; // The compare overlay is read-only
+    const result = replaceInMessages(nodes, searchQuery, replacement, searchOptions);
+    if (result.replacements === 0) {
+      toast.info(`No message text contains "${searchQuery}"`);
+      return;
+    }
+    const occurrences = `${result.replacements} occurrence${result.replacements === 1 ? '' : 's'}`;
+    if (!window.confirm(`Replace ${occurrences} of "${searchQuery}" in ${result.nodeCount} message${result.nodeCount === 1 ? '' : 's'}?`)) return;
+
+    takeSnapshot();
+    setNodes(result.nodes);
+    toast.success(`Replaced ${occurrences}`);
+  }, [nodes, searchQuery, searchOptions, comparison, setNodes, takeSnapshot]);
+
+  // Collapse the selection into one sub-flow node (single entry, single exit)
+  const handleGroupSelection = useCallback(() => {
+    const name = window.prompt('Name for the new sub-flow', 'Sub-flow');
+    if (name === null) return;
+
+    const result = groupSelection(nodes, edges, name);
+    if (!result.isValid || !result.nodes || !result.edges) {
+      toast.error(result.errorMessage);
+      return;
+    }
+    if (result.warning && !window.confirm(result.warning)) return;
+
+    takeSnapshot();
+    setNodes(result.nodes);
+    setEdges(result.edges);
+    setSelectedNodeId(result.groupId ?? null); // Settings follow the new group
+  }, [nodes, edges, setNodes, setEdges, takeSnapshot]);
+
+  // Keep a copy of a group in the palette for reuse in any flow
+  const handleSaveSubflow = useCallback((data: GroupNodeData) => {
+    try {
+      const saved = saveSubflow(data.name, data);
+      setSubflows(listSubflows());
+      toast.success(`Saved "${saved.name}" to the palette`);
+    } catch {
+      toast.error('Could not save sub-flow: browser storage is full');
+    }
+  }, []);
+
+  const handleDeleteSubflow = useCallback((id: string) => {
+    const subflow = subflows.find(candidate => candidate.id === id);
+    if (!subflow || !window.confirm(`Remove "${subflow.name}" from the palette? Flows already using it keep their copy.`)) return;
+
+    deleteSubflow(id);
+    setSubflows(listSubflows());
+  }, [subflows]);
+
+  // Replace the canvas with a flow from the library
+  const handleOpenFlow = useCallback((id: string) => {
+    const flow = loadFlow(id);
+    if (!flow) {
+      toast.error('That flow no longer exists');
+      return;
+    }
+
+    const restored = restoreFlowData(flow.data);
+    setNodes(restored.nodes);
+    setEdges(restored.edges);
+    setVariables(restored.variables);
+    setLocales(flow.data.locales);
+    setFlowId(flow.id);
+    setFlowName(flow.name);
+    setLastOpenFlowId(flow.id);
+    setGroupPath([]);
+    setSelectedNodeId(null);
+    setShowSettings(false);
+    setShowLibrary(false);
+    resetHistory(); // Undo should not cross into the previous flow
+    requestAnimationFrame(() => reactFlowInstance?.fitView()); // After the new nodes render
+  }, [reactFlowInstance, setNodes, setEdges, resetHistory]);
+
+  // Start over with an empty, unsaved flow
+  const handleNewFlow = useCallback(() => {
+    setNodes(initialNodes);
+    setEdges(initialEdges);
+    setVariables(initialVariables);
+    setLocales(DEFAULT_LOCALE_SETTINGS);
+    setFlowId(null);
+    setFlowName('Untitled flow');
+    setLastOpenFlowId(null);
+    setGroupPath([]);
+    setSelectedNodeId(null);
+    setShowSettings(false);
+    resetHistory();
+  }, [setNodes, setEdges, resetHistory]);
+
+  // Download the whole flow as a versioned flow file, a diagram or a script, or the canvas view as an image
+  // Export is allowed for invalid flows too, so work in progress can be shared
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    const flow = createFlowData(rootGraph.nodes, rootGraph.edges, variables, locales);
+    switch (format) {
+      case 'json':
+        downloadFlowFile(flowName, flow);
+        return;
+      case 'mermaid':
+        downloadTextFile(toFileName(flowName, 'mmd'), exportMermaid(flow), 'text/plain');
+        return;
+      case 'dot':
+        downloadTextFile(toFileName(flowName, 'dot'), exportDot(flow, flowName), 'text/vnd.graphviz');
+        return;
+      case 'script':
+        downloadTextFile(toFileName(flowName, 'md'), exportConversationScript(flow, flowName), 'text/markdown');
+        return;
+    }
+
+    const canvas = reactFlowWrapper.current?.querySelector<HTMLElement>('.react-flow');
+    if (!canvas) return;
+    try {
+      if (format === 'svg') {
+        downloadTextFile(toFileName(flowName, 'svg'), renderCanvasSvg(canvas), 'image/svg+xml');
+      } else {
+        downloadBlob(toFileName(flowName, 'png'), await renderCanvasPng(canvas));
+      }
+    } catch (error) {
+      toast.error(`Cannot export the canvas: ${(error as Error).message}`);
+    }
+  }, [rootGraph, variables, locales, flowName]);
+
+  // Overlay a production conversation log (JSON lines) on the flow - view only, nothing is saved
+  const handleImportAnalytics = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    const result = parseEventLog(await file.text());
+    if (!result.isValid) {
+      showImportErrors(file.name, result.errors);
+      return;
+    }
+
+    setAnalyticsLog({ fileName: file.name, events: result.events });
+    const missing = findMissingNodes(summarizeEvents(result.events), rootGraph.nodes);
+    toast.success(`Imported ${result.events.length} event${result.events.length === 1 ? '' : 's'}`);
+    if (missing.length > 0) {
+      toast.warning(`${missing.length} node${missing.length === 1 ? ' in the log is' : 's in the log are'} not in this flow`);
+    }
+  }, [rootGraph]);
+
+  // Load a flow file picked by the user - opens as a new, unsaved flow
+  const handleImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    const result = parseFlowFile(await file.text());
+    if (!result.isValid || !result.file) {
+      showImportErrors(file.name, result.errors);
+      return;
+    }
+
+    const restored = restoreFlowData(result.file.flow);
+    setNodes(restored.nodes);
+    setEdges(restored.edges);
+    setVariables(restored.variables);
+    setLocales(result.file.flow.locales);
+    setFlowId(null);
+    setFlowName(result.file.name);
+    setGroupPath([]);
+    setSelectedNodeId(null);
+    setShowSettings(false);
+    resetHistory();
+    requestAnimationFrame(() => reactFlowInstance?.fitView()); // After the new nodes render
+    toast.success(`Imported "${result.file.name}" - save it to add it to the library`);
+  }, [reactFlowInstance, setNodes, setEdges, resetHistory]);
+
+  // Keep the top bar in sync when the open flow is renamed from the library
+  const handleFlowRenamed = useCallback((id: string, name: string) => {
+    if (id === flowId) setFlowName(name);
+  }, [flowId]);
+
+  // Deleting the open flow detaches the canvas - the next save creates a new entry
+  const handleFlowDeleted = useCallback((id: string) => {
+    if (id === flowId) setFlowId(null);
+  }, [flowId]);
+
+  // Add a copied fragment next to its original and select it, as one undo step
+  // Declared variables the fragment needs are added unless the flow already has one by that name
+  const pasteFragment = useCallback((fragment: FlowData, offset: XYPosition) => {
+    const pasted = instantiateFragment(fragment, offset);
+
+    takeSnapshot();
+    setNodes((nds: Node[]) => [
+      ...nds.map(node => ({ ...node, selected: false })),
+      ...pasted.nodes.map(node => ({ ...node, selected: true })), // Pasted nodes become the selection so they can be moved right away
+    ]);
+    setEdges((eds: Edge[]) => [...eds.map(edge => ({ ...edge, selected: false })), ...pasted.edges]);
+    setVariables(current => [
+      ...current,
+      ...fragment.variables.filter(variable => !current.some(existing => existing.name === variable.name)),
+    ]);
+  }, [setNodes, setEdges, takeSnapshot]);
+
+  // Ctrl+C - put the selection on the system clipboard as a flow file
+  const handleCopy = useCallback((event: ClipboardEvent) => {
+    if (isEditingText()) return; // Let text fields copy text
+
+    const fragment = copySelection(nodes, edges, variables);
+    if (!fragment || !event.clipboardData) return;
+
+    event.preventDefault();
+    event.clipboardData.setData('text/plain', serializeFragment(fragment));
+    pasteCount.current = 0;
+    toast.success(`Copied ${fragment.nodes.length} node${fragment.nodes.length > 1 ? 's' : ''}`);
+  }, [nodes, edges, variables]);
+
+  // Ctrl+V - paste flow content copied in this or another tab; other text is ignored
+  const handlePaste = useCallback((event: ClipboardEvent) => {
+    if (isEditingText() || comparison) return;
+
+    const result = parseFragment(event.clipboardData?.getData('text/plain') || '');
+    if (!result) return;
+
+    event.preventDefault();
+    if (!result.isValid || !result.file) {
+      toast.error(`Cannot paste: ${result.errors[0]}`);
       return;
     }
 
-    const flowData = createFlowData(nodes, edges); // Clean JSON for saving
-    console.log('Flow saved successfully:', flowData);
-    toast.success('Flow saved successfully! Check console for details.');
-  }, [nodes, edges]);
+    pasteCount.current += 1;
+    const distance = PASTE_OFFSET * pasteCount.current;
+    pasteFragment(result.file.flow, { x: distance, y: distance });
+  }, [comparison, pasteFragment]);
 
-  // Handle keyboard deletion of selected nodes and edges
-  // Supports Delete/Backspace keys with proper input field detection
+  // Handle keyboard shortcuts: deletion of selected nodes/edges, undo/redo, duplicate and search
+  // Supports Delete/Backspace, Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y), Ctrl+D and Ctrl+F with proper input field detection
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    // Only handle deletion keys
-    if (event.key !== 'Delete' && event.key !== 'Backspace') {
+    // Ctrl+F opens canvas search instead of the browser's, which cannot see into nodes well
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+      event.preventDefault();
+      if (showSearch) {
+        document.querySelector<HTMLInputElement>('[role="search"] input')?.select(); // Back to the query
+      } else {
+        setShowSearch(true);
+      }
+      return;
+    }
+
+    const isDeleteKey = event.key === 'Delete' || event.key === 'Backspace';
+    const isHistoryKey = (event.ctrlKey || event.metaKey) && ['z', 'y'].includes(event.key.toLowerCase());
+    const isDuplicateKey = (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'd';
+    if (!isDeleteKey && !isHistoryKey && !isDuplicateKey) {
       return;
     }
 
-    // Don't delete if user is typing in an input field
-    const activeElement = document.activeElement as HTMLElement;
-    if (activeElement && (
-      activeElement.tagName === 'INPUT' || 
-      activeElement.tagName === 'TEXTAREA' ||
-      activeElement.contentEditable === 'true'
-    )) {
+    // Don't act if user is typing in an input field - the browser handles text undo there
+    if (isEditingText()) {
       return; // User is typing, don't delete
     }
 
-    event.preventDefault(); // Prevent browser back navigation
+    if (comparison && !isHistoryKey) {
+      return; // The compare overlay is read-only
+    }
+
+    event.preventDefault(); // Prevent browser back navigation (and the bookmark dialog for Ctrl+D)
+
+    if (isDuplicateKey) {
+      const fragment = copySelection(nodes, edges, variables);
+      if (fragment) pasteFragment(fragment, { x: PASTE_OFFSET, y: PASTE_OFFSET });
+      return;
+    }
 
-    const selectedNodes = nodes.filter(node => node.selected);
+    if (isHistoryKey) {
+      if (event.key.toLowerCase() === 'y' || event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+      return;
+    }
+
+    let selectedNodes = nodes.filter(node => node.selected);
     const selectedEdges = edges.filter(edge => edge.selected);
 
+    // Keyboard users can delete the focused node without selecting it first
+    if (selectedNodes.length === 0 && selectedEdges.length === 0) {
+      const focusedNodeId = getFocusedNodeId();
+      selectedNodes = nodes.filter(node => node.id === focusedNodeId);
+    }
+
     if (selectedNodes.length === 0 && selectedEdges.length === 0) {
       return; // Nothing selected
     }
 
+    takeSnapshot(); // Whole deletion (nodes + edges) is one undo step
+
     // Handle node deletion (also removes connected edges)
     if (selectedNodes.length > 0) {
-      const nodeIds = selectedNodes.map(node => node.id);
+      const nodeIds = new Set(selectedNodes.map(node => node.id)); // Set - selections can hold thousands of nodes
       
-      setNodes((nodes: Node[]) => nodes.filter((node: Node) => !nodeIds.includes(node.id)));
+      setNodes((nodes: Node[]) => nodes.filter((node: Node) => !nodeIds.has(node.id)));
       
       // Clean up edges connected to deleted nodes
       setEdges((edges: Edge[]) => edges.filter((edge: Edge) => 
-        !nodeIds.includes(edge.source) && !nodeIds.includes(edge.target)
+        !nodeIds.has(edge.source) && !nodeIds.has(edge.target)
       ));
 
       // Close settings panel if deleted node was selected
-      if (selectedNode && nodeIds.includes(selectedNode.id)) {
-        setSelectedNode(null);
+      if (selectedNode && nodeIds.has(selectedNode.id)) {
+        setSelectedNodeId(null);
         setShowSettings(false);
       }
 
@@ -204,14 +1177,21 @@ function App() {
 
     // Handle standalone edge deletion
     if (selectedEdges.length > 0) {
-      const edgeIds = selectedEdges.map(edge => edge.id);
-      setEdges((edges: Edge[]) => edges.filter(edge => !edgeIds.includes(edge.id)));
+      const edgeIds = new Set(selectedEdges.map(edge => edge.id));
+      setEdges((edges: Edge[]) => edges.filter(edge => !edgeIds.has(edge.id)));
       
       toast.success(`Deleted ${selectedEdges.length} connection${selectedEdges.length > 1 ? 's' : ''}`);
     }
-  }, [nodes, edges, selectedNode, setNodes, setEdges]);
+  }, [nodes, edges, variables, selectedNode, comparison, showSearch, setNodes, setEdges, takeSnapshot, undo, redo, pasteFragment]);
+
+  // Benchmark fixtures report how long validating and arranging them takes
+  useEffect(() => {
+    if (!initialState.benchmark) return;
+    const result = runValidationBenchmark(initialState.benchmark);
+    toast.info(`Validated ${result.nodes} nodes in ${Math.round(result.fullMs)} ms; after an edit in ${Math.round(result.incrementalMs)} ms; arranged in ${Math.round(result.layoutMs)} ms`);
+  }, [initialState]);
 
-  // Set up keyboard listener for delete functionality
+  // Set up keyboard listener for delete, undo/redo, duplicate and search shortcuts
   useEffect(() => {
     document.addEventListener('keydown', handleKeyDown);
     return () => {
@@ -219,66 +1199,456 @@ function App() {
     };
   }, [handleKeyDown]);
 
+  // Clipboard events carry the system clipboard without a permission prompt
+  useEffect(() => {
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [handleCopy, handlePaste]);
+
   return (
     <div className="flex h-screen bg-gray-100">
       {/* Left Sidebar - Nodes Panel */}
-      <NodesPanel />
+      <NodesPanel subflows={subflows} onInsert={handleInsertNode} onDeleteSubflow={handleDeleteSubflow} />
 
       {/* Main content area */}
       <div className="flex-1 flex flex-col">
-        {/* Top bar with save button */}
+        {/* Top bar with flow name, library and save buttons */}
         <div className="bg-white border-b border-gray-200 px-4 py-3 flex justify-between items-center">
-          <h1 className="text-xl font-semibold text-gray-800">
-            Chatbot Flow Builder
-          </h1>
-          <button
-            onClick={handleSave}
-            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors font-medium"
-          >
-            Save Changes
-          </button>
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-semibold text-gray-800">
+              Chatbot Flow Builder
+            </h1>
+            <input
+              value={flowName}
+              onChange={(event) => setFlowName(event.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Flow name"
+              title="Flow name"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="p-2 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="Undo (Ctrl+Z)"
+              aria-label="Undo"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 010 10H9M3 10l4-4M3 10l4 4" />
+              </svg>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="p-2 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+              aria-label="Redo"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 000 10h4M21 10l-4-4M21 10l-4 4" />
+              </svg>
+            </button>
+            <button
+              onClick={() => arrange()}
+              disabled={nodes.length === 0}
+              className="px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors font-medium"
+              title="Lay the flow out left to right from the start node"
+            >
+              Auto-arrange
+            </button>
+            {selectedNodeCount > 1 && (
+              <button
+                onClick={() => arrange(true)}
+                className="px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100 transition-colors font-medium"
+                title="Arrange only the selected nodes, keeping them where they are on the canvas"
+              >
+                Arrange selection
+              </button>
+            )}
+            {selectedNodeCount > 1 && (
+              <button
+                onClick={handleGroupSelection}
+                className="px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100 transition-colors font-medium"
+                title="Collapse the selected nodes into one reusable sub-flow"
+              >
+                Group
+              </button>
+            )}
+            <button
+              onClick={handleNewFlow}
+              className="px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100 transition-colors font-medium"
+            >
+              New
+            </button>
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors font-medium"
+            >
+              Library
+            </button>
+            <button
+              onClick={() => setShowVariables(true)}
+              className="px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100 transition-colors font-medium"
+            >
+              Variables
+            </button>
+            <button
+              onClick={() => setShowLocales(true)}
+              className="px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100 transition-colors font-medium"
+            >
+              Languages
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-4 py-2 text-gray-700 rounded-md hover:bg-gray-100 transition-colors font-medium"
+            >
+              Import
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <ExportMenu onExport={handleExport} />
+            <button
+              onClick={() => analyticsInputRef.current?.click()}
+              className={`px-4 py-2 rounded-md transition-colors font-medium ${
+                analyticsLog ? 'bg-indigo-50 text-indigo-900' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+              title="Import a conversation log (JSON lines) to see visits and drop-off on the canvas"
+            >
+              Analytics
+            </button>
+            <input
+              ref={analyticsInputRef}
+              type="file"
+              accept=".jsonl,.ndjson,.json,.txt"
+              onChange={handleImportAnalytics}
+              className="hidden"
+            />
+            <button
+              onClick={() => setShowSearch(show => !show)}
+              className={`px-4 py-2 rounded-md transition-colors font-medium ${
+                showSearch ? 'bg-yellow-50 text-yellow-900' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+              title="Search nodes (Ctrl+F)"
+            >
+              Find
+            </button>
+            <button
+              onClick={() => setShowComments(show => !show)}
+              className={`px-4 py-2 rounded-md transition-colors font-medium flex items-center gap-2 ${
+                showComments ? 'bg-orange-50 text-orange-900' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+              title="Review comments on message nodes"
+            >
+              Comments
+              {openThreadCount > 0 && (
+                <span className="min-w-[1.25rem] px-1.5 rounded-full text-xs text-white bg-orange-500">{openThreadCount}</span>
+              )}
+            </button>
+            <button
+              onClick={() => setShowProblems(show => !show)}
+              className={`px-4 py-2 rounded-md border transition-colors font-medium flex items-center gap-2 ${
+                showProblems ? 'bg-red-50 border-red-300 text-red-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+              title="Show every validation issue"
+            >
+              Problems
+              {validation.issues.length > 0 && (
+                <span
+                  className={`min-w-[1.25rem] px-1.5 rounded-full text-xs text-white ${errorCount > 0 ? 'bg-red-500' : 'bg-amber-400'}`}
+                >
+                  {validation.issues.length}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => (showHistory ? handleCloseHistory() : setShowHistory(true))}
+              className={`px-4 py-2 rounded-md border transition-colors font-medium ${
+                showHistory ? 'bg-indigo-50 border-indigo-300 text-indigo-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+              title="Saved revisions - compare and restore"
+            >
+              History
+            </button>
+            <button
+              onClick={() => setShowPreview(show => !show)}
+              className={`px-4 py-2 rounded-md border transition-colors font-medium ${
+                showPreview ? 'bg-teal-50 border-teal-300 text-teal-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              Preview
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors font-medium"
+            >
+              Save Changes
+            </button>
+          </div>
         </div>
 
-        {/* React Flow canvas */}
-        <div className="flex-1" ref={reactFlowWrapper}>
-          <ReactFlow
-            nodes={nodes}
-            edges={edges}
-            onNodesChange={onNodesChange}
-            onEdgesChange={onEdgesChange}
-            onConnect={onConnect}
-            onSelectionChange={onSelectionChange}
-            onInit={setReactFlowInstance}
-            onDrop={onDrop}
-            onDragOver={onDragOver}
-            nodeTypes={nodeTypes}
-            fitView
-            className="bg-white"
-            edgesUpdatable={true} // Allow edge editing
-            edgesFocusable={true} // Allow edge selection
-            multiSelectionKeyCode="Control" // Multi-select with Ctrl
-          >
-            <Controls position="bottom-left" />
-            <MiniMap 
-              nodeColor="#a7f3d0"
-              nodeStrokeWidth={2}
-              className="bg-white border border-gray-200 rounded-lg"
-              position="bottom-right"
-            />
-            <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="#e5e7eb" />
-          </ReactFlow>
+        {/* Canvas search */}
+        {showSearch && (
+          <SearchBar
+            query={searchQuery}
+            options={searchOptions}
+            matches={searchMatches}
+            currentIndex={currentMatchIndex}
+            canReplace={!comparison}
+            onQueryChange={(query) => handleSearchChange(query, searchOptions)}
+            onOptionsChange={(options) => handleSearchChange(searchQuery, options)}
+            onStep={handleSearchStep}
+            onReplaceAll={handleReplaceAll}
+            onClose={handleCloseSearch}
+          />
+        )}
+
+        {/* Conversation log overlay summary */}
+        {analyticsLog && flowAnalytics && (
+          <AnalyticsBar
+            fileName={analyticsLog.fileName}
+            eventCount={flowAnalytics.eventCount}
+            conversationCount={flowAnalytics.conversationCount}
+            missing={missingAnalyticsNodes}
+            onImport={() => analyticsInputRef.current?.click()}
+            onClose={() => setAnalyticsLog(null)}
+          />
+        )}
+
+        {/* Breadcrumb while a group's nested flow is open */}
+        {groupPath.length > 0 && (
+          <div className="bg-slate-50 border-b border-slate-200 px-4 py-2 flex items-center gap-3 text-sm">
+            <button
+              onClick={closeGroup}
+              className="px-2 py-1 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              ← Back
+            </button>
+            <span className="text-slate-500">
+              {[flowName, ...groupPath.map(frame => frame.name)].join(' › ')}
+            </span>
+            <span className="text-xs text-slate-400">
+              Steps left without a connection continue through the sub-flow's exit
+            </span>
+          </div>
+        )}
+
+        {/* Banner while the canvas shows a revision comparison */}
+        {diffOverlay && (
+          <div className="bg-indigo-50 border-b border-indigo-200 px-4 py-2 flex items-center gap-3 text-sm">
+            <span className="text-indigo-800 font-medium">Comparing revisions</span>
+            <span className="text-indigo-600">Read-only - stop comparing in the History panel to edit again</span>
+          </div>
+        )}
+
+        {/* React Flow canvas - the compare overlay replaces the flow while open */}
+        {/* Keys on focused nodes are handled by useCanvasKeyboard; the help text is read when the canvas is entered */}
+        <div
+          className="flex-1"
+          ref={reactFlowWrapper}
+          role="application"
+          aria-label="Flow canvas"
+          aria-describedby="canvas-keyboard-help"
+          onKeyDown={handleCanvasKeyDown}
+        >
+          <p id="canvas-keyboard-help" className="sr-only">
+            Tab to a node. Arrow keys follow connections: right to the next step, left to the previous one, up and down
+            between branches. Alt plus arrow keys move the node. Enter edits the node, C connects it to another node,
+            Delete removes it.
+          </p>
+          <FlowEditorContext.Provider value={editorContext}>
+            <ReactFlow
+              nodes={diffOverlay ? diffOverlay.nodes : labelledNodes}
+              edges={diffOverlay ? diffOverlay.edges : edges}
+              onNodesChange={diffOverlay ? undefined : onNodesChange}
+              onEdgesChange={diffOverlay ? undefined : onEdgesChange}
+              nodesConnectable={!diffOverlay}
+              elementsSelectable={!diffOverlay}
+              onConnect={onConnect}
+              onNodeDragStart={onNodeDragStart}
+              onSelectionDragStart={onNodeDragStart}
+              onNodeDragStop={onNodeDragStop}
+              onSelectionDragStop={onSelectionDragStop}
+              onSelectionChange={onSelectionChange}
+              onInit={setReactFlowInstance}
+              onDrop={diffOverlay ? undefined : onDrop}
+              onDragOver={onDragOver}
+              nodeTypes={nodeTypes}
+              edgeTypes={edgeTypes}
+              defaultEdgeOptions={DEFAULT_EDGE_OPTIONS}
+              fitView
+              onlyRenderVisibleElements={nodes.length >= LARGE_FLOW_NODE_COUNT}
+              className="bg-white"
+              edgesUpdatable={true} // Allow edge editing
+              edgesFocusable={true} // Allow edge selection
+              multiSelectionKeyCode="Control" // Multi-select with Ctrl
+              disableKeyboardA11y // Replaced by useCanvasKeyboard - arrows follow edges instead of moving nodes
+            >
+              <Controls position="bottom-left" />
+              <MiniMap 
+                nodeColor="#a7f3d0"
+                nodeStrokeWidth={2}
+                className="bg-white border border-gray-200 rounded-lg"
+                position="bottom-right"
+              />
+              <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="#e5e7eb" />
+              {/* Canvas language switcher - only for multi-language flows */}
+              {locales.locales.length > 1 && (
+                <Panel position="top-right">
+                  <select
+                    value={activeLocale ?? locales.defaultLocale}
+                    onChange={(event) => setCanvasLocale(event.target.value === locales.defaultLocale ? null : event.target.value)}
+                    className="px-2 py-1 bg-white border border-gray-300 rounded-md shadow-sm text-sm"
+                    title="Language shown on the canvas and edited in the settings panel"
+                  >
+                    {locales.locales.map(locale => (
+                      <option key={locale} value={locale}>
+                        {describeLocale(locale)}{locale === locales.defaultLocale ? ' - default' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </Panel>
+              )}
+            </ReactFlow>
+          </FlowEditorContext.Provider>
         </div>
+
+        {/* Problems panel - docked below the canvas */}
+        {showProblems && problemsDock === 'bottom' && (
+          <ProblemsPanel
+            issues={validation.issues}
+            dock={problemsDock}
+            onDockChange={setProblemsDock}
+            onSelectIssue={handleSelectIssue}
+            onClose={() => setShowProblems(false)}
+          />
+        )}
       </div>
 
+      {/* Problems panel - docked as a right sidebar */}
+      {showProblems && problemsDock === 'right' && (
+        <ProblemsPanel
+          issues={validation.issues}
+          dock={problemsDock}
+          onDockChange={setProblemsDock}
+          onSelectIssue={handleSelectIssue}
+          onClose={() => setShowProblems(false)}
+        />
+      )}
+
+      {/* Right Sidebar - Preview simulator takes precedence over settings */}
+      {showPreview && (
+        <PreviewPanel
+          nodes={rootGraph.nodes}
+          edges={rootGraph.edges}
+          variables={variables}
+          locale={activeLocale}
+          selectedNodeId={selectedNodeId}
+          onActiveNodeChange={setActiveNodeId}
+          onClose={() => setShowPreview(false)}
+        />
+      )}
+
+      {/* Right Sidebar - Revision history, below the preview in precedence */}
+      {showHistory && !showPreview && (
+        <HistoryPanel
+          flowId={flowId}
+          revisions={revisions}
+          comparison={comparison}
+          diff={flowDiff}
+          onComparisonChange={handleComparisonChange}
+          onRestore={handleRestoreRevision}
+          onFocusNode={handleFocusDiffNode}
+          onClose={handleCloseHistory}
+        />
+      )}
+
+      {/* Right Sidebar - Comments, below history in precedence */}
+      {showComments && !showPreview && !showHistory && (
+        <CommentsPanel
+          threads={commentThreads}
+          focusNode={commentFocusNode}
+          author={commentAuthor}
+          onAuthorChange={handleCommentAuthorChange}
+          onThreadsChange={handleThreadsChange}
+          onSelectNode={handleSelectCommentNode}
+          onClose={() => setShowComments(false)}
+        />
+      )}
+
       {/* Right Sidebar - Settings Panel */}
-      {showSettings && (
+      {showSettings && !showPreview && !showHistory && !showComments && (
         <SettingsPanel
           selectedNode={selectedNode}
+          selectedEdge={selectedEdge}
+          variables={variableRegistry}
+          locale={activeLocale}
           onNodeDataChange={handleNodeDataChange}
+          onEdgeDataChange={handleEdgeDataChange}
+          onOpenGroup={openGroup}
+          onSaveSubflow={handleSaveSubflow}
+          focusRequest={settingsFocusRequest}
+          onReturnFocus={handleSettingsReturnFocus}
           onClose={handleCloseSettings}
         />
       )}
 
+      {/* Keyboard connection picker - opened with C on a focused node */}
+      {connectSource && (
+        <ConnectPicker
+          source={connectSource}
+          nodes={nodes}
+          edges={edges}
+          onConnect={handlePickerConnect}
+          onClose={handlePickerClose}
+        />
+      )}
+
+      {/* Flow-level variable declarations */}
+      {showVariables && (
+        <VariablesPanel
+          variables={variables}
+          registry={variableRegistry}
+          onChange={handleVariablesChange}
+          onClose={() => setShowVariables(false)}
+        />
+      )}
+
+      {/* Flow languages and translation files */}
+      {showLocales && (
+        <LocalesPanel
+          settings={locales}
+          onChange={handleLocalesChange}
+          onExportCsv={handleExportTranslationsCsv}
+          onExportXliff={handleExportTranslationsXliff}
+          onImport={handleImportTranslations}
+          onClose={() => setShowLocales(false)}
+        />
+      )}
+
+      {/* Saved flow library */}
+      {showLibrary && (
+        <FlowLibrary
+          currentFlowId={flowId}
+          onOpenFlow={handleOpenFlow}
+          onFlowRenamed={handleFlowRenamed}
+          onFlowDeleted={handleFlowDeleted}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {/* Screen reader announcements, including toast text */}
+      <LiveRegion message={announcement} />
+
       {/* Toast notifications */}
       <ToastContainer
         position="top-center"
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useFlowEditor } from '../context/FlowEditorContext';
+import { formatDuration } from '../utils/analytics';
+
+interface AnalyticsBadgeProps {
+  nodeId: string;
+}
+
+/**
+ * AnalyticsBadge - Node footer with stats from an imported conversation log
+ *
+ * Shows visits, the share of visits where the conversation stopped and the
+ * average time until the next step; hidden while no log is overlaid.
+ * High drop-off rates (25% and up) are shown in red
+ */
+const AnalyticsBadge: React.FC<AnalyticsBadgeProps> = ({ nodeId }) => {
+  const { analytics } = useFlowEditor();
+  if (!analytics) return null;
+
+  const stats = analytics.nodes.get(nodeId);
+  if (!stats) {
+    return <div className="px-3 py-1 border-t border-gray-100 bg-gray-50 rounded-b-lg text-[11px] text-gray-400">No visits in the log</div>;
+  }
+
+  const dropOff = Math.round(stats.dropOffRate * 100);
+  return (
+    <div
+      className="px-3 py-1 border-t border-gray-100 bg-gray-50 rounded-b-lg text-[11px] text-gray-600 flex gap-2"
+      title={`${stats.visits} visits in ${stats.conversations} conversations; ${stats.dropOffs} ended here`}
+    >
+      <span>👁 {stats.visits}</span>
+      <span className={dropOff >= 25 ? 'text-red-600 font-medium' : ''}>↘ {dropOff}% drop-off</span>
+      {stats.avgTimeToNextMs !== null && <span>⏱ {formatDuration(stats.avgTimeToNextMs)}</span>}
+    </div>
+  );
+};
+
+export default AnalyticsBadge;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { MissingNode } from '../utils/analytics';
+
+interface AnalyticsBarProps {
+  fileName: string;
+  eventCount: number;
+  conversationCount: number;
+  missing: MissingNode[]; // Log node IDs the flow does not contain
+  onImport: () => void; // Pick another log
+  onClose: () => void;
+}
+
+// Unknown node IDs listed by name before the rest are summed up
+const MISSING_SHOWN = 5;
+
+/**
+ * AnalyticsBar - Summary of the conversation log overlaid on the canvas
+ *
+ * Shows the log's size and flags node IDs it mentions that are not in the
+ * flow - usually nodes deleted or replaced since the log was recorded, whose
+ * traffic the overlay cannot show
+ */
+const AnalyticsBar: React.FC<AnalyticsBarProps> = ({ fileName, eventCount, conversationCount, missing, onImport, onClose }) => (
+  <div role="region" aria-label="Conversation analytics" className="bg-indigo-50 border-b border-indigo-200 px-4 py-2 space-y-1 text-sm">
+    <div className="flex items-center gap-3">
+      <span className="font-medium text-indigo-900">Analytics</span>
+      <span className="text-gray-700 truncate">
+        {fileName} · {eventCount} event{eventCount === 1 ? '' : 's'} · {conversationCount} conversation{conversationCount === 1 ? '' : 's'}
+      </span>
+      <button onClick={onImport} className="ml-auto px-2 py-1 rounded-md text-indigo-800 hover:bg-indigo-100">
+        Import another log
+      </button>
+      <button
+        onClick={onClose}
+        className="p-1 hover:bg-indigo-100 rounded-md transition-colors"
+        title="Hide analytics"
+        aria-label="Hide analytics"
+      >
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+
+    {/* Log entries the overlay cannot place */}
+    {missing.length > 0 && (
+      <div className="text-xs text-amber-800">
+        ⚠ {missing.length} node{missing.length === 1 ? ' is' : 's are'} in the log but not in this flow:{' '}
+        {missing.slice(0, MISSING_SHOWN).map(node => `${node.nodeId} (${node.visits} visit${node.visits === 1 ? '' : 's'})`).join(', ')}
+        {missing.length > MISSING_SHOWN && ` and ${missing.length - MISSING_SHOWN} more`}
+      </div>
+    )}
+  </div>
+);
+
+export default AnalyticsBar;
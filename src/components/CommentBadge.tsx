@@ -0,0 +1,40 @@
+import React from 'react';
+import { useFlowEditor } from '../context/FlowEditorContext';
+import { FlowNodeData } from '../nodes';
+import { CommentThread, countOpenThreads, getThreads } from '../utils/comments';
+
+interface CommentBadgeProps {
+  nodeId: string;
+  data: FlowNodeData & { comments?: CommentThread[] }; // Node data, holding its comment threads
+}
+
+/**
+ * CommentBadge - Node header marker for review comments
+ *
+ * Shows the number of open threads (or a check once all are resolved) and
+ * opens the comments panel on the node when clicked; hidden without comments
+ */
+const CommentBadge: React.FC<CommentBadgeProps> = ({ nodeId, data }) => {
+  const { openComments } = useFlowEditor();
+  const threads = getThreads({ data });
+  if (threads.length === 0) return null;
+
+  const open = countOpenThreads(threads);
+  return (
+    <button
+      onClick={(event) => {
+        event.stopPropagation(); // Opening the discussion should not start a drag or change the selection
+        openComments(nodeId);
+      }}
+      className={`nodrag px-1.5 rounded-full text-[10px] font-medium ${
+        open > 0 ? 'bg-orange-100 text-orange-700 hover:bg-orange-200' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+      }`}
+      title={open > 0 ? `${open} open comment thread${open === 1 ? '' : 's'}` : 'All comments resolved'}
+      aria-label={open > 0 ? `${open} open comment threads` : 'Comments, all resolved'}
+    >
+      💬 {open > 0 ? open : '✓'}
+    </button>
+  );
+};
+
+export default CommentBadge;
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { Node } from 'reactflow';
+import { describeNode } from '../utils/validation';
+import {
+  CommentThread,
+  NodeThread,
+  getThreads,
+  startThread,
+  replyToThread,
+  setThreadResolved,
+  deleteThread,
+} from '../utils/comments';
+
+interface CommentsPanelProps {
+  threads: NodeThread[]; // Every thread on the canvas
+  focusNode: Node | null; // Message node new threads are added to - the selected one
+  author: string;
+  onAuthorChange: (author: string) => void;
+  onThreadsChange: (nodeId: string, threads: CommentThread[]) => void;
+  onSelectNode: (nodeId: string) => void; // Select and zoom to the node a thread is on
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+// One thread with its replies and actions
+const ThreadCard: React.FC<{
+  entry: NodeThread;
+  highlighted: boolean;
+  author: string;
+  onThreadsChange: CommentsPanelProps['onThreadsChange'];
+  onSelectNode: CommentsPanelProps['onSelectNode'];
+}> = ({ entry: { node, thread }, highlighted, author, onThreadsChange, onSelectNode }) => {
+  const [reply, setReply] = useState('');
+  const threads = getThreads(node);
+
+  const sendReply = () => {
+    if (!reply.trim()) return;
+    onThreadsChange(node.id, replyToThread(threads, thread.id, author, reply));
+    setReply('');
+  };
+
+  return (
+    <div className={`border rounded-md ${highlighted ? 'border-orange-300' : 'border-gray-200'} ${thread.resolved ? 'opacity-70' : ''}`}>
+      <button
+        onClick={() => onSelectNode(node.id)}
+        className="w-full px-3 py-1.5 text-left text-xs text-gray-500 border-b border-gray-100 hover:bg-gray-50 truncate"
+        title="Show on the canvas"
+      >
+        On {describeNode(node)}
+        {thread.resolved && <span className="ml-2 text-green-700">✓ Resolved</span>}
+      </button>
+
+      <ul className="px-3 py-2 space-y-2">
+        {thread.comments.map(comment => (
+          <li key={comment.id} className="text-sm">
+            <div className="flex items-baseline gap-2">
+              <span className="font-medium text-gray-800">{comment.author}</span>
+              <span className="text-[11px] text-gray-400">{formatTime(comment.createdAt)}</span>
+            </div>
+            <div className="text-gray-700 whitespace-pre-wrap break-words">{comment.text}</div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="px-3 pb-2 space-y-1.5">
+        <textarea
+          value={reply}
+          onChange={(event) => setReply(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) sendReply();
+          }}
+          rows={1}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+          placeholder={thread.resolved ? 'Reply to reopen…' : 'Reply…'}
+          aria-label="Reply"
+        />
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={sendReply}
+            disabled={!reply.trim()}
+            className="px-2 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+          >
+            Reply
+          </button>
+          <button
+            onClick={() => onThreadsChange(node.id, setThreadResolved(threads, thread.id, !thread.resolved))}
+            className="px-2 py-1 rounded-md text-gray-700 hover:bg-gray-100"
+          >
+            {thread.resolved ? 'Reopen' : 'Resolve'}
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Delete this thread and all its replies?')) {
+                onThreadsChange(node.id, deleteThread(threads, thread.id));
+              }
+            }}
+            className="ml-auto px-2 py-1 rounded-md text-red-600 hover:bg-red-50"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * CommentsPanel - Review discussions on the canvas's message nodes
+ *
+ * Purpose: keep design feedback next to the flow instead of in screenshots
+ * Layout: right sidebar with the commenter's name, a composer for the
+ * selected message node and every thread on the canvas, open ones first
+ * Threads: reply (Ctrl+Enter sends), resolve or reopen, delete; clicking a
+ * thread's node name zooms to it. Resolved threads are hidden unless shown
+ */
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  threads,
+  focusNode,
+  author,
+  onAuthorChange,
+  onThreadsChange,
+  onSelectNode,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+  const resolvedCount = threads.filter(entry => entry.thread.resolved).length;
+  const visible = showResolved ? threads : threads.filter(entry => !entry.thread.resolved);
+
+  const addThread = () => {
+    if (!focusNode || !draft.trim()) return;
+    onThreadsChange(focusNode.id, startThread(getThreads(focusNode), author, draft));
+    setDraft('');
+  };
+
+  return (
+    <div className="w-80 bg-white border-l border-gray-200 flex flex-col" role="complementary" aria-label="Comments">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">Comments</h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded-md transition-colors"
+          title="Close"
+          aria-label="Close"
+        >
+          <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Commenter */}
+        <div className="space-y-1">
+          <label className="block text-xs font-medium text-gray-600" htmlFor="comment-author">Your name</label>
+          <input
+            id="comment-author"
+            value={author}
+            onChange={(event) => onAuthorChange(event.target.value)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+            placeholder="Shown on your comments"
+          />
+        </div>
+
+        {/* New thread on the selected message node */}
+        {focusNode ? (
+          <div className="space-y-1.5">
+            <label className="block text-xs font-medium text-gray-600" htmlFor="comment-draft">
+              New comment on {describeNode(focusNode)}
+            </label>
+            <textarea
+              id="comment-draft"
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) addThread();
+              }}
+              rows={3}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+              placeholder="Start a discussion…"
+            />
+            <button
+              onClick={addThread}
+              disabled={!draft.trim()}
+              className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-40"
+            >
+              Comment
+            </button>
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500">Select a message node to comment on it.</div>
+        )}
+
+        {/* Threads */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{threads.length - resolvedCount} open</span>
+            {resolvedCount > 0 && (
+              <button onClick={() => setShowResolved(show => !show)} className="text-blue-600 hover:underline">
+                {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved
+              </button>
+            )}
+          </div>
+          {visible.length === 0 && (
+            <div className="text-sm text-gray-500">{threads.length === 0 ? 'No comments on this canvas yet.' : 'Every thread is resolved.'}</div>
+          )}
+          {visible.map(entry => (
+            <ThreadCard
+              key={entry.thread.id}
+              entry={entry}
+              highlighted={entry.node.id === focusNode?.id}
+              author={author}
+              onThreadsChange={onThreadsChange}
+              onSelectNode={onSelectNode}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommentsPanel;
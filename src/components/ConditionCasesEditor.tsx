@@ -0,0 +1,136 @@
+import React from 'react';
+import { ConditionCase, ConditionOperator } from '../nodes/ConditionNode';
+import { OPERATOR_LABELS, getPatternError } from '../utils/conditions';
+import { RegisteredVariable } from '../utils/variables';
+import { createId } from '../utils/ids';
+
+interface ConditionCasesEditorProps {
+  cases: ConditionCase[];
+  variables: RegisteredVariable[]; // Flow variable registry offered in the picker
+  // field: set for value typing so keystrokes merge into one undo step
+  onChange: (cases: ConditionCase[], field?: string) => void;
+}
+
+/**
+ * ConditionCasesEditor - Settings section for a condition node's branches
+ *
+ * Each case picks a variable, an operator and (except "is empty") a value
+ * Cases are checked top to bottom; the "Otherwise" branch always exists
+ * Case IDs never change, so connections follow a case when it moves
+ */
+const ConditionCasesEditor: React.FC<ConditionCasesEditorProps> = ({ cases, variables, onChange }) => {
+  const update = (id: string, changes: Partial<ConditionCase>, field?: string) => {
+    onChange(cases.map(branch => (branch.id === id ? { ...branch, ...changes } : branch)), field);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= cases.length) return;
+
+    const reordered = [...cases];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]]; // Swap neighbours
+    onChange(reordered);
+  };
+
+  const add = () => {
+    onChange([...cases, { id: createId('case'), variable: variables[0]?.name || '', operator: 'equals', value: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">
+        Cases <span className="font-normal text-gray-500">(first match wins)</span>
+      </label>
+
+      {variables.length === 0 && (
+        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+          Declare flow variables under "Variables" in the top bar, or capture them with a Collect input node, to branch on them.
+        </div>
+      )}
+
+      {cases.map((branch, index) => {
+        const patternError = branch.operator === 'matches' ? getPatternError(branch.value) : null;
+        const isUndeclared = branch.variable && !variables.some(variable => variable.name === branch.variable);
+
+        return (
+          <div key={branch.id} className="border border-gray-200 rounded-md p-2 space-y-1.5">
+            <div className="flex items-center gap-1">
+              <span className="text-xs font-medium text-gray-500 w-8">If</span>
+              <select
+                value={branch.variable}
+                onChange={(event) => update(branch.id, { variable: event.target.value })}
+                className={`flex-1 min-w-0 px-2 py-1 border rounded-md text-sm ${isUndeclared ? 'border-red-400' : 'border-gray-300'}`}
+              >
+                <option value="">Select variable…</option>
+                {isUndeclared && <option value={branch.variable}>{branch.variable} (undeclared)</option>}
+                {variables.map(variable => (
+                  <option key={variable.name} value={variable.name}>{variable.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === cases.length - 1}
+                className="p-1 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onChange(cases.filter(other => other.id !== branch.id))} // Its connection is dropped by the App
+                className="p-1 rounded-md text-red-500 hover:bg-red-50"
+                title="Remove case"
+                aria-label="Remove case"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="flex items-center gap-1 pl-9">
+              <select
+                value={branch.operator}
+                onChange={(event) => update(branch.id, { operator: event.target.value as ConditionOperator })}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {(Object.keys(OPERATOR_LABELS) as ConditionOperator[]).map(operator => (
+                  <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+                ))}
+              </select>
+              {branch.operator !== 'isEmpty' && (
+                <input
+                  value={branch.value}
+                  onChange={(event) => update(branch.id, { value: event.target.value }, `case:${branch.id}`)}
+                  className={`flex-1 min-w-0 px-2 py-1 border rounded-md text-sm ${
+                    branch.operator === 'matches' ? 'font-mono' : ''
+                  } ${patternError ? 'border-red-400' : 'border-gray-300'}`}
+                  placeholder={branch.operator === 'matches' ? '^\\d+$' : 'value'}
+                />
+              )}
+            </div>
+            {patternError && <div className="text-xs text-red-600 pl-9">{patternError}</div>}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={add}
+        className="w-full py-1.5 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+      >
+        + Add case
+      </button>
+
+      <div className="text-xs text-gray-500">
+        When no case matches, the conversation follows the "Otherwise" branch.
+      </div>
+    </div>
+  );
+};
+
+export default ConditionCasesEditor;
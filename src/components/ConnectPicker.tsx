@@ -0,0 +1,157 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Node, Edge, Connection } from 'reactflow';
+import { buildFlowGraph, getOpenHandles, getHandleLabel, isAnnotation } from '../engine/graph';
+import { NODE_TYPE_LABELS } from '../nodes';
+import { describeNode } from '../utils/validation';
+
+interface ConnectPickerProps {
+  source: Node;
+  nodes: Node[];
+  edges: Edge[];
+  onConnect: (connection: Connection) => void;
+  onClose: () => void;
+}
+
+/**
+ * ConnectPicker - Keyboard alternative to dragging a connection between handles
+ *
+ * Output: only handles without a connection are offered, so the one
+ * connection per handle rule holds; nodes with one output skip the choice
+ * Target: a filterable list of the other nodes - type to narrow it down,
+ * ↑/↓ to move, Enter to connect, Escape to cancel
+ */
+const ConnectPicker: React.FC<ConnectPickerProps> = ({ source, nodes, edges, onConnect, onClose }) => {
+  const openHandles = useMemo(() => getOpenHandles(buildFlowGraph(nodes, edges), source.id), [nodes, edges, source.id]);
+  const [handleId, setHandleId] = useState<string | null>(openHandles[0] ?? null);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  // Start in the filter field - or on Close when there is nothing to connect
+  useEffect(() => (inputRef.current ?? closeRef.current)?.focus(), []);
+
+  const candidates = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return nodes
+      .filter(node => node.id !== source.id && !isAnnotation(node)) // Notes cannot be connected
+      .map(node => ({ id: node.id, label: `${NODE_TYPE_LABELS[node.type || ''] || 'Node'} ${describeNode(node)}` }))
+      .filter(candidate => !needle || candidate.label.toLowerCase().includes(needle));
+  }, [nodes, source.id, query]);
+
+  const activeCandidate = candidates[Math.min(activeIndex, candidates.length - 1)];
+
+  const connect = (targetId: string) => {
+    onConnect({ source: source.id, sourceHandle: handleId, target: targetId, targetHandle: null });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+      return;
+    }
+    if (event.target !== inputRef.current) return; // The output select keeps its own arrow keys
+
+    if ((event.key === 'ArrowDown' || event.key === 'ArrowUp') && candidates.length > 0) {
+      event.preventDefault();
+      const offset = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (Math.min(index, candidates.length - 1) + offset + candidates.length) % candidates.length);
+    } else if (event.key === 'Enter' && activeCandidate) {
+      event.preventDefault();
+      connect(activeCandidate.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="connect-picker-title"
+        className="bg-white rounded-lg shadow-xl w-[28rem] max-h-[80vh] flex flex-col"
+        onClick={(event) => event.stopPropagation()} // Keep clicks inside the dialog
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 id="connect-picker-title" className="text-lg font-semibold text-gray-800">
+            Connect {describeNode(source)}
+          </h3>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            title="Close"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {openHandles.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">
+            Every output of this node is already connected. Delete a connection first to change where it leads.
+          </div>
+        ) : (
+          <div className="p-4 space-y-3 overflow-hidden flex flex-col">
+            {/* Output - only nodes that branch have a choice */}
+            {openHandles.length > 1 && (
+              <label className="block text-sm text-gray-700">
+                From
+                <select
+                  value={handleId ?? ''}
+                  onChange={(event) => setHandleId(event.target.value || null)}
+                  className="ml-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {openHandles.map(id => (
+                    <option key={id ?? ''} value={id ?? ''}>{getHandleLabel(source, id) || 'next step'}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {/* Target */}
+            <input
+              ref={inputRef}
+              value={query}
+              onChange={(event) => {
+                setQuery(event.target.value);
+                setActiveIndex(0);
+              }}
+              role="combobox"
+              aria-expanded="true"
+              aria-controls="connect-picker-options"
+              aria-activedescendant={activeCandidate ? `connect-option-${activeCandidate.id}` : undefined}
+              aria-label="Connect to"
+              className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+              placeholder="Type to filter nodes..."
+            />
+            <ul id="connect-picker-options" role="listbox" aria-label="Nodes" className="overflow-y-auto border border-gray-200 rounded-md">
+              {candidates.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No matching nodes</li>}
+              {candidates.map(candidate => (
+                <li
+                  key={candidate.id}
+                  id={`connect-option-${candidate.id}`}
+                  role="option"
+                  aria-selected={candidate === activeCandidate}
+                  onMouseDown={(event) => event.preventDefault()} // Keep focus in the filter field
+                  onClick={() => connect(candidate.id)}
+                  className={`px-3 py-2 text-sm cursor-pointer ${
+                    candidate === activeCandidate ? 'bg-blue-50 text-blue-800' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {candidate.label}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectPicker;
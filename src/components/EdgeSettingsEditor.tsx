@@ -0,0 +1,73 @@
+import React from 'react';
+import { FlowEdgeData, EdgePriority, EDGE_PRIORITY_LABELS } from '../edges/edgeData';
+
+interface EdgeSettingsEditorProps {
+  data: FlowEdgeData;
+  from: string; // Where the connection starts, e.g. "Text: Hello (Yes)"
+  to: string;
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (changes: Partial<FlowEdgeData>, field?: string) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500';
+
+/**
+ * EdgeSettingsEditor - Settings section for a selected connection
+ *
+ * Fields: a label shown on the canvas, a delay before the next message is
+ * sent and a priority; all optional - an empty label, no delay and normal
+ * priority draw the connection as a plain curve
+ */
+const EdgeSettingsEditor: React.FC<EdgeSettingsEditorProps> = ({ data, from, to, onChange }) => (
+  <div className="space-y-4">
+    <div className="text-sm text-gray-600 space-y-0.5">
+      <div><span className="text-gray-400">From</span> {from}</div>
+      <div><span className="text-gray-400">To</span> {to}</div>
+    </div>
+
+    {/* Label */}
+    <div className="space-y-1">
+      <label className="block text-sm font-medium text-gray-700">Label</label>
+      <input
+        value={data.label}
+        onChange={(event) => onChange({ label: event.target.value }, 'label')}
+        className={inputClassName}
+        placeholder="e.g. Wants a refund"
+      />
+    </div>
+
+    {/* Delay - blank or 0 sends the next message straight away */}
+    <div className="space-y-1">
+      <label className="block text-sm font-medium text-gray-700">Delay <span className="font-normal text-gray-500">(ms)</span></label>
+      <input
+        type="number"
+        min={0}
+        step={100}
+        value={data.delayMs ?? ''}
+        onChange={(event) => {
+          const delayMs = Number(event.target.value);
+          onChange({ delayMs: delayMs > 0 ? delayMs : undefined }, 'delayMs');
+        }}
+        className={inputClassName}
+        placeholder="None"
+      />
+    </div>
+
+    {/* Priority */}
+    <div className="space-y-1">
+      <label className="block text-sm font-medium text-gray-700">Priority</label>
+      <select
+        value={data.priority ?? ''}
+        onChange={(event) => onChange({ priority: (event.target.value || undefined) as EdgePriority | undefined })}
+        className={inputClassName}
+      >
+        <option value="">Normal</option>
+        {(Object.keys(EDGE_PRIORITY_LABELS) as EdgePriority[]).map(priority => (
+          <option key={priority} value={priority}>{EDGE_PRIORITY_LABELS[priority]}</option>
+        ))}
+      </select>
+    </div>
+  </div>
+);
+
+export default EdgeSettingsEditor;
@@ -0,0 +1,77 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+export type ExportFormat = 'json' | 'mermaid' | 'dot' | 'script' | 'png' | 'svg';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'json', label: 'Flow file', hint: '.json - re-importable' },
+  { format: 'mermaid', label: 'Mermaid flowchart', hint: '.mmd' },
+  { format: 'dot', label: 'Graphviz DOT', hint: '.dot' },
+  { format: 'script', label: 'Conversation script', hint: '.md' },
+  { format: 'png', label: 'Canvas as PNG', hint: 'current view' },
+  { format: 'svg', label: 'Canvas as SVG', hint: 'current view' },
+];
+
+/**
+ * ExportMenu - Toolbar dropdown listing every export format
+ *
+ * Formats: the re-importable flow file, diagrams and a script for reviewers
+ * who do not use the editor, and images of the canvas view
+ * Closing: picking a format, clicking elsewhere or Escape
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(isOpen => !isOpen)}
+        className={`px-4 py-2 rounded-md transition-colors font-medium ${open ? 'bg-gray-100 text-gray-900' : 'text-gray-700 hover:bg-gray-100'}`}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        Export ▾
+      </button>
+      {open && (
+        <div role="menu" className="absolute right-0 mt-1 w-60 py-1 bg-white border border-gray-200 rounded-md shadow-lg z-20">
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => {
+                setOpen(false);
+                onExport(option.format);
+              }}
+              className="w-full px-3 py-2 flex items-center justify-between gap-2 text-left text-sm text-gray-800 hover:bg-gray-50"
+            >
+              {option.label}
+              <span className="text-xs text-gray-400">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
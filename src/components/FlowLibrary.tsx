@@ -0,0 +1,176 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { toast } from 'react-toastify';
+import {
+  FlowSummary,
+  listFlows,
+  renameFlow,
+  duplicateFlow,
+  deleteFlow,
+} from '../utils/storage';
+
+interface FlowLibraryProps {
+  currentFlowId: string | null;
+  onOpenFlow: (id: string) => void;
+  onFlowRenamed: (id: string, name: string) => void;
+  onFlowDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * FlowLibrary - Modal listing every flow saved in the browser
+ *
+ * Actions: open, rename (inline), duplicate and delete saved flows
+ * State: re-reads storage after each action so the list never goes stale
+ * The App is notified when the currently open flow is renamed or deleted
+ */
+const FlowLibrary: React.FC<FlowLibraryProps> = ({
+  currentFlowId,
+  onOpenFlow,
+  onFlowRenamed,
+  onFlowDeleted,
+  onClose,
+}) => {
+  const [flows, setFlows] = useState<FlowSummary[]>(() => listFlows());
+  const [editingId, setEditingId] = useState<string | null>(null); // Flow being renamed
+  const [draftName, setDraftName] = useState('');
+  const renameClosed = useRef(false); // Set once Enter or Escape ends a rename, so the input's blur does nothing more
+
+  const refresh = useCallback(() => setFlows(listFlows()), []);
+
+  const startRename = (flow: FlowSummary) => {
+    renameClosed.current = false;
+    setEditingId(flow.id);
+    setDraftName(flow.name);
+  };
+
+  const commitRename = () => {
+    if (!editingId || renameClosed.current) return;
+    renameClosed.current = true;
+
+    try {
+      const renamed = renameFlow(editingId, draftName);
+      if (renamed) {
+        onFlowRenamed(renamed.id, renamed.name);
+      } else {
+        toast.error('That flow no longer exists');
+      }
+    } catch {
+      toast.error('Could not rename flow: browser storage is full');
+    }
+    setEditingId(null);
+    refresh();
+  };
+
+  const cancelRename = () => {
+    renameClosed.current = true;
+    setEditingId(null);
+  };
+
+  const handleDuplicate = (id: string) => {
+    try {
+      const copy = duplicateFlow(id);
+      if (copy) toast.success(`Created "${copy.name}"`);
+    } catch {
+      toast.error('Could not duplicate flow: browser storage is full');
+    }
+    refresh();
+  };
+
+  const handleDelete = (flow: FlowSummary) => {
+    if (!window.confirm(`Delete "${flow.name}"? This cannot be undone.`)) return;
+
+    try {
+      deleteFlow(flow.id);
+      onFlowDeleted(flow.id);
+    } catch {
+      toast.error('Could not delete flow: browser storage is unavailable');
+    }
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Flow library"
+        className="bg-white rounded-lg shadow-xl w-[32rem] max-h-[80vh] flex flex-col"
+        onClick={(event) => event.stopPropagation()} // Keep clicks inside the dialog
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-800">Flow Library</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            title="Close"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Saved flows */}
+        <div className="overflow-y-auto p-4 space-y-2">
+          {flows.length === 0 && (
+            <div className="text-sm text-gray-500">
+              No saved flows yet. Use "Save Changes" to add the current flow to the library.
+            </div>
+          )}
+
+          {flows.map(flow => (
+            <div
+              key={flow.id}
+              className={`border rounded-md p-3 flex items-center gap-3 ${
+                flow.id === currentFlowId ? 'border-blue-400 bg-blue-50' : 'border-gray-200' // Highlight open flow
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                {editingId === flow.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(event) => setDraftName(event.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') commitRename();
+                      if (event.key === 'Escape') cancelRename();
+                    }}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+                  />
+                ) : (
+                  <div className="text-sm font-medium text-gray-800 truncate">{flow.name}</div>
+                )}
+                <div className="text-xs text-gray-500">
+                  {flow.nodeCount} node{flow.nodeCount === 1 ? '' : 's'} · updated {new Date(flow.updatedAt).toLocaleString()}
+                </div>
+              </div>
+
+              <div className="flex gap-1 text-xs">
+                <button
+                  onClick={() => onOpenFlow(flow.id)}
+                  className="px-2 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  Open
+                </button>
+                <button onClick={() => startRename(flow)} className="px-2 py-1 rounded-md hover:bg-gray-100 text-gray-700">
+                  Rename
+                </button>
+                <button onClick={() => handleDuplicate(flow.id)} className="px-2 py-1 rounded-md hover:bg-gray-100 text-gray-700">
+                  Duplicate
+                </button>
+                <button onClick={() => handleDelete(flow)} className="px-2 py-1 rounded-md hover:bg-red-50 text-red-600">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlowLibrary;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { GroupNodeData } from '../nodes/GroupNode';
+
+interface GroupSettingsEditorProps {
+  data: GroupNodeData;
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (changes: Partial<GroupNodeData>, field?: string) => void;
+  onOpen: () => void; // Edit the nested flow in its own view
+  onSaveToPalette: () => void;
+}
+
+/**
+ * GroupSettingsEditor - Settings section for a sub-flow (group) node
+ *
+ * Fields: the sub-flow name shown on the canvas
+ * Actions: open the nested flow for editing, or save a copy to the palette
+ * so it can be dropped into any flow
+ */
+const GroupSettingsEditor: React.FC<GroupSettingsEditorProps> = ({ data, onChange, onOpen, onSaveToPalette }) => {
+  const stepCount = data.flow?.nodes.length || 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Name */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Name</label>
+        <input
+          value={data.name}
+          onChange={(event) => onChange({ name: event.target.value }, 'name')}
+          className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+          placeholder="Greeting"
+        />
+      </div>
+
+      <div className="text-sm text-gray-600">
+        {stepCount} step{stepCount === 1 ? '' : 's'}. Steps that end without a connection continue through the group's exit.
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <button
+          onClick={onOpen}
+          className="flex-1 py-1.5 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700"
+        >
+          Open
+        </button>
+        <button
+          onClick={onSaveToPalette}
+          className="flex-1 py-1.5 rounded-md border border-gray-300 text-gray-700 text-sm hover:bg-gray-50"
+        >
+          Save to palette
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GroupSettingsEditor;
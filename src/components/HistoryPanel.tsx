@@ -0,0 +1,223 @@
+import React from 'react';
+import { RevisionSummary } from '../utils/storage';
+import { FlowDiff, NodeDiff, isEmptyDiff } from '../utils/diff';
+
+// Pseudo revision id for the unsaved canvas
+export const CURRENT_REVISION = 'current';
+
+export interface RevisionComparison {
+  baseId: string; // Older side - revision id or CURRENT_REVISION
+  targetId: string; // Newer side
+}
+
+interface HistoryPanelProps {
+  flowId: string | null; // Unsaved flows have no history yet
+  revisions: RevisionSummary[]; // Newest first
+  comparison: RevisionComparison | null;
+  diff: FlowDiff | null; // Diff of the current comparison
+  onComparisonChange: (comparison: RevisionComparison | null) => void;
+  onRestore: (revisionId: string) => void;
+  onFocusNode: (nodeId: string) => void; // Zoom the overlay to a changed node
+  onClose: () => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+// Badge text describing what happened to a node
+const describeNodeChange = (entry: NodeDiff) => {
+  if (entry.status === 'added') return 'Added';
+  if (entry.status === 'removed') return 'Removed';
+  return [entry.textChanged && 'Text changed', entry.settingsChanged && 'Settings changed', entry.moved && 'Moved']
+    .filter(Boolean)
+    .join(', ');
+};
+
+const NODE_BADGE_CLASSES: Record<string, string> = {
+  added: 'bg-green-500',
+  removed: 'bg-red-500',
+  modified: 'bg-amber-400',
+  moved: 'bg-sky-400',
+};
+
+/**
+ * HistoryPanel - Revision history of the open flow
+ *
+ * Purpose: find out what changed when a flow breaks, and roll back
+ * Revisions: one per successful save (identical saves are skipped), newest first
+ * Compare: pick two revisions (or the current canvas) - the canvas switches
+ * to a read-only overlay: added nodes ringed green, removed red, changed
+ * amber, moved blue with a faint copy at the old position; added connections
+ * are green, removed ones red and dashed; every change is also listed here
+ * Restore: loads a revision onto the canvas as an undoable edit - it is only
+ * persisted by the next save
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  flowId,
+  revisions,
+  comparison,
+  diff,
+  onComparisonChange,
+  onRestore,
+  onFocusNode,
+  onClose,
+}) => {
+  const changedNodes = diff ? diff.nodes.filter(entry => entry.status !== 'unchanged') : [];
+
+  // Options for both sides of a comparison
+  const revisionOptions = [
+    { id: CURRENT_REVISION, label: 'Current canvas' },
+    ...revisions.map(revision => ({ id: revision.id, label: formatTime(revision.savedAt) })),
+  ];
+
+  return (
+    <div className="w-80 bg-white border-l border-gray-200 flex flex-col">
+      {/* Header */}
+      <div className="px-4 py-2 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">History</h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded-md transition-colors"
+          title="Close"
+          aria-label="Close"
+        >
+          <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!flowId && (
+          <div className="p-4 text-sm text-gray-500">Save the flow to start its history.</div>
+        )}
+        {flowId && revisions.length === 0 && (
+          <div className="p-4 text-sm text-gray-500">No revisions yet - one is kept every time you save.</div>
+        )}
+
+        {/* Comparison */}
+        {comparison && (
+          <div className="p-4 border-b border-gray-200 space-y-3">
+            <div className="grid grid-cols-[auto_1fr] items-center gap-2 text-sm">
+              <label className="text-gray-600">From</label>
+              <select
+                value={comparison.baseId}
+                onChange={(event) => onComparisonChange({ ...comparison, baseId: event.target.value })}
+                className="min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {revisionOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+              <label className="text-gray-600">To</label>
+              <select
+                value={comparison.targetId}
+                onChange={(event) => onComparisonChange({ ...comparison, targetId: event.target.value })}
+                className="min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {revisionOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600">
+              {Object.entries(NODE_BADGE_CLASSES).map(([status, className]) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className={`w-2 h-2 rounded-full ${className}`} />
+                  {status[0].toUpperCase() + status.slice(1)}
+                </span>
+              ))}
+            </div>
+
+            {diff && isEmptyDiff(diff) && (
+              <div className="text-sm text-gray-500">No differences.</div>
+            )}
+
+            {/* Node changes */}
+            {changedNodes.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">Nodes</div>
+                {changedNodes.map(entry => {
+                  const contentChanged = entry.textChanged || entry.settingsChanged;
+                  const badge = entry.status === 'modified' && !contentChanged ? 'moved' : entry.status;
+                  return (
+                    <button
+                      key={entry.id}
+                      onClick={() => onFocusNode(entry.id)}
+                      className="w-full px-2 py-1 flex items-start gap-2 text-left rounded-md hover:bg-gray-50"
+                    >
+                      <span className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${NODE_BADGE_CLASSES[badge]}`} />
+                      <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">{entry.label}</span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">{describeNodeChange(entry)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Connection changes */}
+            {diff && diff.edges.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">Connections</div>
+                {diff.edges.map(entry => (
+                  <div key={`${entry.status}:${entry.key}`} className="px-2 text-sm text-gray-800">
+                    <span className={entry.status === 'added' ? 'text-green-600' : 'text-red-600'}>
+                      {entry.status === 'added' ? '+ ' : '− '}
+                    </span>
+                    {entry.description}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Variable changes */}
+            {diff && diff.variables.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">Variables</div>
+                {diff.variables.map(entry => (
+                  <div key={entry.name} className="px-2 text-sm text-gray-800">
+                    <span className="font-mono">{entry.name}</span>
+                    <span className="text-xs text-gray-500"> {entry.status}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={() => onComparisonChange(null)}
+              className="w-full py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Stop comparing
+            </button>
+          </div>
+        )}
+
+        {/* Revision list */}
+        {revisions.map((revision, index) => (
+          <div key={revision.id} className="px-4 py-2 border-b border-gray-100 flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-gray-800">{formatTime(revision.savedAt)}</div>
+              <div className="text-xs text-gray-500 truncate">
+                {revision.name} · {revision.nodeCount} node{revision.nodeCount === 1 ? '' : 's'}
+                {index === 0 && ' · latest'}
+              </div>
+            </div>
+            <button
+              onClick={() => onComparisonChange({ baseId: revision.id, targetId: CURRENT_REVISION })}
+              className="px-2 py-1 text-xs text-blue-600 rounded-md hover:bg-blue-50"
+              title="Compare with the current canvas"
+            >
+              Compare
+            </button>
+            <button
+              onClick={() => onRestore(revision.id)}
+              className="px-2 py-1 text-xs text-gray-600 rounded-md hover:bg-gray-100"
+              title="Load this revision onto the canvas"
+            >
+              Restore
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
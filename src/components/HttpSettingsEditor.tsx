@@ -0,0 +1,232 @@
+import React from 'react';
+import { HttpNodeData, HttpMethod, HttpHeader, ResponseMapping, MockResponse } from '../nodes/HttpNode';
+import { HTTP_METHODS } from '../utils/http';
+import { RegisteredVariable, isValidVariableName } from '../utils/variables';
+import { createId } from '../utils/ids';
+import TemplateTextarea from './TemplateTextarea';
+
+interface HttpSettingsEditorProps {
+  data: HttpNodeData;
+  registry: RegisteredVariable[]; // Offered in templates and as mapping targets
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (changes: Partial<HttpNodeData>, field?: string) => void;
+}
+
+const inputClassName = 'w-full min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500';
+
+/**
+ * HttpSettingsEditor - Settings section for an HTTP request node
+ *
+ * Fields: method, URL, headers and body (all accepting {{variables}}),
+ * timeout, response mappings (JSON path -> variable) and mock responses
+ * Test mode: the selected mock answers instead of the network, so flows can
+ * be previewed offline
+ */
+const HttpSettingsEditor: React.FC<HttpSettingsEditorProps> = ({ data, registry, onChange }) => {
+  const variableNames = registry.map(variable => variable.name);
+  const headers = data.headers || [];
+  const mappings = data.mappings || [];
+  const mocks = data.mocks || [];
+
+  const updateHeader = (id: string, changes: Partial<HttpHeader>) => {
+    onChange({ headers: headers.map(header => (header.id === id ? { ...header, ...changes } : header)) }, `header:${id}`);
+  };
+
+  const updateMapping = (id: string, changes: Partial<ResponseMapping>) => {
+    onChange({ mappings: mappings.map(mapping => (mapping.id === id ? { ...mapping, ...changes } : mapping)) }, `mapping:${id}`);
+  };
+
+  const updateMock = (id: string, changes: Partial<MockResponse>) => {
+    onChange({ mocks: mocks.map(mock => (mock.id === id ? { ...mock, ...changes } : mock)) }, `mock:${id}`);
+  };
+
+  const addMock = () => {
+    const mock = { id: createId('mock'), name: `Response ${mocks.length + 1}`, status: 200, body: '{}' };
+    onChange({ mocks: [...mocks, mock], activeMockId: data.activeMockId || mock.id });
+  };
+
+  const removeMock = (id: string) => {
+    const remaining = mocks.filter(mock => mock.id !== id);
+    onChange({ mocks: remaining, activeMockId: data.activeMockId === id ? remaining[0]?.id ?? '' : data.activeMockId });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Method and URL */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Request</label>
+        <select
+          value={data.method}
+          onChange={(event) => onChange({ method: event.target.value as HttpMethod })}
+          className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm font-mono"
+        >
+          {HTTP_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+        </select>
+        <TemplateTextarea
+          value={data.url}
+          onChange={(url) => onChange({ url }, 'url')}
+          variableNames={variableNames}
+          rows={2}
+          placeholder="https://api.example.com/orders/{{orderId}}"
+        />
+      </div>
+
+      {/* Headers */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Headers</label>
+        {headers.map(header => (
+          <div key={header.id} className="flex items-center gap-1">
+            <input
+              value={header.name}
+              onChange={(event) => updateHeader(header.id, { name: event.target.value })}
+              className={`${inputClassName} font-mono`}
+              placeholder="Authorization"
+            />
+            <input
+              value={header.value}
+              onChange={(event) => updateHeader(header.id, { value: event.target.value })}
+              className={inputClassName}
+              placeholder="Bearer {{token}}"
+            />
+            <button
+              onClick={() => onChange({ headers: headers.filter(candidate => candidate.id !== header.id) })}
+              className="p-1 rounded-md text-red-500 hover:bg-red-50"
+              title="Remove header"
+              aria-label="Remove header"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ headers: [...headers, { id: createId('header'), name: '', value: '' }] })}
+          className="w-full py-1.5 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+        >
+          + Add header
+        </button>
+      </div>
+
+      {/* Body - not sent with GET */}
+      {data.method !== 'GET' && (
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700">Body</label>
+          <TemplateTextarea
+            value={data.body}
+            onChange={(body) => onChange({ body }, 'body')}
+            variableNames={variableNames}
+            rows={4}
+            placeholder={'{ "email": "{{email}}" }'}
+          />
+        </div>
+      )}
+
+      {/* Timeout */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Timeout <span className="font-normal text-gray-500">(ms)</span></label>
+        <input
+          type="number"
+          min={1}
+          value={data.timeoutMs}
+          onChange={(event) => onChange({ timeoutMs: Number(event.target.value) }, 'timeoutMs')}
+          className={inputClassName}
+        />
+      </div>
+
+      {/* Response mapping */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Save from response</label>
+        {mappings.map(mapping => (
+          <div key={mapping.id} className="flex items-center gap-1">
+            <input
+              value={mapping.path}
+              onChange={(event) => updateMapping(mapping.id, { path: event.target.value })}
+              className={`${inputClassName} font-mono`}
+              placeholder="order.status"
+            />
+            <span className="text-gray-400 text-sm">→</span>
+            <input
+              value={mapping.variable}
+              onChange={(event) => updateMapping(mapping.id, { variable: event.target.value })}
+              list="http-variable-names"
+              className={`${inputClassName} font-mono ${mapping.variable && !isValidVariableName(mapping.variable) ? '!border-red-400' : ''}`}
+              placeholder="orderStatus"
+            />
+            <button
+              onClick={() => onChange({ mappings: mappings.filter(candidate => candidate.id !== mapping.id) })}
+              className="p-1 rounded-md text-red-500 hover:bg-red-50"
+              title="Remove mapping"
+              aria-label="Remove mapping"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <datalist id="http-variable-names">
+          {variableNames.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <button
+          onClick={() => onChange({ mappings: [...mappings, { id: createId('map'), path: '', variable: '' }] })}
+          className="w-full py-1.5 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+        >
+          + Add mapping
+        </button>
+        <div className="text-xs text-gray-500">JSON paths like <span className="font-mono">items[0].name</span>. Applied to successful (2xx) responses.</div>
+      </div>
+
+      {/* Mock responses */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Mock responses</label>
+        {mocks.map(mock => (
+          <div key={mock.id} className="p-2 border border-gray-200 rounded-md space-y-1">
+            <div className="flex items-center gap-1">
+              <input
+                type="radio"
+                name="active-mock"
+                checked={(data.activeMockId || mocks[0]?.id) === mock.id}
+                onChange={() => onChange({ activeMockId: mock.id })}
+                title="Use in test mode"
+              />
+              <input
+                value={mock.name}
+                onChange={(event) => updateMock(mock.id, { name: event.target.value })}
+                className={inputClassName}
+                placeholder="Order found"
+              />
+              <input
+                type="number"
+                value={mock.status}
+                onChange={(event) => updateMock(mock.id, { status: Number(event.target.value) })}
+                className="w-16 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                title="Status code"
+              />
+              <button
+                onClick={() => removeMock(mock.id)}
+                className="p-1 rounded-md text-red-500 hover:bg-red-50"
+                title="Remove mock"
+                aria-label="Remove mock"
+              >
+                ✕
+              </button>
+            </div>
+            <textarea
+              value={mock.body}
+              onChange={(event) => updateMock(mock.id, { body: event.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-md text-xs font-mono resize-none focus:ring-2 focus:ring-blue-500"
+              rows={3}
+              placeholder='{ "status": "shipped" }'
+            />
+          </div>
+        ))}
+        <button
+          onClick={addMock}
+          className="w-full py-1.5 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+        >
+          + Add mock response
+        </button>
+        <div className="text-xs text-gray-500">The selected mock answers the request when the preview runs in test mode.</div>
+      </div>
+    </div>
+  );
+};
+
+export default HttpSettingsEditor;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { InputNodeData } from '../nodes/InputNode';
+import { INPUT_TYPE_LABELS, InputType } from '../utils/answers';
+import { RegisteredVariable, isValidVariableName } from '../utils/variables';
+import { WithTranslations, moveChoiceTranslations } from '../utils/translations';
+
+interface InputSettingsEditorProps {
+  data: WithTranslations<InputNodeData>;
+  registry: RegisteredVariable[]; // Existing variables suggested for the target name
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (changes: Partial<WithTranslations<InputNodeData>>, field?: string) => void;
+}
+
+/**
+ * InputSettingsEditor - Settings section for a collect-input node
+ *
+ * Fields: target variable (new names join the flow's variable registry),
+ * input type, allowed choices and the message sent on an invalid answer.
+ * Translated choices move with their option when the list is edited
+ */
+const InputSettingsEditor: React.FC<InputSettingsEditorProps> = ({ data, registry, onChange }) => {
+  const choices = data.choices || [];
+  const variableError = data.variable && !isValidVariableName(data.variable)
+    ? 'Use letters, digits and _ (not starting with a digit)'
+    : null;
+
+  return (
+    <div className="space-y-4 mt-6">
+      {/* Target variable */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Save answer to variable</label>
+        <input
+          value={data.variable}
+          onChange={(event) => onChange({ variable: event.target.value }, 'variable')}
+          list="flow-variable-names"
+          className={`w-full px-2 py-1.5 border rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 ${
+            variableError ? 'border-red-400' : 'border-gray-300'
+          }`}
+          placeholder="email"
+        />
+        <datalist id="flow-variable-names">
+          {registry.map(variable => <option key={variable.name} value={variable.name} />)}
+        </datalist>
+        {variableError && <div className="text-xs text-red-600">{variableError}</div>}
+      </div>
+
+      {/* Input type */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Expected answer</label>
+        <select
+          value={data.inputType}
+          onChange={(event) => onChange({ inputType: event.target.value as InputType })}
+          className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+        >
+          {(Object.keys(INPUT_TYPE_LABELS) as InputType[]).map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Choices - one per line */}
+      {data.inputType === 'choice' && (
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700">Choices <span className="font-normal text-gray-500">(one per line)</span></label>
+          <textarea
+            value={choices.join('\n')}
+            onChange={(event) => {
+              const next = event.target.value.split('\n');
+              onChange({
+                choices: next,
+                ...(data.translations && { translations: moveChoiceTranslations(data.translations, choices, next) }),
+              }, 'choices');
+            }}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm resize-none focus:ring-2 focus:ring-blue-500"
+            rows={4}
+            placeholder={'Small\nMedium\nLarge'}
+          />
+        </div>
+      )}
+
+      {/* Retry message */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Invalid answer message</label>
+        <input
+          value={data.errorMessage}
+          onChange={(event) => onChange({ errorMessage: event.target.value }, 'errorMessage')}
+          className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+          placeholder="Sorry, that doesn't look right - please try again."
+        />
+        <div className="text-xs text-gray-500">Sent before asking the question again.</div>
+      </div>
+    </div>
+  );
+};
+
+export default InputSettingsEditor;
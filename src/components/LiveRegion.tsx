@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface LiveRegionProps {
+  message: string;
+}
+
+/**
+ * LiveRegion - Visually hidden status line read out by screen readers
+ *
+ * Purpose: announces feedback that is otherwise only visible - toasts,
+ * keyboard navigation dead ends, new nodes and connections
+ * Politeness: "polite" waits for the reader to finish what it is saying,
+ * so announcements never cut off the label of a newly focused node
+ */
+const LiveRegion: React.FC<LiveRegionProps> = ({ message }) => (
+  <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+    {message}
+  </div>
+);
+
+export default LiveRegion;
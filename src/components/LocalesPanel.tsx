@@ -0,0 +1,178 @@
+import React, { useState, useRef } from 'react';
+import { LocaleSettings, describeLocale, isValidLocale } from '../utils/translations';
+
+interface LocalesPanelProps {
+  settings: LocaleSettings;
+  onChange: (settings: LocaleSettings) => void;
+  onExportCsv: () => void;
+  onExportXliff: (locale: string) => void;
+  onImport: (file: File) => void; // CSV or XLIFF, told apart by content
+  onClose: () => void;
+}
+
+/**
+ * LocalesPanel - Modal for the flow's languages and translation files
+ *
+ * Languages: the default language is the one node fields are written in -
+ * changing it relabels the flow, it does not translate anything. Removing a
+ * language keeps its translations in the nodes, so adding it back restores them
+ * Files: CSV holds every language in one sheet; XLIFF holds one target language
+ */
+const LocalesPanel: React.FC<LocalesPanelProps> = ({ settings, onChange, onExportCsv, onExportXliff, onImport, onClose }) => {
+  const [code, setCode] = useState('');
+  const [xliffLocale, setXliffLocale] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const translated = settings.locales.filter(locale => locale !== settings.defaultLocale);
+  const candidate = code.trim();
+  const codeError = !candidate
+    ? null
+    : !isValidLocale(candidate)
+      ? 'Use a code like "es" or "pt-BR"'
+      : settings.locales.includes(candidate) ? 'Already added' : null;
+
+  const add = () => {
+    if (!candidate || codeError) return;
+    onChange({ ...settings, locales: [...settings.locales, candidate] });
+    setCode('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Languages"
+        className="bg-white rounded-lg shadow-xl w-[32rem] max-h-[80vh] flex flex-col"
+        onClick={(event) => event.stopPropagation()} // Keep clicks inside the dialog
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-800">Languages</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            title="Close"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4">
+          {/* Language list */}
+          <div className="space-y-1">
+            {settings.locales.map(locale => (
+              <div key={locale} className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="default-locale"
+                  checked={locale === settings.defaultLocale}
+                  onChange={() => onChange({ ...settings, defaultLocale: locale })}
+                  title="Default language - the one node fields are written in"
+                />
+                <span className="flex-1 text-gray-800">{describeLocale(locale)}</span>
+                {locale === settings.defaultLocale ? (
+                  <span className="text-xs text-gray-500">default</span>
+                ) : (
+                  <button
+                    onClick={() => onChange({ ...settings, locales: settings.locales.filter(other => other !== locale) })}
+                    className="p-1 rounded-md text-red-500 hover:bg-red-50"
+                    title="Remove language"
+                    aria-label="Remove language"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Add a language */}
+          <div>
+            <div className="flex items-center gap-2">
+              <input
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                onKeyDown={(event) => event.key === 'Enter' && add()}
+                className={`flex-1 px-2 py-1.5 border rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 ${
+                  codeError ? 'border-red-400' : 'border-gray-300'
+                }`}
+                placeholder="Language code, e.g. es"
+              />
+              <button
+                onClick={add}
+                disabled={!candidate || !!codeError}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-40"
+              >
+                Add
+              </button>
+            </div>
+            {codeError && <div className="text-xs text-red-600 mt-0.5">{codeError}</div>}
+            {candidate && !codeError && <div className="text-xs text-gray-500 mt-0.5">{describeLocale(candidate)}</div>}
+          </div>
+
+          {/* Translation files */}
+          <div className="pt-2 border-t border-gray-200 space-y-2">
+            <div className="text-sm font-medium text-gray-700">Translation files</div>
+            {translated.length === 0 && (
+              <div className="text-sm text-gray-500">Add a second language to export strings for translators.</div>
+            )}
+            {translated.length > 0 && (
+              <>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={onExportCsv}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Export CSV
+                  </button>
+                  <span className="text-xs text-gray-500">All languages in one sheet</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onExportXliff(xliffLocale || translated[0])}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Export XLIFF
+                  </button>
+                  <select
+                    value={xliffLocale || translated[0]}
+                    onChange={(event) => setXliffLocale(event.target.value)}
+                    className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                  >
+                    {translated.map(locale => <option key={locale} value={locale}>{describeLocale(locale)}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Import translations
+                  </button>
+                  <span className="text-xs text-gray-500">CSV or XLIFF, as exported here</span>
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlf,.xliff,.xml,text/csv,application/xml"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = ''; // Allow re-importing the same file
+                    if (file) onImport(file);
+                  }}
+                  className="hidden"
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocalesPanel;
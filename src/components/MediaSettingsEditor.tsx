@@ -0,0 +1,166 @@
+import React, { useState, useRef } from 'react';
+import { MediaKind, MediaNodeData } from '../nodes/MediaNode';
+import { MEDIA_KIND_LABELS, MEDIA_RULES, createLinkedAsset, createLocalAsset, formatFileSize, getMediaFileError } from '../utils/media';
+import ReplyButtonsEditor from './ReplyButtonsEditor';
+import TemplateTextarea from './TemplateTextarea';
+
+interface MediaSettingsEditorProps {
+  data: MediaNodeData;
+  variableNames: string[]; // Suggested in the caption, title and subtitle
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (changes: Partial<MediaNodeData>, field?: string) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500';
+
+/**
+ * MediaSettingsEditor - Settings section for a media node
+ *
+ * Fields: the variant, the file - picked from disk or linked by URL - and
+ * a caption; cards get a title, subtitle and reply buttons instead
+ * Files: a picked file is checked against the variant's types and size limit
+ * before it is used, and previews locally until its hosted URL is filled in
+ */
+const MediaSettingsEditor: React.FC<MediaSettingsEditorProps> = ({ data, variableNames, onChange }) => {
+  const [rejection, setRejection] = useState<string | null>(null); // Why the last picked file was refused
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const asset = data.asset;
+  const assetError = asset ? getMediaFileError(data.kind, asset) : null;
+
+  const pickFile = (file: File | undefined) => {
+    if (!file) return;
+    const error = getMediaFileError(data.kind, { mimeType: file.type, size: file.size });
+    setRejection(error ? `${file.name}: ${error}` : null);
+    if (!error) onChange({ asset: createLocalAsset(file) });
+  };
+
+  // A picked file keeps its name, type and size - the URL only says where it is hosted
+  // A linked file is described by its URL, so the reference follows every edit
+  const changeUrl = (url: string) => {
+    if (asset && asset.size > 0) {
+      onChange({ asset: { ...asset, url: url.trim() } }, 'url');
+    } else if (!url.trim()) {
+      onChange({ asset: null }, 'url');
+    } else {
+      const linked = createLinkedAsset(url.trim());
+      onChange({ asset: asset ? { ...linked, id: asset.id } : linked }, 'url');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Variant */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Send</label>
+        <select
+          value={data.kind}
+          onChange={(event) => {
+            setRejection(null);
+            onChange({ kind: event.target.value as MediaKind });
+          }}
+          className={inputClassName}
+        >
+          {(Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).map(kind => (
+            <option key={kind} value={kind}>{MEDIA_KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* File */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">{data.kind === 'card' ? 'Card image' : 'File'}</label>
+        {asset && (
+          <div className="flex items-center gap-2 text-sm">
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-gray-800">{asset.fileName}</div>
+              <div className="text-xs text-gray-500">
+                {[asset.mimeType || 'Unknown type', asset.size > 0 ? formatFileSize(asset.size) : null].filter(Boolean).join(' · ')}
+              </div>
+            </div>
+            <button
+              onClick={() => onChange({ asset: null })}
+              className="p-1 rounded-md text-red-500 hover:bg-red-50"
+              title="Remove file"
+              aria-label="Remove file"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={MEDIA_RULES[data.kind].mimeTypes.join(',')}
+          className="hidden"
+          onChange={(event) => {
+            pickFile(event.target.files?.[0]);
+            event.target.value = ''; // Picking the same file again still fires
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full py-1.5 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+        >
+          {asset ? 'Replace file…' : 'Choose file…'}
+        </button>
+        <div className="text-xs text-gray-500">
+          Up to {formatFileSize(MEDIA_RULES[data.kind].maxBytes)}
+        </div>
+        {(rejection || assetError) && <div className="text-xs text-red-600">{rejection || assetError}</div>}
+      </div>
+
+      {/* Hosted URL */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">URL</label>
+        <input
+          value={asset?.url ?? ''}
+          onChange={(event) => changeUrl(event.target.value)}
+          className={inputClassName}
+          placeholder="https://cdn.example.com/catalog.pdf"
+        />
+        {asset && !asset.url && (
+          <div className="text-xs text-amber-700">Upload this file and paste its URL - the bot sends files from their URL.</div>
+        )}
+      </div>
+
+      {data.kind === 'card' ? (
+        <>
+          {/* Card text */}
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">Title</label>
+            <input
+              value={data.title}
+              onChange={(event) => onChange({ title: event.target.value }, 'title')}
+              className={inputClassName}
+              placeholder="Running shoes"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">Subtitle</label>
+            <input
+              value={data.subtitle}
+              onChange={(event) => onChange({ subtitle: event.target.value }, 'subtitle')}
+              className={inputClassName}
+              placeholder="From $79"
+            />
+          </div>
+          <ReplyButtonsEditor buttons={data.buttons || []} onChange={(buttons, field) => onChange({ buttons }, field)} />
+        </>
+      ) : (
+        /* Caption */
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700">Caption</label>
+          <TemplateTextarea
+            value={data.text}
+            onChange={(text) => onChange({ text }, 'text')}
+            variableNames={variableNames}
+            rows={3}
+            placeholder="Optional caption..."
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaSettingsEditor;
@@ -0,0 +1,148 @@
+import React from 'react';
+import { BusinessHours, TextNodeData } from '../nodes/TextNode';
+import {
+  WEEK_ORDER,
+  WEEKDAY_LABELS,
+  createBusinessHours,
+  getBusinessHoursError,
+} from '../utils/schedule';
+
+interface MessageTimingEditorProps {
+  data: TextNodeData;
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (changes: Partial<TextNodeData>, field?: string) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500';
+
+/**
+ * MessageTimingEditor - Settings section for when a message node sends
+ *
+ * Fields: a delay before sending and a typing indicator duration, both
+ * optional; and business hours - open days, opening and closing times and a
+ * time zone. Turning business hours on adds the node's "Outside hours"
+ * handle, turning them off removes it along with its connection
+ */
+const MessageTimingEditor: React.FC<MessageTimingEditorProps> = ({ data, onChange }) => {
+  const hours = data.businessHours;
+  const hoursError = hours ? getBusinessHoursError(hours) : null;
+
+  const updateHours = (changes: Partial<BusinessHours>, field?: string) => {
+    if (hours) onChange({ businessHours: { ...hours, ...changes } }, field);
+  };
+
+  const toggleDay = (day: number) => {
+    if (!hours) return;
+    updateHours({ days: hours.days.includes(day) ? hours.days.filter(candidate => candidate !== day) : [...hours.days, day] });
+  };
+
+  // Blank or 0 means no pause
+  const pauseField = (key: 'delayMs' | 'typingMs', label: string, hint: string) => (
+    <div className="space-y-1">
+      <label className="block text-sm font-medium text-gray-700" htmlFor={`message-${key}`}>
+        {label} <span className="font-normal text-gray-500">(ms)</span>
+      </label>
+      <input
+        id={`message-${key}`}
+        type="number"
+        min={0}
+        step={100}
+        value={data[key] ?? ''}
+        onChange={(event) => {
+          const ms = Number(event.target.value);
+          onChange({ [key]: ms > 0 ? ms : undefined }, key);
+        }}
+        className={inputClassName}
+        placeholder="None"
+        title={hint}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 mt-6">
+      <div className="text-sm font-medium text-gray-700">Timing</div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {pauseField('delayMs', 'Delay', 'Pause before the message (and its typing indicator) starts')}
+        {pauseField('typingMs', 'Typing', 'How long the typing indicator shows before the message appears')}
+      </div>
+
+      {/* Business hours */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!hours}
+            onChange={(event) => onChange({ businessHours: event.target.checked ? createBusinessHours() : undefined })}
+          />
+          Only send during business hours
+        </label>
+
+        {hours && (
+          <div className="space-y-2 pl-6">
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Open days">
+              {WEEK_ORDER.map(day => (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(day)}
+                  aria-pressed={hours.days.includes(day)}
+                  className={`px-1.5 py-0.5 rounded-md text-xs border ${
+                    hours.days.includes(day) ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-600" htmlFor="business-hours-start">Opens</label>
+                <input
+                  id="business-hours-start"
+                  type="time"
+                  value={hours.start}
+                  onChange={(event) => updateHours({ start: event.target.value }, 'start')}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-600" htmlFor="business-hours-end">Closes</label>
+                <input
+                  id="business-hours-end"
+                  type="time"
+                  value={hours.end}
+                  onChange={(event) => updateHours({ end: event.target.value }, 'end')}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="block text-xs font-medium text-gray-600" htmlFor="business-hours-timezone">Time zone</label>
+              <input
+                id="business-hours-timezone"
+                value={hours.timezone}
+                onChange={(event) => updateHours({ timezone: event.target.value }, 'timezone')}
+                className={inputClassName}
+                placeholder="e.g. Europe/London"
+              />
+            </div>
+
+            {hoursError ? (
+              <p className="text-xs text-red-600">Business hours: {hoursError}.</p>
+            ) : (
+              <p className="text-xs text-gray-500">
+                Outside these hours the message is not sent and the conversation follows the "Outside hours" connection.
+                A closing time before the opening time runs past midnight.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageTimingEditor;
@@ -1,70 +1,247 @@
 import React from 'react';
+import { SavedSubflow } from '../utils/storage';
+
+interface PaletteItemProps {
+  nodeType: string;
+  subflowId?: string; // Saved sub-flow to instantiate - group palette entries only
+  label: string;
+  headerClassName: string; // Header background/border, matches the node on canvas
+  labelClassName: string;
+  iconPath: string;
+  onDragStart: (event: React.DragEvent, nodeType: string, subflowId?: string) => void;
+  onInsert: (nodeType: string, subflowId?: string) => void;
+  onDelete?: () => void; // Shows a remove button when set
+}
+
+interface NodesPanelProps {
+  subflows: SavedSubflow[]; // Reusable groups saved from the settings panel
+  onInsert: (nodeType: string, subflowId?: string) => void; // Keyboard alternative to dropping
+  onDeleteSubflow: (id: string) => void;
+}
+
+// Chat bubble icon shared by message palette entries
+const MESSAGE_ICON =
+  'M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z';
+
+const BUTTONS_ICON =
+  'M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1v-2zM4 15a1 1 0 00-1 1v0a1 1 0 001 1h12a1 1 0 001-1v0a1 1 0 00-1-1H4z';
+
+const CONDITION_ICON =
+  'M5 3a2 2 0 00-1 3.732V13.27A2 2 0 105 17a2 2 0 001-3.73V11h4a4 4 0 004-4v-.268A2 2 0 1013 6.732V7a2 2 0 01-2 2H6V6.732A2 2 0 005 3z';
+
+const GROUP_ICON =
+  'M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z';
+
+const HTTP_ICON =
+  'M4.083 9h1.946c.089-1.546.383-2.97.837-4.118A6.004 6.004 0 004.083 9zM10 2a8 8 0 100 16 8 8 0 000-16zm0 2c-.076 0-.232.032-.465.262-.238.234-.497.623-.737 1.182-.389.907-.673 2.142-.766 3.556h3.936c-.093-1.414-.377-2.649-.766-3.556-.24-.56-.5-.948-.737-1.182C10.232 4.032 10.076 4 10 4zm3.971 5c-.089-1.546-.383-2.97-.837-4.118A6.004 6.004 0 0115.917 9h-1.946zm-2.003 2H8.032c.093 1.414.377 2.649.766 3.556.24.56.5.948.737 1.182.233.23.389.262.465.262.076 0 .232-.032.465-.262.238-.234.498-.623.737-1.182.389-.907.673-2.142.766-3.556zm1.166 4.118c.454-1.147.748-2.572.837-4.118h1.946a6.004 6.004 0 01-2.783 4.118zm-6.268 0C6.412 13.97 6.118 12.546 6.03 11H4.083a6.004 6.004 0 002.783 4.118z';
+
+const MEDIA_ICON =
+  'M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z';
+
+const NOTE_ICON =
+  'M4 3a1 1 0 00-1 1v12a1 1 0 001 1h7v-5a1 1 0 011-1h5V4a1 1 0 00-1-1H4zm13 10h-4v4l4-4z';
+
+const INPUT_ICON =
+  'M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z';
+
+// Draggable preview of a node type, styled like the node it creates
+// Enter or Space adds it at the centre of the canvas instead
+const PaletteItem: React.FC<PaletteItemProps> = ({
+  nodeType,
+  subflowId,
+  label,
+  headerClassName,
+  labelClassName,
+  iconPath,
+  onDragStart,
+  onInsert,
+  onDelete,
+}) => (
+  <div
+    className="bg-white rounded-lg border-2 border-blue-200 cursor-grab active:cursor-grabbing hover:border-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors mb-4 relative"
+    draggable={true} // Enable drag & drop
+    onDragStart={(event) => onDragStart(event, nodeType, subflowId)}
+    role="button"
+    tabIndex={0}
+    aria-label={`Add ${label} node`}
+    onKeyDown={(event) => {
+      if (event.target !== event.currentTarget) return; // The remove button handles its own keys
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        onInsert(nodeType, subflowId);
+      }
+    }}
+  >
+    {/* Orange handle - incoming */}
+    <div
+      className="absolute w-4 h-4 bg-orange-500 border-2 border-white rounded-full"
+      style={{ left: -8, top: '50%', transform: 'translateY(-50%)' }} // Center vertically, outside left edge
+    />
+
+    {/* Green handle - outgoing */}
+    <div
+      className="absolute w-4 h-4 bg-green-500 border-2 border-white rounded-full"
+      style={{ right: -8, top: '50%', transform: 'translateY(-50%)' }} // Center vertically, outside right edge
+    />
+
+    {/* Header */}
+    <div className={`px-3 py-2 rounded-t-lg border-b flex items-center gap-2 ${headerClassName}`}>
+      <div className={`w-4 h-4 ${labelClassName}`}>
+        <svg fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d={iconPath} clipRule="evenodd" />
+        </svg>
+      </div>
+      <span className={`text-sm font-medium truncate ${labelClassName}`}>{label}</span>
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className="ml-auto text-xs text-gray-400 hover:text-red-500"
+          title="Remove from palette"
+          aria-label={`Remove ${label} from palette`}
+        >
+          ✕
+        </button>
+      )}
+    </div>
+
+    {/* Instructions */}
+    <div className="p-3">
+      <div className="text-xs text-gray-500">
+        Drag, or press Enter, to add to canvas
+      </div>
+    </div>
+  </div>
+);
 
 /**
  * NodesPanel - Left sidebar node palette
- * 
+ *
  * Purpose: Displays available node types that can be dragged onto canvas
- * Interaction: HTML5 drag & drop - stores node type in drag event data
- * Extensible: Easy to add more node types in the future
+ * Interaction: HTML5 drag & drop - stores node type in drag event data;
+ * entries are also buttons, so Enter/Space adds the node without a mouse
+ * Extensible: Add a PaletteItem per node type registered in src/nodes
+ * Sub-flows: groups saved to the palette are listed below the built-in types
  */
-const NodesPanel: React.FC = () => {
-  // Handle drag start - stores node type for drop handler in App.tsx
-  const onDragStart = (event: React.DragEvent, nodeType: string) => {
+const NodesPanel: React.FC<NodesPanelProps> = ({ subflows, onInsert, onDeleteSubflow }) => {
+  // Handle drag start - stores node type (and sub-flow) for drop handler in App.tsx
+  const onDragStart = (event: React.DragEvent, nodeType: string, subflowId?: string) => {
     event.dataTransfer.setData('application/reactflow', nodeType); // Store node type
+    if (subflowId) {
+      event.dataTransfer.setData('application/subflow', subflowId); // Which saved sub-flow to copy
+    }
     event.dataTransfer.effectAllowed = 'move'; // Show move cursor
   };
 
   return (
-    <div className="w-64 bg-white border-r border-gray-200">
+    <aside className="w-64 bg-white border-r border-gray-200 overflow-y-auto" aria-label="Nodes panel">
       {/* Panel Header */}
       <div className="p-4 border-b border-gray-200">
         <h3 className="text-lg font-semibold text-gray-800">Nodes Panel</h3>
       </div>
-      
+
       <div className="p-4">
         {/* Message node preview */}
-        <div
-          className="bg-white rounded-lg border-2 border-blue-200 cursor-grab active:cursor-grabbing hover:border-blue-300 transition-colors mb-4 relative"
-          draggable={true} // Enable drag & drop
-          onDragStart={(event) => onDragStart(event, 'textNode')}
-        >
-          {/* Orange handle - incoming */}
-          <div 
-            className="absolute w-4 h-4 bg-orange-500 border-2 border-white rounded-full"
-            style={{ left: -8, top: '50%', transform: 'translateY(-50%)' }} // Center vertically, outside left edge
-          />
-          
-          {/* Green handle - outgoing */}
-          <div 
-            className="absolute w-4 h-4 bg-green-500 border-2 border-white rounded-full"
-            style={{ right: -8, top: '50%', transform: 'translateY(-50%)' }} // Center vertically, outside right edge
-          />
+        <PaletteItem
+          nodeType="textNode"
+          label="Message"
+          headerClassName="bg-teal-100 border-teal-200"
+          labelClassName="text-teal-800"
+          iconPath={MESSAGE_ICON}
+          onDragStart={onDragStart}
+          onInsert={onInsert}
+        />
 
-          {/* Header */}
-          <div className="bg-teal-100 px-3 py-2 rounded-t-lg border-b border-teal-200 flex items-center gap-2">
-            {/* Chat icon */}
-            <div className="w-4 h-4 text-teal-600">
-              <svg fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z" clipRule="evenodd" />
-              </svg>
-            </div>
-            <span className="text-sm font-medium text-teal-800">Message</span>
-          </div>
-          
-          {/* Instructions */}
-          <div className="p-3">
-            <div className="text-xs text-gray-500">
-              Drag to add to canvas
-            </div>
+        {/* Message with buttons preview - branches via one handle per button */}
+        <PaletteItem
+          nodeType="buttonNode"
+          label="Message with buttons"
+          headerClassName="bg-purple-100 border-purple-200"
+          labelClassName="text-purple-800"
+          iconPath={BUTTONS_ICON}
+          onDragStart={onDragStart}
+          onInsert={onInsert}
+        />
+
+        {/* Media preview - image, video, document or card */}
+        <PaletteItem
+          nodeType="mediaNode"
+          label="Media"
+          headerClassName="bg-rose-100 border-rose-200"
+          labelClassName="text-rose-800"
+          iconPath={MEDIA_ICON}
+          onDragStart={onDragStart}
+          onInsert={onInsert}
+        />
+
+        {/* Collect input preview - stores the user's answer in a variable */}
+        <PaletteItem
+          nodeType="inputNode"
+          label="Collect input"
+          headerClassName="bg-indigo-100 border-indigo-200"
+          labelClassName="text-indigo-800"
+          iconPath={INPUT_ICON}
+          onDragStart={onDragStart}
+          onInsert={onInsert}
+        />
+
+        {/* Condition preview - branches on flow variables */}
+        <PaletteItem
+          nodeType="conditionNode"
+          label="Condition"
+          headerClassName="bg-amber-100 border-amber-200"
+          labelClassName="text-amber-800"
+          iconPath={CONDITION_ICON}
+          onDragStart={onDragStart}
+          onInsert={onInsert}
+        />
+
+        {/* HTTP request preview - calls an API, success and failure handles */}
+        <PaletteItem
+          nodeType="httpNode"
+          label="HTTP request"
+          headerClassName="bg-sky-100 border-sky-200"
+          labelClassName="text-sky-800"
+          iconPath={HTTP_ICON}
+          onDragStart={onDragStart}
+          onInsert={onInsert}
+        />
+
+        {/* Sticky note preview - annotation, never part of the conversation */}
+        <PaletteItem
+          nodeType="stickyNote"
+          label="Sticky note"
+          headerClassName="bg-yellow-100 border-yellow-300"
+          labelClassName="text-yellow-900"
+          iconPath={NOTE_ICON}
+          onDragStart={onDragStart}
+          onInsert={onInsert}
+        />
+      </div>
+
+      {/* Saved sub-flows - reusable groups */}
+      <div className="px-4 pb-4">
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">Sub-flows</h4>
+        {subflows.length === 0 && (
+          <div className="text-xs text-gray-500">
+            Group a selection, then use "Save to palette" in its settings to reuse it here.
           </div>
-        </div>
-        
-        <div className="text-xs text-gray-500 mt-6">
-          More node types coming soon...
-          {/* TODO: Add input node, decision node, etc. */}
-        </div>
+        )}
+        {subflows.map(subflow => (
+          <PaletteItem
+            key={subflow.id}
+            nodeType="groupNode"
+            subflowId={subflow.id}
+            label={subflow.name}
+            headerClassName="bg-slate-100 border-slate-200"
+            labelClassName="text-slate-800"
+            iconPath={GROUP_ICON}
+            onDragStart={onDragStart}
+          onInsert={onInsert}
+            onDelete={() => onDeleteSubflow(subflow.id)}
+          />
+        ))}
       </div>
-    </div>
+    </aside>
   );
 };
 
@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Node, Edge } from 'reactflow';
+import { validateFlow } from '../utils/validation';
+import { FlowVariable } from '../utils/variables';
+import { InputNodeData } from '../nodes/InputNode';
+import { INPUT_TYPE_LABELS } from '../utils/answers';
+import { getPreviewUrl } from '../utils/media';
+import { flattenNodes } from '../utils/groups';
+import {
+  BotResponse,
+  ConversationState,
+  ConversationTurn,
+  RuntimeChoice,
+  MediaMessage,
+  createRuntimeFlow,
+  startConversation,
+  sendMessage,
+  receiveResponse,
+  executeHttpRequest,
+} from '../engine';
+
+interface PreviewPanelProps {
+  nodes: Node[];
+  edges: Edge[];
+  variables: FlowVariable[];
+  locale: string | null; // Conversation language - null for the default
+  selectedNodeId: string | null;
+  onActiveNodeChange: (nodeId: string | null) => void; // Keep it stable (e.g. a state setter) - a new one restarts the preview
+  onClose: () => void;
+}
+
+interface TranscriptEntry {
+  id: number;
+  from: 'bot' | 'user' | 'system';
+  text: string;
+  tone?: 'info' | 'warning' | 'error'; // System messages only
+  media?: MediaMessage; // Bot media messages - text holds the caption
+}
+
+// Engine responses still to be shown, one at a time
+interface Playback {
+  turn: ConversationTurn;
+  played: number;
+  deadEndText: string; // Explains a dead end right after the user's action
+  waited: boolean; // The next response's "delay before sending" has passed
+}
+
+// Pause between bot messages so the preview reads like a real chat
+const STEP_DELAY_MS = 700;
+
+const DEAD_END_TEXT = 'Dead end: this step has no outgoing connection, so the conversation ends here.';
+
+// Bot steps get the typing delay; replies, prompts and notices appear along with them
+const isStep = (response: BotResponse) => ['message', 'media', 'branch', 'response'].includes(response.type);
+
+// Message node's own pause before sending - the typing indicator is hidden meanwhile
+const getSendDelay = (response: BotResponse | undefined) => (response?.type === 'message' ? response.delayMs ?? 0 : 0);
+
+// Image, video, file link or card as the end user would see it
+const MediaAttachment: React.FC<{ media: MediaMessage }> = ({ media }) => {
+  const url = getPreviewUrl(media.asset);
+  const fileName = media.asset?.fileName || 'No file';
+
+  return (
+    <div className={`space-y-1 ${media.kind === 'card' || media.caption ? 'mb-1' : ''}`}>
+      {url && (media.kind === 'image' || media.kind === 'card') && (
+        <img src={url} alt={fileName} className="w-full max-h-48 object-cover rounded-md" />
+      )}
+      {url && media.kind === 'video' && <video src={url} controls className="w-full max-h-48 rounded-md bg-black" />}
+      {(!url || media.kind === 'document') && (
+        url ? (
+          <a href={url} target="_blank" rel="noreferrer" className="block px-2 py-1 rounded-md bg-white text-xs text-blue-700 underline truncate">
+            📄 {fileName}
+          </a>
+        ) : (
+          <div className="px-2 py-1 rounded-md bg-white text-xs text-gray-500 truncate">📎 {fileName} (preview unavailable)</div>
+        )
+      )}
+      {media.kind === 'card' && (
+        <div>
+          <div className="font-semibold">{media.title || '(untitled card)'}</div>
+          {media.subtitle && <div className="text-xs text-gray-600">{media.subtitle}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * PreviewPanel - Right sidebar chat simulator
+ *
+ * Behavior: runs the flow on the runtime engine (src/engine) - the same code
+ * that runs saved flows outside the editor - and plays each engine response
+ * after a short delay, until the bot waits for the user or the conversation ends
+ * Reply buttons: shown as quick replies - clicking one follows its connection
+ * Media: images, videos, documents and cards show as chat attachments, from
+ * the picked file while it is not hosted yet
+ * Input nodes: wait for a typed answer, re-asking until it is valid, then
+ * store it in the flow variable
+ * Conditions: evaluated against the variable values collected so far
+ * (declared defaults until an input node overwrites them)
+ * Groups: walked step by step as if their contents were on the canvas
+ * Templates: {{variable}} placeholders in bot messages show the current values
+ * HTTP requests: answered by each node's mock response in test mode (the
+ * default), otherwise sent for real from the browser
+ * Languages: the bot speaks the canvas language, falling back to the default text
+ * Timing: message nodes wait out their delay, then show "typing" for their
+ * typing time instead of the default pause; flows with business hours get a
+ * clock field to try the conversation at another time
+ * Canvas sync: reports the active node so it can be highlighted
+ * Restart: from the start node, or from whichever node is selected
+ */
+const PreviewPanel: React.FC<PreviewPanelProps> = ({
+  nodes,
+  edges,
+  variables,
+  locale,
+  selectedNodeId,
+  onActiveNodeChange,
+  onClose,
+}) => {
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [conversation, setConversation] = useState<ConversationState | null>(null);
+  const [playback, setPlayback] = useState<Playback | null>(null);
+  const [choices, setChoices] = useState<RuntimeChoice[] | null>(null);
+  const [awaiting, setAwaiting] = useState<InputNodeData | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [testMode, setTestMode] = useState(true); // Mock responses instead of real requests
+  const [clock, setClock] = useState(''); // datetime-local value business hours are checked at - blank for now
+  const entryId = useRef(0);
+  const runId = useRef(0); // Bumped on every (re)start so late request results are dropped
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const flow = useMemo(() => createRuntimeFlow(nodes, edges, variables), [nodes, edges, variables]);
+  const usesBusinessHours = useMemo(() => flattenNodes(nodes).some(node => node.type === 'textNode' && node.data?.businessHours), [nodes]);
+
+  const append = useCallback((entry: Omit<TranscriptEntry, 'id'>) => {
+    setTranscript(entries => [...entries, { ...entry, id: entryId.current++ }]);
+  }, []);
+
+  // Queue a turn's responses for playback
+  const play = useCallback((turn: ConversationTurn, deadEndText = DEAD_END_TEXT) => {
+    setConversation(turn.state);
+    setPlayback({ turn, played: 0, deadEndText, waited: false });
+  }, []);
+
+  const startFrom = useCallback((nodeId: string) => {
+    setTranscript([]);
+    setChoices(null);
+    setAwaiting(null);
+    runId.current++;
+    play(startConversation(flow, {
+      startNodeId: nodeId,
+      testMode,
+      locale: locale ?? undefined,
+      now: clock ? new Date(clock).toISOString() : undefined,
+    })); // Every run starts from the declared defaults
+  }, [flow, testMode, locale, clock, play]);
+
+  // User clicked a quick reply
+  const choose = useCallback((choice: RuntimeChoice) => {
+    if (!conversation) return;
+
+    append({ from: 'user', text: choice.label || 'Untitled button' });
+    setChoices(null);
+    play(
+      sendMessage(flow, conversation, choice.id),
+      `Dead end: the "${choice.label}" button has no outgoing connection, so the conversation ends here.`,
+    );
+  }, [flow, conversation, append, play]);
+
+  // User submitted an answer to a collect-input node
+  const submitAnswer = useCallback((reply: string) => {
+    if (!conversation || !awaiting || !reply.trim()) return;
+
+    append({ from: 'user', text: reply });
+    setAnswer('');
+    play(
+      sendMessage(flow, conversation, reply),
+      'Dead end: this question has no outgoing connection, so the conversation ends here.',
+    );
+  }, [flow, conversation, awaiting, append, play]);
+
+  // Restart from the flow's entry point as identified by validation
+  // Read through a ref so restart keeps one identity while the flow is edited
+  const restartRef = useRef<() => void>(() => undefined);
+  restartRef.current = () => {
+    const validation = validateFlow(nodes, edges, variables);
+    setTranscript([]);
+    setPlayback(null);
+    setConversation(null);
+    runId.current++;
+    setChoices(null);
+    setAwaiting(null);
+    onActiveNodeChange(null);
+
+    if (!validation.isValid || !validation.startNodeId) {
+      append({
+        from: 'system',
+        tone: 'error',
+        text: validation.errorMessage || 'Add a message node to preview the conversation.',
+      });
+      return;
+    }
+    startFrom(validation.startNodeId);
+  };
+  const restart = useCallback(() => restartRef.current(), []);
+
+  // Show the next response after a short "typing" delay
+  useEffect(() => {
+    if (!playback) return;
+    const { responses, state } = playback.turn;
+    if (playback.played >= responses.length) {
+      setPlayback(null);
+      return;
+    }
+
+    const response = responses[playback.played];
+    const afterStep = responses.slice(0, playback.played).some(isStep);
+
+    // Wait out the message's delay first, then type
+    if (getSendDelay(response) > 0 && !playback.waited) {
+      const pause = setTimeout(() => setPlayback({ ...playback, waited: true }), getSendDelay(response));
+      return () => clearTimeout(pause);
+    }
+    const typingMs = response.type === 'message' ? response.typingMs : undefined;
+
+    const timer = setTimeout(() => {
+      switch (response.type) {
+        case 'message':
+          append({ from: 'bot', text: response.text || '(empty message)' });
+          onActiveNodeChange(response.nodeId);
+          break;
+        case 'media':
+          append({ from: 'bot', text: response.media.kind === 'card' ? '' : response.media.caption, media: response.media });
+          onActiveNodeChange(response.nodeId);
+          break;
+        case 'branch':
+          append({ from: 'system', tone: 'info', text: response.note });
+          onActiveNodeChange(response.nodeId);
+          break;
+        case 'choices':
+          setChoices(response.choices); // Wait for the user to pick a reply
+          break;
+        case 'input':
+          setAwaiting(response.input); // Wait for the user to answer
+          break;
+        case 'retry':
+          append({ from: 'bot', text: response.text }); // Keep waiting for a valid answer
+          break;
+        case 'request': {
+          append({ from: 'system', tone: 'info', text: `Calling ${response.request.method} ${response.request.url}…` });
+          onActiveNodeChange(response.nodeId);
+          const run = runId.current;
+          executeHttpRequest(response.request).then(result => {
+            if (run === runId.current) play(receiveResponse(flow, state, result));
+          });
+          break;
+        }
+        case 'response': {
+          const { request, result } = response;
+          append({
+            from: 'system',
+            tone: response.success ? 'info' : 'warning',
+            text: `${request.method} ${request.url} → ${result.error || result.status}${result.mocked ? ' (mock)' : ''}`,
+          });
+          onActiveNodeChange(response.nodeId);
+          break;
+        }
+        case 'stored':
+          append({ from: 'system', tone: 'info', text: `Saved ${response.variable} = "${response.value}"` });
+          setAwaiting(null);
+          break;
+        case 'end':
+          setAwaiting(null);
+          if (response.reason === 'loop') {
+            append({ from: 'system', tone: 'warning', text: 'Loop detected: the flow returns to a message that was already sent and would repeat forever.' });
+          } else if (response.reason === 'missing-node') {
+            append({ from: 'system', tone: 'error', text: 'The active node was removed from the flow.' });
+            onActiveNodeChange(null);
+          } else if (response.reason === 'no-start') {
+            append({ from: 'system', tone: 'error', text: 'The flow has no single starting node.' });
+          } else {
+            append({ from: 'system', tone: 'info', text: afterStep ? DEAD_END_TEXT : playback.deadEndText });
+          }
+          break;
+      }
+      setPlayback({ ...playback, played: playback.played + 1, waited: false });
+    }, typingMs ?? (isStep(response) && afterStep ? STEP_DELAY_MS : 0)); // First message of a turn shows immediately, unless it types
+
+    return () => clearTimeout(timer);
+  }, [playback, flow, append, play, onActiveNodeChange]);
+
+  // Start once on open, and clear the canvas highlight on close
+  useEffect(() => {
+    restart();
+    return () => onActiveNodeChange(null);
+  }, [restart, onActiveNodeChange]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript]);
+
+  const toneClasses = {
+    info: 'bg-gray-100 text-gray-600',
+    warning: 'bg-amber-50 text-amber-800 border border-amber-200',
+    error: 'bg-red-50 text-red-800 border border-red-200',
+  };
+
+  return (
+    <div className="w-80 bg-white border-l border-gray-200 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">Preview</h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 hover:bg-gray-100 rounded-md transition-colors"
+          title="Close"
+          aria-label="Close"
+        >
+          <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Restart controls */}
+      <div className="px-4 py-2 border-b border-gray-200 flex gap-2 text-xs">
+        <button onClick={restart} className="px-2 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700">
+          Restart
+        </button>
+        <button
+          onClick={() => selectedNodeId && startFrom(selectedNodeId)}
+          disabled={!selectedNodeId}
+          className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+        >
+          Start from selected node
+        </button>
+        <label className="ml-auto flex items-center gap-1 text-gray-600" title="HTTP request nodes answer with their selected mock response. Applies from the next restart.">
+          <input type="checkbox" checked={testMode} onChange={(event) => setTestMode(event.target.checked)} />
+          Test mode
+        </label>
+      </div>
+      {usesBusinessHours && (
+        <label
+          className="px-4 py-2 border-b border-gray-200 flex items-center gap-2 text-xs text-gray-600"
+          title="Business hours are checked at this time instead of now. Applies from the next restart."
+        >
+          Time
+          <input
+            type="datetime-local"
+            value={clock}
+            onChange={(event) => setClock(event.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md"
+          />
+          {clock && (
+            <button onClick={() => setClock('')} className="text-blue-600 hover:underline">Now</button>
+          )}
+        </label>
+      )}
+
+      {/* Conversation */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-gray-50">
+        {transcript.map(entry => (
+          entry.from === 'bot' ? (
+            <div key={entry.id} className="max-w-[85%] px-3 py-2 rounded-lg rounded-tl-none bg-teal-100 text-sm text-gray-800 whitespace-pre-wrap">
+              {entry.media && <MediaAttachment media={entry.media} />}
+              {entry.text}
+            </div>
+          ) : entry.from === 'user' ? (
+            <div key={entry.id} className="max-w-[85%] ml-auto px-3 py-2 rounded-lg rounded-tr-none bg-blue-600 text-sm text-white">
+              {entry.text}
+            </div>
+          ) : (
+            <div key={entry.id} className={`px-3 py-2 rounded-md text-xs ${toneClasses[entry.tone || 'info']}`}>
+              {entry.text}
+            </div>
+          )
+        ))}
+        {choices && (
+          <div className="flex flex-wrap gap-1.5">
+            {choices.map(choice => (
+              <button
+                key={choice.id}
+                onClick={() => choose(choice)}
+                className="px-3 py-1 rounded-full border border-purple-300 bg-white text-xs font-medium text-purple-700 hover:bg-purple-50"
+              >
+                {choice.label || 'Untitled button'}
+              </button>
+            ))}
+          </div>
+        )}
+        {awaiting?.inputType === 'choice' && (
+          <div className="flex flex-wrap gap-1.5">
+            {awaiting.choices.filter(choice => choice.trim()).map(choice => (
+              <button
+                key={choice}
+                onClick={() => submitAnswer(choice)}
+                className="px-3 py-1 rounded-full border border-indigo-300 bg-white text-xs font-medium text-indigo-700 hover:bg-indigo-50"
+              >
+                {choice}
+              </button>
+            ))}
+          </div>
+        )}
+        {playback && (getSendDelay(playback.turn.responses[playback.played]) > 0 && !playback.waited ? (
+          <div className="text-xs text-gray-400">Bot is waiting before the next message…</div>
+        ) : (transcript.length > 0 || playback.turn.responses[playback.played]?.type === 'message') && (
+          <div className="text-xs text-gray-400">Bot is typing…</div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Answer box - shown while a collect-input node waits */}
+      {awaiting && (
+        <form
+          className="p-3 border-t border-gray-200 flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            submitAnswer(answer);
+          }}
+        >
+          <input
+            autoFocus
+            value={answer}
+            onChange={(event) => setAnswer(event.target.value)}
+            className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-full text-sm focus:ring-2 focus:ring-blue-500"
+            placeholder={`Type ${INPUT_TYPE_LABELS[awaiting.inputType]}…`}
+          />
+          <button type="submit" className="px-3 py-1.5 rounded-full bg-blue-600 text-white text-sm hover:bg-blue-700">
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PreviewPanel;
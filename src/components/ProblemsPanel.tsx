@@ -0,0 +1,85 @@
+import React from 'react';
+import { ValidationIssue } from '../utils/validation';
+
+export type ProblemsDock = 'bottom' | 'right';
+
+interface ProblemsPanelProps {
+  issues: ValidationIssue[];
+  dock: ProblemsDock;
+  onDockChange: (dock: ProblemsDock) => void;
+  onSelectIssue: (issue: ValidationIssue) => void; // Select and zoom to the offending nodes
+  onClose: () => void;
+}
+
+/**
+ * ProblemsPanel - Live list of every validation issue in the flow
+ *
+ * Purpose: fix a whole flow in one pass instead of one save toast at a time
+ * Layout: docks below the canvas or as a right sidebar (toggle in the header)
+ * Interaction: clicking an issue selects the node(s) it concerns and zooms to them
+ * Severity: errors block saving, warnings are advisory
+ */
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ issues, dock, onDockChange, onSelectIssue, onClose }) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div
+      className={`bg-white border-gray-200 flex flex-col ${
+        dock === 'bottom' ? 'h-56 border-t' : 'w-80 border-l'
+      }`}
+    >
+      {/* Header */}
+      <div className="px-4 py-2 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h3 className="text-sm font-semibold text-gray-800">Problems</h3>
+          <span className="text-xs text-red-600">{errorCount} error{errorCount === 1 ? '' : 's'}</span>
+          <span className="text-xs text-amber-600">{warningCount} warning{warningCount === 1 ? '' : 's'}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onDockChange(dock === 'bottom' ? 'right' : 'bottom')}
+            className="px-2 py-1 text-xs text-gray-600 rounded-md hover:bg-gray-100"
+            title={dock === 'bottom' ? 'Dock to the right' : 'Dock to the bottom'}
+          >
+            {dock === 'bottom' ? 'Dock right' : 'Dock bottom'}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-md transition-colors"
+            title="Close"
+            aria-label="Close"
+          >
+            <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Issue list */}
+      <div className="flex-1 overflow-y-auto">
+        {issues.length === 0 && (
+          <div className="p-4 text-sm text-gray-500">No problems found - the flow is ready to save.</div>
+        )}
+
+        {issues.map((issue, index) => (
+          <button
+            key={`${issue.code}:${index}`}
+            onClick={() => onSelectIssue(issue)}
+            className="w-full px-4 py-2 flex items-start gap-2 text-left border-b border-gray-100 hover:bg-gray-50"
+          >
+            <span
+              className={`mt-1 w-2 h-2 shrink-0 rounded-full ${issue.severity === 'error' ? 'bg-red-500' : 'bg-amber-400'}`}
+              title={issue.severity === 'error' ? 'Error' : 'Warning'}
+            />
+            <span className="flex-1 text-sm text-gray-800">{issue.message}</span>
+            <span className="text-xs font-mono text-gray-400 whitespace-nowrap">{issue.code}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { ReplyButton } from '../nodes/ButtonNode';
+import { createId } from '../utils/ids';
+
+interface ReplyButtonsEditorProps {
+  buttons: ReplyButton[];
+  // field: set for label typing so keystrokes merge into one undo step
+  onChange: (buttons: ReplyButton[], field?: string) => void;
+}
+
+/**
+ * ReplyButtonsEditor - Settings section for a button node's quick replies
+ *
+ * Actions: add, rename, reorder (up/down) and remove buttons
+ * Button IDs never change, so existing connections follow a button when it moves
+ */
+const ReplyButtonsEditor: React.FC<ReplyButtonsEditorProps> = ({ buttons, onChange }) => {
+  const updateLabel = (id: string, label: string) => {
+    onChange(buttons.map(button => (button.id === id ? { ...button, label } : button)), `label:${id}`);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= buttons.length) return;
+
+    const reordered = [...buttons];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]]; // Swap neighbours
+    onChange(reordered);
+  };
+
+  const remove = (id: string) => {
+    onChange(buttons.filter(button => button.id !== id)); // Its connection is dropped by the App
+  };
+
+  const add = () => {
+    onChange([...buttons, { id: createId('btn'), label: `Option ${buttons.length + 1}` }]);
+  };
+
+  return (
+    <div className="space-y-3 mt-6">
+      <label className="block text-sm font-medium text-gray-700">
+        Reply buttons
+      </label>
+
+      {buttons.map((button, index) => (
+        <div key={button.id} className="flex items-center gap-1">
+          <input
+            value={button.label}
+            onChange={(event) => updateLabel(button.id, event.target.value)}
+            className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Button label"
+          />
+          <button
+            onClick={() => move(index, -1)}
+            disabled={index === 0}
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+            title="Move up"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => move(index, 1)}
+            disabled={index === buttons.length - 1}
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+            title="Move down"
+          >
+            ↓
+          </button>
+          <button
+            onClick={() => remove(button.id)}
+            className="p-1 rounded-md text-red-500 hover:bg-red-50"
+            title="Remove button"
+            aria-label="Remove button"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={add}
+        className="w-full py-1.5 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+      >
+        + Add button
+      </button>
+    </div>
+  );
+};
+
+export default ReplyButtonsEditor;
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { NODE_TYPE_LABELS } from '../nodes/labels';
+import { SearchMatch, SearchOptions } from '../utils/search';
+
+interface SearchBarProps {
+  query: string;
+  options: SearchOptions;
+  matches: SearchMatch[];
+  currentIndex: number; // Into matches, -1 when there are none
+  canReplace: boolean; // False while the canvas is read-only
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onStep: (offset: 1 | -1) => void; // Next / previous match
+  onReplaceAll: (replacement: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * SearchBar - Ctrl+F search over the nodes on the canvas
+ *
+ * Matching: see utils/search - text, labels, node type names and IDs, with
+ * optional case matching and a node type filter
+ * Keyboard: Enter / Shift+Enter for next / previous, Escape to close
+ * Replace: the replace row rewrites message text on the canvas in one step
+ */
+const SearchBar: React.FC<SearchBarProps> = ({
+  query,
+  options,
+  matches,
+  currentIndex,
+  canReplace,
+  onQueryChange,
+  onOptionsChange,
+  onStep,
+  onReplaceAll,
+  onClose,
+}) => {
+  const [showReplace, setShowReplace] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select(); // Typing replaces the previous search
+  }, []);
+
+  const current = currentIndex >= 0 ? matches[currentIndex] : null;
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === 'Enter' && event.target === inputRef.current && matches.length > 0) {
+      event.preventDefault();
+      onStep(event.shiftKey ? -1 : 1);
+    }
+  };
+
+  return (
+    <div
+      role="search"
+      aria-label="Search nodes"
+      className="bg-yellow-50 border-b border-yellow-200 px-4 py-2 space-y-2 text-sm"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(event) => onQueryChange(event.target.value)}
+          className="w-64 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+          placeholder="Find text, node type or ID..."
+          aria-label="Find"
+        />
+        <span className="min-w-[5rem] text-gray-600" aria-live="polite">
+          {query ? (matches.length > 0 ? `${currentIndex + 1} of ${matches.length}` : 'No results') : ''}
+        </span>
+        <button
+          onClick={() => onStep(-1)}
+          disabled={matches.length === 0}
+          className="px-2 py-1 rounded-md text-gray-700 hover:bg-yellow-100 disabled:opacity-40"
+          title="Previous match (Shift+Enter)"
+          aria-label="Previous match"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => onStep(1)}
+          disabled={matches.length === 0}
+          className="px-2 py-1 rounded-md text-gray-700 hover:bg-yellow-100 disabled:opacity-40"
+          title="Next match (Enter)"
+          aria-label="Next match"
+        >
+          ↓
+        </button>
+        <label className="flex items-center gap-1 text-gray-700" title="Match case">
+          <input
+            type="checkbox"
+            checked={options.matchCase}
+            onChange={(event) => onOptionsChange({ ...options, matchCase: event.target.checked })}
+          />
+          Aa
+        </label>
+        <select
+          value={options.nodeType ?? ''}
+          onChange={(event) => onOptionsChange({ ...options, nodeType: event.target.value || null })}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+          aria-label="Node type"
+        >
+          <option value="">All node types</option>
+          {Object.entries(NODE_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+        </select>
+        <button
+          onClick={() => setShowReplace(show => !show)}
+          className={`px-2 py-1 rounded-md ${showReplace ? 'bg-yellow-200 text-yellow-900' : 'text-gray-700 hover:bg-yellow-100'}`}
+          aria-expanded={showReplace}
+        >
+          Replace
+        </button>
+        {current && <span className="text-xs text-gray-500 truncate">Found in: {current.fields.join(', ')}</span>}
+        <button
+          onClick={onClose}
+          className="ml-auto p-1 hover:bg-yellow-100 rounded-md transition-colors"
+          title="Close (Escape)"
+          aria-label="Close search"
+        >
+          <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Replace row - message text only */}
+      {showReplace && (
+        <div className="flex items-center gap-2">
+          <input
+            value={replacement}
+            onChange={(event) => setReplacement(event.target.value)}
+            className="w-64 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+            placeholder="Replace with..."
+            aria-label="Replace with"
+          />
+          <button
+            onClick={() => onReplaceAll(replacement)}
+            disabled={!query || !canReplace}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-40"
+          >
+            Replace all
+          </button>
+          <span className="text-xs text-gray-500">
+            {canReplace ? 'Rewrites message text on this canvas, sub-flows included' : 'Stop comparing revisions to replace'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -1,51 +1,121 @@
-import React, { useState, useEffect } from 'react';
-import { Node } from 'reactflow';
+import React, { useState, useEffect, useRef } from 'react';
+import { Node, Edge } from 'reactflow';
+import { FlowNodeData, NODE_TYPE_LABELS } from '../nodes';
+import { ButtonNodeData } from '../nodes/ButtonNode';
+import { ConditionNodeData } from '../nodes/ConditionNode';
+import { InputNodeData } from '../nodes/InputNode';
 import { TextNodeData } from '../nodes/TextNode';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { HttpNodeData } from '../nodes/HttpNode';
+import { MediaNodeData } from '../nodes/MediaNode';
+import { StickyNoteColor, StickyNoteData, STICKY_NOTE_COLORS } from '../nodes/StickyNoteNode';
+import { RegisteredVariable } from '../utils/variables';
+import ReplyButtonsEditor from './ReplyButtonsEditor';
+import ConditionCasesEditor from './ConditionCasesEditor';
+import InputSettingsEditor from './InputSettingsEditor';
+import TemplateTextarea from './TemplateTextarea';
+import GroupSettingsEditor from './GroupSettingsEditor';
+import HttpSettingsEditor from './HttpSettingsEditor';
+import MediaSettingsEditor from './MediaSettingsEditor';
+import MessageTimingEditor from './MessageTimingEditor';
+import EdgeSettingsEditor from './EdgeSettingsEditor';
+import TranslationEditor from './TranslationEditor';
+import { withTranslation } from '../utils/translations';
+import { FlowEdgeData, createEdgeData } from '../edges/edgeData';
+
+// A selected connection with its endpoints described for the header
+export interface SelectedEdge {
+  edge: Edge<FlowEdgeData>;
+  from: string;
+  to: string;
+}
 
 interface SettingsPanelProps {
-  selectedNode: Node<TextNodeData> | null;
-  onNodeDataChange: (nodeId: string, data: TextNodeData) => void;
+  selectedNode: Node<FlowNodeData> | null;
+  selectedEdge: SelectedEdge | null; // Shown when no node is selected
+  variables: RegisteredVariable[]; // Flow variable registry, offered by condition and input editors
+  locale: string | null; // Canvas language when it is not the default - switches to translating
+  // field: set for keystroke edits so consecutive changes merge into one undo step
+  onNodeDataChange: (nodeId: string, data: FlowNodeData, field?: string) => void;
+  onEdgeDataChange: (edgeId: string, data: FlowEdgeData, field?: string) => void;
+  onOpenGroup: (nodeId: string) => void;
+  onSaveSubflow: (data: GroupNodeData) => void; // Add a group to the palette
+  focusRequest: number; // Bumped to move keyboard focus to the first field
+  onReturnFocus: () => void; // Escape - back to the node on the canvas
   onClose: () => void;
 }
 
 /**
  * SettingsPanel - Right sidebar for editing selected nodes
  * 
- * Behavior: Only appears when exactly one node is selected
+ * Behavior: Only appears when exactly one node, or one connection, is selected
  * Real-time updates: Changes immediately sync to canvas node
  * State management: Local state + callback to parent for persistence
+ * Node types: message text for message and input nodes, plus a reply button
+ * editor for button nodes, a case editor for condition nodes and answer
+ * settings for input nodes; groups get a name, "Open" and "Save to palette";
+ * HTTP request nodes get the request, response mapping and mock responses;
+ * media nodes get the variant, file, caption and card fields;
+ * connections get a label, delay and priority
+ * Templates: message text may reference variables as {{name}}
+ * Languages: while the canvas shows another language, the panel edits that
+ * language's translations instead of the node itself
+ * Keyboard: opening settings with Enter on a node focuses the first field;
+ * Escape returns focus to the node
  */
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   selectedNode,
+  selectedEdge,
+  variables,
+  locale,
   onNodeDataChange,
+  onEdgeDataChange,
+  onOpenGroup,
+  onSaveSubflow,
+  focusRequest,
+  onReturnFocus,
   onClose,
 }) => {
   const [text, setText] = useState('');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Keyboard users land in the first field rather than back at the top of the page
+  useEffect(() => {
+    if (focusRequest === 0) return;
+    panelRef.current?.querySelector<HTMLElement>('textarea, input, select, button:not([data-close])')?.focus();
+  }, [focusRequest]);
 
   // Update text when node changes
   useEffect(() => {
     if (selectedNode) {
-      setText(selectedNode.data?.text || ''); // Sync with selected node data
+      setText(('text' in selectedNode.data && selectedNode.data.text) || ''); // Sync with selected node data
     }
   }, [selectedNode]);
 
   // Handle text changes with real-time updates
   // Updates local state immediately, then syncs to main app state via callback
-  const handleTextChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newText = event.target.value;
+  const handleTextChange = (newText: string) => {
     setText(newText); // Update local state for responsive UI
     
     if (selectedNode) {
-      onNodeDataChange(selectedNode.id, { text: newText }); // Sync to canvas node
+      onNodeDataChange(selectedNode.id, { ...selectedNode.data, text: newText }, 'text'); // Sync to canvas node
     }
   };
 
-  if (!selectedNode) {
+  if (!selectedNode && !selectedEdge) {
     return null;
   }
 
   return (
-    <div className="w-80 bg-white border-l border-gray-200">
+    <div
+      ref={panelRef}
+      role="region"
+      aria-label={selectedNode ? 'Node settings' : 'Connection settings'}
+      className="w-80 bg-white border-l border-gray-200 overflow-y-auto"
+      onKeyDown={(event) => {
+        if (event.key === 'Escape' && !event.defaultPrevented) onReturnFocus(); // Suggestion lists claim Escape first
+      }}
+    >
       {/* Header */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between">
@@ -57,7 +127,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 <path fillRule="evenodd" d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z" clipRule="evenodd" />
               </svg>
             </div>
-            <h3 className="text-lg font-semibold text-gray-800">Message</h3>
+            <h3 className="text-lg font-semibold text-gray-800">
+              {selectedNode ? NODE_TYPE_LABELS[selectedNode.type || ''] || 'Message' : 'Connection'}
+            </h3>
           </div>
           
           {/* Close */}
@@ -65,6 +137,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             onClick={onClose}
             className="p-1.5 hover:bg-gray-100 rounded-md transition-colors"
             title="Close"
+            aria-label="Close settings"
+            data-close
           >
             <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -74,23 +148,155 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
       </div>
 
       {/* Content */}
-      <div className="p-4">
-        <div className="space-y-3">
-          {/* Input Label */}
-          <label className="block text-sm font-medium text-gray-700">
-            Text
-          </label>
-          
-          {/* Text Input Area */}
-          <textarea
-            value={text}
-            onChange={handleTextChange}
-            className="w-full p-3 border border-gray-300 rounded-md resize-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-            rows={6}
-            placeholder="Enter your message..."
+      {!selectedNode ? (
+        selectedEdge && (
+          <div className="p-4">
+            <EdgeSettingsEditor
+              data={selectedEdge.edge.data ?? createEdgeData()} // Edges drawn before labels existed have no data
+              from={selectedEdge.from}
+              to={selectedEdge.to}
+              onChange={(changes, field) =>
+                onEdgeDataChange(selectedEdge.edge.id, { ...(selectedEdge.edge.data ?? createEdgeData()), ...changes }, field)
+              }
+            />
+          </div>
+        )
+      ) : locale && selectedNode.type !== 'stickyNote' ? ( // Notes are for the team, never translated
+        <div className="p-4">
+          <TranslationEditor
+            type={selectedNode.type || ''}
+            data={selectedNode.data}
+            locale={locale}
+            variableNames={variables.map(variable => variable.name)}
+            onChange={(key, value, field) =>
+              onNodeDataChange(selectedNode.id, withTranslation(selectedNode.data, locale, key, value), field)
+            }
           />
         </div>
-      </div>
+      ) : (
+        <div className="p-4">
+          {/* Message text - every node type except conditions, groups, requests, media and notes sends a message */}
+          {!['conditionNode', 'groupNode', 'httpNode', 'mediaNode', 'stickyNote'].includes(selectedNode.type || '') && (
+            <div className="space-y-3">
+              {/* Input Label */}
+              <label className="block text-sm font-medium text-gray-700">
+                Text
+              </label>
+          
+              {/* Text Input Area - "{{" suggests flow variables */}
+              <TemplateTextarea
+                value={text}
+                onChange={handleTextChange}
+                variableNames={variables.map(variable => variable.name)}
+                placeholder="Enter your message..."
+              />
+            </div>
+          )}
+
+          {/* Delay, typing indicator and business hours - message nodes only */}
+          {selectedNode.type === 'textNode' && (
+            <MessageTimingEditor
+              data={selectedNode.data as TextNodeData}
+              onChange={(changes, field) =>
+                onNodeDataChange(selectedNode.id, { ...selectedNode.data, ...changes } as TextNodeData, field)
+              }
+            />
+          )}
+
+          {/* Reply buttons - button nodes only */}
+          {selectedNode.type === 'buttonNode' && (
+            <ReplyButtonsEditor
+              buttons={(selectedNode.data as ButtonNodeData).buttons || []}
+              onChange={(buttons, field) =>
+                onNodeDataChange(selectedNode.id, { ...selectedNode.data, buttons }, field)
+              }
+            />
+          )}
+
+          {/* Branch cases - condition nodes only */}
+          {selectedNode.type === 'conditionNode' && (
+            <ConditionCasesEditor
+              cases={(selectedNode.data as ConditionNodeData).cases || []}
+              variables={variables}
+              onChange={(cases, field) =>
+                onNodeDataChange(selectedNode.id, { ...selectedNode.data, cases }, field)
+              }
+            />
+          )}
+
+          {/* Sub-flow name and actions - group nodes only */}
+          {selectedNode.type === 'groupNode' && (
+            <GroupSettingsEditor
+              data={selectedNode.data as GroupNodeData}
+              onChange={(changes, field) =>
+                onNodeDataChange(selectedNode.id, { ...selectedNode.data, ...changes } as GroupNodeData, field)
+              }
+              onOpen={() => onOpenGroup(selectedNode.id)}
+              onSaveToPalette={() => onSaveSubflow(selectedNode.data as GroupNodeData)}
+            />
+          )}
+
+          {/* Request settings - HTTP request nodes only */}
+          {selectedNode.type === 'httpNode' && (
+            <HttpSettingsEditor
+              data={selectedNode.data as HttpNodeData}
+              registry={variables}
+              onChange={(changes, field) =>
+                onNodeDataChange(selectedNode.id, { ...selectedNode.data, ...changes } as HttpNodeData, field)
+              }
+            />
+          )}
+
+          {/* File, caption and card fields - media nodes only */}
+          {selectedNode.type === 'mediaNode' && (
+            <MediaSettingsEditor
+              data={selectedNode.data as MediaNodeData}
+              variableNames={variables.map(variable => variable.name)}
+              onChange={(changes, field) =>
+                onNodeDataChange(selectedNode.id, { ...selectedNode.data, ...changes } as MediaNodeData, field)
+              }
+            />
+          )}
+
+          {/* Note text and color - sticky notes only */}
+          {selectedNode.type === 'stickyNote' && (
+            <div className="space-y-3">
+              <label className="block text-sm font-medium text-gray-700" htmlFor="sticky-note-text">Note</label>
+              <textarea
+                id="sticky-note-text"
+                value={(selectedNode.data as StickyNoteData).text}
+                onChange={(event) => onNodeDataChange(selectedNode.id, { ...selectedNode.data, text: event.target.value }, 'text')}
+                rows={5}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+                placeholder="Leave a note for reviewers..."
+              />
+              <label className="block text-sm font-medium text-gray-700" htmlFor="sticky-note-color">Color</label>
+              <select
+                id="sticky-note-color"
+                value={(selectedNode.data as StickyNoteData).color}
+                onChange={(event) => onNodeDataChange(selectedNode.id, { ...selectedNode.data, color: event.target.value as StickyNoteColor })}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(STICKY_NOTE_COLORS) as StickyNoteColor[]).map(color => (
+                  <option key={color} value={color}>{STICKY_NOTE_COLORS[color].label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">Notes are saved with the flow but are never part of the conversation.</p>
+            </div>
+          )}
+
+          {/* Answer settings - input nodes only */}
+          {selectedNode.type === 'inputNode' && (
+            <InputSettingsEditor
+              data={selectedNode.data as InputNodeData}
+              registry={variables}
+              onChange={(changes, field) =>
+                onNodeDataChange(selectedNode.id, { ...selectedNode.data, ...changes } as InputNodeData, field)
+              }
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 };
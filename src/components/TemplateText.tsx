@@ -0,0 +1,47 @@
+import React from 'react';
+import { splitTemplate } from '../utils/templates';
+import { useFlowEditor } from '../context/FlowEditorContext';
+import { splitHighlight } from '../utils/search';
+
+interface TemplateTextProps {
+  text: string;
+}
+
+/**
+ * TemplateText - Renders message text with `{{variable}}` placeholders highlighted
+ *
+ * Known variables show as indigo chips, undeclared ones in red so broken
+ * references stand out on the canvas before validation runs
+ * Search: occurrences of the canvas search query are marked in plain text
+ */
+const TemplateText: React.FC<TemplateTextProps> = ({ text }) => {
+  const { variableNames, search } = useFlowEditor();
+
+  return (
+    <>
+      {splitTemplate(text).map((segment, index) => (
+        segment.variable ? (
+          <span
+            key={index}
+            className={`px-1 rounded font-mono text-xs ${
+              variableNames.has(segment.variable) ? 'bg-indigo-100 text-indigo-700' : 'bg-red-100 text-red-700'
+            }`}
+            title={variableNames.has(segment.variable) ? undefined : 'Undeclared variable'}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>
+            {splitHighlight(segment.text, search?.query ?? '', search?.matchCase ?? false).map((part, partIndex) => (
+              part.match
+                ? <mark key={partIndex} className="bg-yellow-200 rounded-sm">{part.text}</mark>
+                : <React.Fragment key={partIndex}>{part.text}</React.Fragment>
+            ))}
+          </React.Fragment>
+        )
+      ))}
+    </>
+  );
+};
+
+export default TemplateText;
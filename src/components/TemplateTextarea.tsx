@@ -0,0 +1,125 @@
+import React, { useState, useRef } from 'react';
+
+interface TemplateTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  variableNames: string[]; // Suggested after typing "{{"
+  rows?: number;
+  placeholder?: string;
+}
+
+interface PlaceholderQuery {
+  start: number; // Index where the partial variable name begins
+  partial: string;
+}
+
+// An unfinished placeholder right before the caret, e.g. "Hi {{na"
+const OPEN_PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]*)$/;
+
+/**
+ * TemplateTextarea - Message textarea with `{{variable}}` autocomplete
+ *
+ * Typing "{{" opens a list of flow variables filtered by what follows
+ * Keyboard: ↑/↓ to move, Enter or Tab to insert, Escape to dismiss
+ * Inserting completes the closing braces and puts the caret after them
+ */
+const TemplateTextarea: React.FC<TemplateTextareaProps> = ({
+  value,
+  onChange,
+  variableNames,
+  rows = 6,
+  placeholder,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<PlaceholderQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query
+    ? variableNames.filter(name => name.toLowerCase().startsWith(query.partial.toLowerCase()))
+    : [];
+
+  // Re-check for an open placeholder whenever the text or caret moves
+  const updateQuery = (text: string, caret: number) => {
+    const match = OPEN_PLACEHOLDER.exec(text.slice(0, caret));
+    setQuery(match ? { start: caret - match[1].length, partial: match[1] } : null);
+    setActiveIndex(0);
+  };
+
+  const insert = (name: string) => {
+    const textarea = textareaRef.current;
+    if (!query || !textarea) return;
+
+    const after = value.slice(textarea.selectionStart);
+    const closing = after.startsWith('}}') ? '' : '}}'; // Reuse braces that are already there
+    onChange(value.slice(0, query.start) + name + closing + after);
+    setQuery(null);
+
+    // Move the caret past the closing braces once React has re-rendered
+    const caret = query.start + name.length + 2;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const offset = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + offset + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      insert(suggestions[activeIndex]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault(); // Only the list closes, not the surrounding panel
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          updateQuery(event.target.value, event.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(event) => updateQuery(value, event.currentTarget.selectionStart)}
+        onBlur={() => setQuery(null)}
+        className="w-full p-3 border border-gray-300 rounded-md resize-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+        rows={rows}
+        placeholder={placeholder}
+      />
+
+      {/* Variable suggestions */}
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-40 overflow-y-auto">
+          {suggestions.map((name, index) => (
+            <li
+              key={name}
+              onMouseDown={(event) => {
+                event.preventDefault(); // Keep focus in the textarea
+                insert(name);
+              }}
+              className={`px-3 py-1.5 text-sm font-mono cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {name}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-1 text-xs text-gray-500">
+        Type <span className="font-mono">{'{{'}</span> to insert a variable.
+      </div>
+    </div>
+  );
+};
+
+export default TemplateTextarea;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useFlowEditor } from '../context/FlowEditorContext';
+import { LocalizedNodeData, findMissingTranslations } from '../utils/translations';
+
+interface TranslationBadgeProps {
+  type: string;
+  data: LocalizedNodeData; // Node data, default language
+}
+
+/**
+ * TranslationBadge - Node header marker for strings missing in the canvas language
+ *
+ * Hidden in the default language and once every string is translated;
+ * untranslated strings show in the default language meanwhile
+ */
+const TranslationBadge: React.FC<TranslationBadgeProps> = ({ type, data }) => {
+  const { locale } = useFlowEditor();
+  if (!locale) return null;
+
+  const missing = findMissingTranslations(type, data, locale);
+  if (missing.length === 0) return null;
+
+  return (
+    <span
+      className="px-1.5 rounded-full bg-amber-100 text-amber-700 text-[10px] font-medium"
+      title={`Not translated: ${missing.map(entry => entry.label).join(', ')}`}
+    >
+      {missing.length} untranslated
+    </span>
+  );
+};
+
+export default TranslationBadge;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { LocalizedNodeData, getTranslatableStrings, getTranslation, describeLocale } from '../utils/translations';
+import TemplateTextarea from './TemplateTextarea';
+
+interface TranslationEditorProps {
+  type: string;
+  data: LocalizedNodeData; // Node data, default language
+  locale: string; // Language being translated into
+  variableNames: string[]; // Offered in message templates
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (key: string, value: string, field: string) => void;
+}
+
+/**
+ * TranslationEditor - Settings section for a node's strings in another language
+ *
+ * One field per string (message, buttons, question, retry message, options),
+ * showing the default-language text above it; blank fields fall back to it
+ * Structure (adding buttons, input types...) is edited in the default language
+ */
+const TranslationEditor: React.FC<TranslationEditorProps> = ({ type, data, locale, variableNames, onChange }) => {
+  const strings = getTranslatableStrings(type, data);
+
+  if (strings.length === 0) {
+    return <div className="text-sm text-gray-500">This node has no text to translate.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-gray-500">
+        Translating into {describeLocale(locale)}. Blank fields use the default text.
+      </div>
+      {strings.map(entry => {
+        const value = getTranslation(data, locale, entry.key);
+        const field = `translation:${locale}:${entry.key}`;
+        return (
+          <div key={entry.key} className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">{entry.label}</label>
+            <div className="text-xs text-gray-500 break-words">{entry.source || <span className="italic">(empty)</span>}</div>
+            {entry.key === 'text' || entry.key === 'errorMessage' ? (
+              <TemplateTextarea
+                value={value}
+                onChange={(next) => onChange(entry.key, next, field)}
+                variableNames={variableNames}
+                rows={3}
+                placeholder={entry.source}
+              />
+            ) : (
+              <input
+                value={value}
+                onChange={(event) => onChange(entry.key, event.target.value, field)}
+                className={`w-full px-2 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 ${
+                  value.trim() ? 'border-gray-300' : 'border-amber-300'
+                }`}
+                placeholder={entry.source}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TranslationEditor;
@@ -0,0 +1,143 @@
+import React from 'react';
+import { FlowVariable, RegisteredVariable, VARIABLE_TYPES, VariableType, isValidVariableName } from '../utils/variables';
+
+interface VariablesPanelProps {
+  variables: FlowVariable[];
+  registry: RegisteredVariable[]; // Includes variables captured by input nodes
+  // field: set for typing so keystrokes merge into one undo step
+  onChange: (variables: FlowVariable[], field?: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * VariablesPanel - Modal for the flow-level variable declarations
+ *
+ * Purpose: declares the variables that condition nodes branch on
+ * Editing: name, type and default value per variable, with inline
+ * feedback for invalid or duplicate names (save validation blocks those too)
+ * Registry: variables that only collect-input nodes define are listed read-only
+ */
+const VariablesPanel: React.FC<VariablesPanelProps> = ({ variables, registry, onChange, onClose }) => {
+  const capturedOnly = registry.filter(variable => !variable.declared);
+
+  const update = (index: number, changes: Partial<FlowVariable>, field?: string) => {
+    onChange(variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)), field);
+  };
+
+  const add = () => {
+    // Pick the first free "variableN" name
+    let suffix = variables.length + 1;
+    while (variables.some(variable => variable.name === `variable${suffix}`)) suffix++;
+    onChange([...variables, { name: `variable${suffix}`, type: 'text', defaultValue: '' }]);
+  };
+
+  const remove = (index: number) => {
+    onChange(variables.filter((_, i) => i !== index));
+  };
+
+  const nameError = (variable: FlowVariable, index: number) => {
+    if (!isValidVariableName(variable.name)) return 'Use letters, digits and _ (not starting with a digit)';
+    if (variables.some((other, i) => i !== index && other.name === variable.name)) return 'Name already used';
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Flow variables"
+        className="bg-white rounded-lg shadow-xl w-[36rem] max-h-[80vh] flex flex-col"
+        onClick={(event) => event.stopPropagation()} // Keep clicks inside the dialog
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-800">Flow Variables</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-md transition-colors"
+            title="Close"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Declarations */}
+        <div className="overflow-y-auto p-4 space-y-2">
+          {variables.length === 0 && (
+            <div className="text-sm text-gray-500">
+              No declared variables yet. Variables hold values collected during a conversation and can be used by condition nodes.
+            </div>
+          )}
+
+          {variables.map((variable, index) => {
+            const error = nameError(variable, index);
+            return (
+              <div key={index} className="flex items-start gap-2">
+                <div className="flex-1">
+                  <input
+                    value={variable.name}
+                    onChange={(event) => update(index, { name: event.target.value }, `variable:${index}:name`)}
+                    className={`w-full px-2 py-1.5 border rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 ${
+                      error ? 'border-red-400' : 'border-gray-300'
+                    }`}
+                    placeholder="name"
+                  />
+                  {error && <div className="text-xs text-red-600 mt-0.5">{error}</div>}
+                </div>
+                <select
+                  value={variable.type}
+                  onChange={(event) => update(index, { type: event.target.value as VariableType })}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                >
+                  {VARIABLE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <input
+                  value={variable.defaultValue}
+                  onChange={(event) => update(index, { defaultValue: event.target.value }, `variable:${index}:default`)}
+                  className="w-32 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+                  placeholder="default"
+                />
+                <button
+                  onClick={() => remove(index)}
+                  className="p-1.5 rounded-md text-red-500 hover:bg-red-50"
+                  title="Remove variable"
+                  aria-label="Remove variable"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={add}
+            className="w-full py-1.5 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:bg-gray-50"
+          >
+            + Add variable
+          </button>
+
+          {/* Registry entries that come from collect-input nodes */}
+          {capturedOnly.length > 0 && (
+            <div className="pt-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Captured by Collect input nodes</div>
+              {capturedOnly.map(variable => (
+                <div key={variable.name} className="flex items-center justify-between text-sm py-1">
+                  <span className="font-mono text-indigo-700">{variable.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {variable.type} · {variable.capturedBy.length} node{variable.capturedBy.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariablesPanel;
@@ -0,0 +1,47 @@
+import { createContext, useContext } from 'react';
+import { NodeAnalytics } from '../utils/analytics';
+
+// Open canvas search - what TemplateText highlights and which nodes get a search outline
+export interface CanvasSearch {
+  query: string;
+  matchCase: boolean;
+  matchedNodeIds: ReadonlySet<string>;
+  currentNodeId: string | null; // Match the search panel last jumped to
+}
+
+// Imported conversation log - per-node stats and per-connection traffic on the open canvas
+export interface CanvasAnalytics {
+  nodes: ReadonlyMap<string, NodeAnalytics>;
+  edgeTraffic: ReadonlyMap<string, number>; // Edge ID -> moves along it
+  maxTraffic: number; // Busiest connection on the canvas, scales edge thickness
+}
+
+// Editor-wide view state (and editor actions) that custom nodes read while rendering
+// Kept out of node data so it never leaks into saved flows or undo history
+export interface FlowEditorContextValue {
+  activeNodeId: string | null; // Node the preview simulator is currently on
+  variableNames: ReadonlySet<string>; // Registered flow variables, for template highlighting
+  locale: string | null; // Language shown on the canvas - null for the flow's default language
+  search: CanvasSearch | null; // Set while the search bar has a query
+  analytics: CanvasAnalytics | null; // Set while a conversation log is overlaid
+  openGroup: (nodeId: string) => void; // Switch the canvas to a group's nested flow
+  openComments: (nodeId: string) => void; // Show the comments panel for a node
+}
+
+export const FlowEditorContext = createContext<FlowEditorContextValue>({
+  activeNodeId: null,
+  variableNames: new Set(),
+  locale: null,
+  search: null,
+  analytics: null,
+  openGroup: () => {},
+  openComments: () => {},
+});
+
+export const useFlowEditor = () => useContext(FlowEditorContext);
+
+// Node outline for search results - the current match stands out from the others
+export const getSearchRing = (search: CanvasSearch | null, nodeId: string) => {
+  if (!search?.matchedNodeIds.has(nodeId)) return '';
+  return search.currentNodeId === nodeId ? 'ring-4 ring-yellow-400' : 'ring-2 ring-yellow-200';
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getBezierPath } from 'reactflow';
+import { useFlowEditor } from '../context/FlowEditorContext';
+import { FlowEdgeData, EDGE_PRIORITY_LABELS, formatDelay } from './edgeData';
+
+/**
+ * FlowEdge - Connection with an optional label and metadata
+ *
+ * Design: the default bezier curve plus a pill at its midpoint holding the
+ * label, a ⏱ delay and a priority marker - edges without any of them draw
+ * as plain curves, so older flows look unchanged
+ * Selection: the pill turns blue with the edge; it ignores the pointer, so
+ * clicks still reach the edge underneath
+ * Analytics: with a conversation log imported, the line grows thicker with
+ * its traffic (relative to the busiest connection) and unused ones fade
+ */
+const FlowEdge: React.FC<EdgeProps<FlowEdgeData>> = ({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  interactionWidth,
+  selected,
+  data,
+}) => {
+  const { analytics } = useFlowEditor();
+  const [path, labelX, labelY] = getBezierPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+  const label = data?.label?.trim();
+  const traffic = analytics ? analytics.edgeTraffic.get(id) ?? 0 : null;
+  const hasCaption = !!label || !!data?.delayMs || !!data?.priority || traffic !== null;
+  const trafficStyle = analytics && traffic !== null
+    ? { ...style, strokeWidth: 1 + 7 * (traffic / Math.max(analytics.maxTraffic, 1)), opacity: traffic > 0 ? 1 : 0.35 }
+    : style;
+
+  return (
+    <>
+      <BaseEdge id={id} path={path} style={trafficStyle} markerEnd={markerEnd} interactionWidth={interactionWidth} />
+      {hasCaption && (
+        <EdgeLabelRenderer>
+          <div
+            className={`absolute px-2 py-0.5 rounded-full border text-xs shadow-sm flex items-center gap-1.5 ${
+              selected ? 'bg-blue-50 border-blue-400 text-blue-800' : 'bg-white border-gray-300 text-gray-700'
+            }`}
+            style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`, pointerEvents: 'none' }} // Centred on the curve
+          >
+            {label && <span className="max-w-[10rem] truncate">{label}</span>}
+            {traffic !== null && <span className="text-indigo-600">👥 {traffic}</span>}
+            {!!data?.delayMs && <span className="text-gray-500">⏱ {formatDelay(data.delayMs)}</span>}
+            {data?.priority && (
+              <span className={data.priority === 'high' ? 'text-red-600' : 'text-gray-400'}>
+                {data.priority === 'high' ? '▲' : '▼'} {EDGE_PRIORITY_LABELS[data.priority]}
+              </span>
+            )}
+          </div>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+};
+
+export default FlowEdge;
@@ -0,0 +1,26 @@
+// Connection data shared by the canvas, validation, file import/export and the engine
+// Kept free of React so the engine can run without the editor
+
+export type EdgePriority = 'low' | 'high'; // Unset means normal
+
+export interface FlowEdgeData {
+  label: string; // Shown on the connection, empty for none
+  delayMs?: number; // Pause before the next message is sent
+  priority?: EdgePriority;
+}
+
+export const EDGE_PRIORITY_LABELS: Record<EdgePriority, string> = {
+  high: 'High',
+  low: 'Low',
+};
+
+export const FLOW_EDGE_TYPE = 'flowEdge';
+
+// Type identifiers accepted in saved and imported flow files
+export const KNOWN_EDGE_TYPES = [FLOW_EDGE_TYPE];
+
+// Data for a freshly drawn connection - no label or metadata yet
+export const createEdgeData = (): FlowEdgeData => ({ label: '' });
+
+// Short caption for a delay, e.g. "1.5s"
+export const formatDelay = (delayMs: number) => `${Number((delayMs / 1000).toFixed(1))}s`;
@@ -0,0 +1,11 @@
+import { EdgeTypes } from 'reactflow';
+import FlowEdge from './FlowEdge';
+import { FLOW_EDGE_TYPE } from './edgeData';
+
+// Define custom edge types for React Flow
+// Every connection uses FlowEdge; edges saved before it existed render with it too (see defaultEdgeOptions in App.tsx)
+export const edgeTypes: EdgeTypes = {
+  [FLOW_EDGE_TYPE]: FlowEdge, // Bezier curve with an optional label, delay and priority
+};
+
+export { FLOW_EDGE_TYPE, createEdgeData } from './edgeData';
@@ -0,0 +1,263 @@
+import { FlowNodeData } from '../nodes';
+import { ButtonNodeData, ReplyButton } from '../nodes/ButtonNode';
+import { ConditionNodeData } from '../nodes/ConditionNode';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { MediaNodeData } from '../nodes/MediaNode';
+import { TextNodeData } from '../nodes/TextNode';
+import { DEFAULT_BRANCH_ID } from '../utils/conditions';
+import { HTTP_SUCCESS_HANDLE, HTTP_FAILURE_HANDLE } from '../utils/http';
+import { OUTSIDE_HOURS_HANDLE } from '../utils/schedule';
+
+// The parts of a node the engine reads - React Flow nodes and saved flow nodes both fit
+export interface GraphNode {
+  id: string;
+  type?: string;
+  data: FlowNodeData; // Node-type specific - narrow by `type` before reading fields
+}
+
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null; // Reply button / condition case ID, null for the single handle
+}
+
+export interface FlowGraph<N extends GraphNode = GraphNode, E extends GraphEdge = GraphEdge> {
+  nodes: N[];
+  edges: E[];
+  nodesById: Map<string, N>;
+  edgesById: Map<string, E>;
+  outgoing: Map<string, E[]>; // Node ID -> edges leaving it
+  incoming: Map<string, E[]>; // Node ID -> edges arriving at it
+}
+
+export interface ExpandedFlow {
+  nodes: GraphNode[]; // Every non-group node, at any depth
+  edges: GraphEdge[]; // Group entries and exits rewired to the steps inside
+  entries: Map<string, string>; // Group ID -> first real node inside it
+}
+
+/**
+ * Flow graph model - shared by validation and the runtime engine
+ *
+ * Both sides read a flow through the same adjacency maps and the same
+ * handle rules, so a flow that validates is walked exactly the way the
+ * validator checked it. Nothing here depends on React or React Flow
+ *
+ * Handles: plain message and input nodes have one unnamed source handle
+ * (null), button nodes (and media cards with buttons) one per reply button,
+ * condition nodes one per case plus the "Otherwise" default, HTTP request
+ * nodes "success" and "failure"; message nodes with business hours add
+ * "outside-hours" next to their unnamed handle
+ * Annotations: sticky notes sit on the canvas but are no part of the
+ * conversation - they have no handles and are left out wherever a flow is
+ * checked or walked
+ * Scale: a graph is indexed once (by ID, and edges per node) so every lookup
+ * after that is constant time, and the walks below are iterative - flows of
+ * thousands of nodes neither scan the edge list per node nor overflow the stack
+ */
+
+export const buildFlowGraph = <N extends GraphNode, E extends GraphEdge>(nodes: N[], edges: E[]): FlowGraph<N, E> => {
+  const outgoing = new Map<string, E[]>(nodes.map(node => [node.id, []]));
+  const incoming = new Map<string, E[]>(nodes.map(node => [node.id, []]));
+  edges.forEach(edge => {
+    outgoing.get(edge.source)?.push(edge);
+    incoming.get(edge.target)?.push(edge);
+  });
+  return {
+    nodes,
+    edges,
+    nodesById: new Map(nodes.map(node => [node.id, node])),
+    edgesById: new Map(edges.map(edge => [edge.id, edge])),
+    outgoing,
+    incoming,
+  };
+};
+
+// Canvas annotations (sticky notes) - never connected, validated or run
+export const isAnnotation = (node: GraphNode) => node.type === 'stickyNote';
+
+export const withoutAnnotations = <N extends GraphNode>(nodes: N[]): N[] => nodes.filter(node => !isAnnotation(node));
+
+// Reply buttons with a handle each - button nodes, and media cards that have any buttons
+// null for every other node, including cards without buttons (they have the single handle)
+export const getReplyButtons = (node: GraphNode): ReplyButton[] | null => {
+  if (node.type === 'buttonNode') return (node.data as ButtonNodeData)?.buttons || [];
+  if (node.type === 'mediaNode') {
+    const media = node.data as MediaNodeData;
+    if (media?.kind === 'card' && media.buttons?.length > 0) return media.buttons;
+  }
+  return null;
+};
+
+// Source handles a node exposes - null is the single unnamed handle of plain message nodes
+export const getSourceHandleIds = (node: GraphNode): (string | null)[] => {
+  if (isAnnotation(node)) {
+    return [];
+  }
+  const buttons = getReplyButtons(node);
+  if (buttons) {
+    return buttons.map(button => button.id);
+  }
+  if (node.type === 'conditionNode') {
+    return [...((node.data as ConditionNodeData)?.cases || []).map(branch => branch.id), DEFAULT_BRANCH_ID];
+  }
+  if (node.type === 'httpNode') {
+    return [HTTP_SUCCESS_HANDLE, HTTP_FAILURE_HANDLE];
+  }
+  if (node.type === 'textNode' && (node.data as TextNodeData)?.businessHours) {
+    return [null, OUTSIDE_HOURS_HANDLE];
+  }
+  return [null];
+};
+
+// Caption of a handle on nodes with several, e.g. a reply button's label - null for the single handle
+export const getHandleLabel = (node: GraphNode, handleId: string | null | undefined): string | null => {
+  if (!handleId) return null;
+  const buttons = getReplyButtons(node);
+  if (buttons) {
+    const button = buttons.find(candidate => candidate.id === handleId);
+    return button ? button.label || 'button' : null;
+  }
+  if (node.type === 'conditionNode') {
+    if (handleId === DEFAULT_BRANCH_ID) return 'otherwise';
+    const index = ((node.data as ConditionNodeData)?.cases || []).findIndex(candidate => candidate.id === handleId);
+    return index >= 0 ? `case ${index + 1}` : null;
+  }
+  if (node.type === 'httpNode') {
+    return handleId === HTTP_SUCCESS_HANDLE ? 'success' : 'failure';
+  }
+  if (handleId === OUTSIDE_HOURS_HANDLE) return 'outside hours';
+  return null;
+};
+
+// Node a handle leads to, or null when nothing is connected to it
+export const followHandle = (graph: FlowGraph, nodeId: string, handleId: string | null): string | null => {
+  const edge = (graph.outgoing.get(nodeId) || []).find(candidate => (candidate.sourceHandle ?? null) === handleId);
+  return edge?.target ?? null;
+};
+
+// Handles of a node no edge leaves from - where a conversation would otherwise end
+export const getOpenHandles = (graph: FlowGraph, nodeId: string): (string | null)[] => {
+  const node = graph.nodesById.get(nodeId);
+  if (!node) return [];
+  const used = new Set((graph.outgoing.get(nodeId) || []).map(edge => edge.sourceHandle ?? null));
+  return getSourceHandleIds(node).filter(handleId => !used.has(handleId));
+};
+
+// Nodes with connections but none arriving - a valid flow has exactly one
+// Isolated nodes are left out; validation reports them separately
+export const findStartNodes = <N extends GraphNode>(graph: FlowGraph<N>): N[] => {
+  return graph.nodes.filter(node => graph.incoming.get(node.id)!.length === 0 && graph.outgoing.get(node.id)!.length > 0);
+};
+
+// Node IDs reachable from a node by following connections
+export const findReachable = (graph: FlowGraph, startNodeId: string): Set<string> => {
+  const reached = new Set([startNodeId]);
+  const queue = [startNodeId];
+  for (let head = 0; head < queue.length; head++) { // Index instead of shift() - no re-copying on long queues
+    const id = queue[head];
+    (graph.outgoing.get(id) || []).forEach(edge => {
+      if (!reached.has(edge.target)) {
+        reached.add(edge.target);
+        queue.push(edge.target);
+      }
+    });
+  }
+  return reached;
+};
+
+// Strongly connected components (Tarjan) - every cycle lives inside one component
+// Runs on an explicit stack of (node, next edge) frames, so long chains cannot overflow the call stack
+export const findStronglyConnected = (graph: FlowGraph): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const open = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+  };
+
+  graph.nodes.forEach(root => {
+    if (index.has(root.id)) return;
+    open(root.id);
+    const frames = [{ id: root.id, next: 0 }];
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const leaving = graph.outgoing.get(frame.id) || [];
+      if (frame.next < leaving.length) {
+        const { target } = leaving[frame.next++];
+        if (!graph.nodesById.has(target)) continue;
+        if (!index.has(target)) {
+          open(target);
+          frames.push({ id: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      // Every edge followed - finish the node and report back to its caller
+      frames.pop();
+      const caller = frames[frames.length - 1];
+      if (caller) {
+        lowLink.set(caller.id, Math.min(lowLink.get(caller.id)!, lowLink.get(frame.id)!));
+      }
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  });
+  return components;
+};
+
+// Replace every group with its contents so a conversation can walk one flat graph
+// Edges into a group lead to its entry step; the group's exit edge is attached to
+// every open handle inside it (the steps that would otherwise end the conversation)
+export const expandGroups = (nodes: GraphNode[], edges: GraphEdge[]): ExpandedFlow => {
+  const flat: ExpandedFlow = { nodes: [], edges: [], entries: new Map() };
+  const groups = new Map<string, FlowGraph>();
+
+  withoutAnnotations(nodes).forEach(node => {
+    if (node.type !== 'groupNode') {
+      flat.nodes.push(node);
+      return;
+    }
+    const data = node.data as GroupNodeData;
+    const inner = expandGroups(data.flow.nodes, data.flow.edges);
+    groups.set(node.id, buildFlowGraph(inner.nodes, inner.edges));
+    flat.nodes.push(...inner.nodes);
+    flat.edges.push(...inner.edges);
+    inner.entries.forEach((entry, groupId) => flat.entries.set(groupId, entry));
+    flat.entries.set(node.id, inner.entries.get(data.entryNodeId) ?? data.entryNodeId);
+  });
+
+  edges.forEach(edge => {
+    const target = flat.entries.get(edge.target) ?? edge.target;
+    const group = groups.get(edge.source);
+    if (!group) {
+      flat.edges.push({ ...edge, target });
+      return;
+    }
+    group.nodes.forEach(node => {
+      getOpenHandles(group, node.id).forEach(handleId => {
+        flat.edges.push({ id: `${edge.id}:${node.id}:${handleId ?? 'out'}`, source: node.id, sourceHandle: handleId, target });
+      });
+    });
+  });
+
+  return flat;
+};
@@ -0,0 +1,22 @@
+// Public surface of the runtime engine - import from 'src/engine' outside the editor
+export {
+  createRuntimeFlow,
+  compileFlow,
+  startConversation,
+  sendMessage,
+  receiveResponse,
+  DEFAULT_RETRY_MESSAGE,
+} from './runtime';
+export { executeHttpRequest } from '../utils/http';
+export type {
+  RuntimeFlow,
+  CompileResult,
+  ConversationState,
+  ConversationTurn,
+  BotResponse,
+  RuntimeChoice,
+  EndReason,
+} from './runtime';
+export type { FlowGraph, GraphNode, GraphEdge } from './graph';
+export type { HttpRequest, HttpResult } from '../utils/http';
+export type { MediaMessage } from '../utils/media';
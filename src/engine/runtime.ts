@@ -0,0 +1,335 @@
+import { InputNodeData } from '../nodes/InputNode';
+import { ReplyButton } from '../nodes/ButtonNode';
+import { ConditionNodeData } from '../nodes/ConditionNode';
+import { FlowData, validateFlow } from '../utils/validation';
+import { FlowVariable, getDefaultValues } from '../utils/variables';
+import { evaluateCondition, describeCase, DEFAULT_BRANCH_ID } from '../utils/conditions';
+import { validateAnswer } from '../utils/answers';
+import { renderTemplate } from '../utils/templates';
+import {
+  HttpRequest,
+  HttpResult,
+  HTTP_SUCCESS_HANDLE,
+  HTTP_FAILURE_HANDLE,
+  buildHttpRequest,
+  isSuccessStatus,
+  mapResponse,
+  mockResult,
+} from '../utils/http';
+import { HttpNodeData } from '../nodes/HttpNode';
+import { MediaNodeData } from '../nodes/MediaNode';
+import { MediaMessage, buildMediaMessage } from '../utils/media';
+import { TextNodeData } from '../nodes/TextNode';
+import { OUTSIDE_HOURS_HANDLE, isWithinBusinessHours, describeBusinessHours } from '../utils/schedule';
+import { localizeNodeData } from '../utils/translations';
+import { FlowGraph, GraphNode, GraphEdge, buildFlowGraph, expandGroups, findStartNodes, followHandle, getReplyButtons, withoutAnnotations } from './graph';
+
+// Sent when an answer fails validation and the input node has no message of its own
+export const DEFAULT_RETRY_MESSAGE = 'Sorry, that is not a valid answer. Please try again.';
+
+// A flow ready to run - groups expanded into one flat graph
+export interface RuntimeFlow {
+  graph: FlowGraph;
+  entries: Map<string, string>; // Group ID -> first real node inside it
+  startNodeId: string | null; // null when the flow has no single entry point
+  variables: FlowVariable[]; // Declarations, for the starting values
+}
+
+export interface CompileResult {
+  isValid: boolean;
+  errorMessage?: string;
+  flow?: RuntimeFlow;
+}
+
+// Everything a conversation needs between messages - plain JSON, safe to store anywhere
+export interface ConversationState {
+  status: 'waiting' | 'ended';
+  nodeId: string | null; // Node waiting for the user (or for a request); null once ended
+  variables: Record<string, string>;
+  testMode?: boolean; // HTTP request nodes answer with their mock response instead of the network
+  locale?: string; // Language of the bot's messages - untranslated strings fall back to the default text
+  now?: string; // ISO timestamp business hours are checked against instead of the clock, e.g. to preview closed hours
+}
+
+// Per-conversation settings carried from turn to turn
+type ConversationMode = Pick<ConversationState, 'testMode' | 'locale' | 'now'>;
+
+export interface RuntimeChoice {
+  id: string; // Reply button ID
+  label: string;
+}
+
+export type EndReason =
+  | 'dead-end' // No outgoing connection
+  | 'loop' // Would revisit a node without waiting for the user, i.e. repeat forever
+  | 'missing-node' // The flow changed under a running conversation
+  | 'no-start'; // The flow has no single entry point
+
+export type BotResponse =
+  | { type: 'message'; nodeId: string; text: string; delayMs?: number; typingMs?: number } // Bot bubble, templates already filled in - wait delayMs, show typing for typingMs, then send
+  | { type: 'media'; nodeId: string; media: MediaMessage } // Image, video, document or card - the host sends asset.url
+  | { type: 'branch'; nodeId: string; note: string } // A condition picked a branch, or business hours diverted a message
+  | { type: 'choices'; nodeId: string; choices: RuntimeChoice[] } // Quick replies to pick from
+  | { type: 'input'; nodeId: string; input: InputNodeData } // Waiting for a typed answer
+  | { type: 'retry'; nodeId: string; text: string } // Answer rejected, asking again
+  | { type: 'stored'; nodeId: string; variable: string; value: string } // Answer or response value saved to a variable
+  | { type: 'request'; nodeId: string; request: HttpRequest } // Send this, then call receiveResponse
+  | { type: 'response'; nodeId: string; request: HttpRequest; result: HttpResult; success: boolean } // Which handle a request took
+  | { type: 'end'; nodeId: string | null; reason: EndReason };
+
+export interface ConversationTurn {
+  state: ConversationState;
+  responses: BotResponse[]; // In the order the user should see them
+}
+
+/**
+ * Runtime engine - runs saved flow JSON without the editor
+ *
+ * Pure functions over plain data: nothing here touches React, the DOM or
+ * storage, so a server, a test or the editor preview can all drive the
+ * same conversation logic
+ *
+ * Turns: startConversation and sendMessage each return the next state and
+ * the bot's responses. The bot keeps sending messages and following
+ * connections until it reaches a button node, media card with buttons or
+ * input node (status 'waiting') or the conversation ends
+ * Media: media nodes produce a 'media' response holding the asset reference;
+ * the host delivers the file from its URL
+ * Loops: visiting a node twice without waiting for the user ends the
+ * conversation - user replies reset the tracking, so "Back to menu" style
+ * loops work
+ * HTTP requests: the engine never touches the network itself. In test mode
+ * a request node answers with its mock response straight away; otherwise the
+ * turn ends with a 'request' response and the host sends it (e.g. with
+ * executeHttpRequest) and passes the result to receiveResponse
+ * Languages: with a `locale`, messages, buttons and questions use the node's
+ * translations; choice answers are stored as the default-language option so
+ * conditions work the same in every language
+ * Timing: message responses carry the node's delay and typing indicator for
+ * the host to wait out. Outside a node's business hours its message is not
+ * sent and the "Outside hours" connection is followed; the check uses the
+ * real clock unless the conversation fixes `now`
+ * Graph: read through the shared model in ./graph, the same one validation uses
+ */
+
+// Flow as the editor holds it - no validation, so the preview can run unfinished flows
+export const createRuntimeFlow = (nodes: GraphNode[], edges: GraphEdge[], variables: FlowVariable[] = []): RuntimeFlow => {
+  const expanded = expandGroups(nodes, edges);
+  const steps = withoutAnnotations(nodes);
+  const starts = steps.length === 1 ? steps : findStartNodes(buildFlowGraph(steps, edges));
+  const startNodeId = starts.length === 1 ? starts[0].id : null;
+
+  return {
+    graph: buildFlowGraph(expanded.nodes, expanded.edges),
+    entries: expanded.entries,
+    startNodeId: startNodeId && (expanded.entries.get(startNodeId) ?? startNodeId),
+    variables,
+  };
+};
+
+// Saved flow data (see createFlowData) checked by the editor's own validation, ready to run
+export const compileFlow = (flowData: FlowData): CompileResult => {
+  const validation = validateFlow(flowData.nodes, flowData.edges, flowData.variables, flowData.locales);
+  if (!validation.isValid) {
+    return { isValid: false, errorMessage: validation.errorMessage };
+  }
+  return { isValid: true, flow: createRuntimeFlow(flowData.nodes, flowData.edges, flowData.variables) };
+};
+
+const ended = (variables: Record<string, string>): ConversationState => ({ status: 'ended', nodeId: null, variables });
+
+// Record a request's outcome and pick the handle to continue from
+// Mappings only apply to successful responses
+const settleRequest = (
+  flow: RuntimeFlow,
+  node: GraphNode,
+  request: HttpRequest,
+  result: HttpResult,
+  variables: Record<string, string>,
+  responses: BotResponse[],
+): { variables: Record<string, string>; target: string | null } => {
+  const success = !result.error && isSuccessStatus(result.status);
+  responses.push({ type: 'response', nodeId: node.id, request, result, success });
+
+  const mapped = success ? mapResponse(node.data as HttpNodeData, result.body) : {};
+  Object.entries(mapped).forEach(([variable, value]) => responses.push({ type: 'stored', nodeId: node.id, variable, value }));
+  return {
+    variables: { ...variables, ...mapped },
+    target: followHandle(flow.graph, node.id, success ? HTTP_SUCCESS_HANDLE : HTTP_FAILURE_HANDLE),
+  };
+};
+
+// Send messages and follow connections from nodeId until the user has to answer
+const run = (
+  flow: RuntimeFlow,
+  nodeId: string | null,
+  initialVariables: Record<string, string>,
+  mode: ConversationMode,
+  responses: BotResponse[],
+): ConversationTurn => {
+  const visited = new Set<string>();
+  let variables = initialVariables;
+  let current = nodeId;
+  let previous: string | null = null;
+
+  for (;;) {
+    if (!current) {
+      responses.push({ type: 'end', nodeId: previous, reason: 'dead-end' });
+      return { state: ended(variables), responses };
+    }
+    if (visited.has(current)) {
+      responses.push({ type: 'end', nodeId: current, reason: 'loop' });
+      return { state: ended(variables), responses };
+    }
+
+    const node = flow.graph.nodesById.get(current);
+    if (!node) {
+      responses.push({ type: 'end', nodeId: current, reason: 'missing-node' });
+      return { state: ended(variables), responses };
+    }
+    visited.add(current);
+    previous = current;
+
+    if (node.type === 'conditionNode') {
+      const cases = (node.data as ConditionNodeData)?.cases || [];
+      const branchId = evaluateCondition(cases, variables);
+      const matched = cases.find(branch => branch.id === branchId);
+      responses.push({
+        type: 'branch',
+        nodeId: node.id,
+        note: branchId === DEFAULT_BRANCH_ID || !matched ? 'Condition: no case matched, taking "Otherwise"' : `Condition: ${describeCase(matched)}`,
+      });
+      current = followHandle(flow.graph, node.id, branchId);
+      continue;
+    }
+
+    if (node.type === 'httpNode') {
+      const request = buildHttpRequest(node.data as HttpNodeData, variables);
+      if (!mode.testMode) {
+        responses.push({ type: 'request', nodeId: node.id, request });
+        return { state: { status: 'waiting', nodeId: node.id, variables, ...mode }, responses };
+      }
+      ({ variables, target: current } = settleRequest(flow, node, request, mockResult(node.data as HttpNodeData), variables, responses));
+      continue;
+    }
+
+    const hours = node.type === 'textNode' ? (node.data as TextNodeData).businessHours : undefined;
+    if (hours && !isWithinBusinessHours(hours, mode.now ? new Date(mode.now) : new Date())) {
+      responses.push({ type: 'branch', nodeId: node.id, note: `Outside business hours, message not sent: ${describeBusinessHours(hours)}` });
+      current = followHandle(flow.graph, node.id, OUTSIDE_HOURS_HANDLE);
+      continue;
+    }
+
+    const data = localizeNodeData(node.type, node.data, mode.locale);
+    if (node.type === 'mediaNode') {
+      responses.push({ type: 'media', nodeId: node.id, media: buildMediaMessage(data as MediaNodeData, variables) });
+    } else {
+      const { delayMs, typingMs } = node.data as TextNodeData; // Only message nodes have timing
+      responses.push({
+        type: 'message',
+        nodeId: node.id,
+        text: renderTemplate((data as TextNodeData)?.text || '', variables), // Button and input nodes send their text the same way
+        ...(delayMs ? { delayMs } : {}),
+        ...(typingMs ? { typingMs } : {}),
+      });
+    }
+
+    if (getReplyButtons(node)) {
+      const buttons: ReplyButton[] = getReplyButtons({ ...node, data }) || [];
+      if (buttons.length === 0) {
+        current = null; // Nothing to pick - the conversation ends here
+        continue;
+      }
+      responses.push({ type: 'choices', nodeId: node.id, choices: buttons.map(({ id, label }) => ({ id, label })) });
+      return { state: { status: 'waiting', nodeId: node.id, variables, ...mode }, responses };
+    }
+    if (node.type === 'inputNode') {
+      responses.push({ type: 'input', nodeId: node.id, input: data as InputNodeData });
+      return { state: { status: 'waiting', nodeId: node.id, variables, ...mode }, responses };
+    }
+
+    current = followHandle(flow.graph, node.id, null);
+  }
+};
+
+// Begin a conversation at the flow's entry point (or any node, e.g. for previews)
+// Variables start at their declared defaults; `variables` overrides some of them
+export const startConversation = (
+  flow: RuntimeFlow,
+  options: { startNodeId?: string; variables?: Record<string, string>; testMode?: boolean; locale?: string; now?: string } = {},
+): ConversationTurn => {
+  const variables = { ...getDefaultValues(flow.variables), ...options.variables };
+  const startNodeId = options.startNodeId
+    ? flow.entries.get(options.startNodeId) ?? options.startNodeId // Starting at a group starts at its entry
+    : flow.startNodeId;
+
+  if (!startNodeId) {
+    return { state: ended(variables), responses: [{ type: 'end', nodeId: null, reason: 'no-start' }] };
+  }
+  return run(flow, startNodeId, variables, { testMode: !!options.testMode, locale: options.locale, now: options.now }, []);
+};
+
+// Handle the user's message and continue the conversation
+// At a button node (or media card) the message picks a reply by button ID or (case-insensitive) label,
+// translated or not;
+// at an input node it is the answer, validated against the node's input type
+export const sendMessage = (flow: RuntimeFlow, state: ConversationState, message: string): ConversationTurn => {
+  if (state.status === 'ended' || !state.nodeId) {
+    return { state, responses: [] };
+  }
+
+  const node = flow.graph.nodesById.get(state.nodeId);
+  if (!node) {
+    return { state: ended(state.variables), responses: [{ type: 'end', nodeId: state.nodeId, reason: 'missing-node' }] };
+  }
+
+  const mode: ConversationMode = { testMode: !!state.testMode, locale: state.locale, now: state.now };
+  const data = localizeNodeData(node.type, node.data, state.locale);
+
+  if (getReplyButtons(node)) {
+    const buttons: ReplyButton[] = getReplyButtons({ ...node, data }) || [];
+    const reply = message.trim().toLowerCase();
+    const matchesLabel = (candidate: ReplyButton) => candidate.label.trim().toLowerCase() === reply;
+    const button = buttons.find(candidate => candidate.id === message)
+      ?? buttons.find(matchesLabel)
+      ?? (getReplyButtons(node) || []).find(matchesLabel);
+    if (!button) {
+      // Not one of the replies - offer them again
+      return { state, responses: [{ type: 'choices', nodeId: node.id, choices: buttons.map(({ id, label }) => ({ id, label })) }] };
+    }
+    return run(flow, followHandle(flow.graph, node.id, button.id), state.variables, mode, []);
+  }
+
+  if (node.type === 'inputNode') {
+    const input = data as InputNodeData;
+    const answer = validateAnswer(input.inputType, message, input.choices);
+    const choiceIndex = input.inputType === 'choice' && answer !== null ? input.choices.indexOf(answer) : -1;
+    const value = choiceIndex >= 0 ? (node.data as InputNodeData).choices[choiceIndex] : answer; // Store the default-language option
+    if (value === null) {
+      return {
+        state,
+        responses: [{ type: 'retry', nodeId: node.id, text: renderTemplate(input.errorMessage || DEFAULT_RETRY_MESSAGE, state.variables) }],
+      };
+    }
+
+    const variables = { ...state.variables, [input.variable]: value };
+    return run(flow, followHandle(flow.graph, node.id, null), variables, mode, [
+      { type: 'stored', nodeId: node.id, variable: input.variable, value },
+    ]);
+  }
+
+  return { state, responses: [] }; // Only button nodes, media cards and input nodes wait for the user
+};
+
+// Continue after the host sent a request the engine asked for
+export const receiveResponse = (flow: RuntimeFlow, state: ConversationState, result: HttpResult): ConversationTurn => {
+  const node = state.status === 'waiting' && state.nodeId ? flow.graph.nodesById.get(state.nodeId) : undefined;
+  if (node?.type !== 'httpNode') {
+    return { state, responses: [] }; // Not waiting for a request
+  }
+
+  const responses: BotResponse[] = [];
+  const request = buildHttpRequest(node.data as HttpNodeData, state.variables);
+  const { variables, target } = settleRequest(flow, node, request, result, state.variables, responses);
+  return run(flow, target, variables, { testMode: !!state.testMode, locale: state.locale, now: state.now }, responses);
+};
@@ -0,0 +1,71 @@
+import { useCallback, useRef, useEffect } from 'react';
+import { Node, Edge } from 'reactflow';
+import { computeLayout } from '../utils/layout';
+import { withoutAnnotations } from '../engine/graph';
+
+interface UseAutoLayoutOptions {
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: (update: (nodes: Node[]) => Node[]) => void;
+  takeSnapshot: () => void; // Undo point for the whole arrangement
+  onArranged?: (selectionOnly: boolean) => void; // Called once nodes reach their final positions
+}
+
+const ANIMATION_MS = 400;
+
+/**
+ * useAutoLayout - Animated "Auto-arrange" for the canvas
+ *
+ * Usage: arrange() lays out the whole flow, arrange(true) only the selected
+ * nodes (edges to unselected nodes are ignored); sticky notes stay where
+ * they were placed
+ * History: one snapshot is taken before the animation starts, so the whole
+ * arrangement undoes in a single step; intermediate frames are not recorded
+ * Animation: nodes ease from their current to their computed positions; the
+ * last frame sets the exact layout, and starting again cancels a running one
+ */
+export const useAutoLayout = ({ nodes, edges, setNodes, takeSnapshot, onArranged }: UseAutoLayoutOptions) => {
+  const frameRef = useRef<number | null>(null);
+
+  // Stop animating if the editor goes away mid-way
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const arrange = useCallback((selectionOnly = false) => {
+    const targets = withoutAnnotations(selectionOnly ? nodes.filter(node => node.selected) : nodes);
+    if (targets.length === 0) return;
+
+    const positions = computeLayout(targets, edges);
+    const starts = new Map(targets.map(node => [node.id, node.position]));
+
+    takeSnapshot();
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+
+    const startedAt = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min((now - startedAt) / ANIMATION_MS, 1);
+      const eased = 1 - Math.pow(1 - progress, 3); // Ease-out cubic
+
+      setNodes(current => current.map(node => {
+        const from = starts.get(node.id);
+        const to = positions.get(node.id);
+        if (!from || !to) return node;
+        return {
+          ...node,
+          position: { x: from.x + (to.x - from.x) * eased, y: from.y + (to.y - from.y) * eased },
+        };
+      }));
+
+      if (progress < 1) {
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        frameRef.current = null;
+        onArranged?.(selectionOnly);
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, [nodes, edges, setNodes, takeSnapshot, onArranged]);
+
+  return { arrange };
+};
@@ -0,0 +1,157 @@
+import React, { useCallback, useMemo, useRef } from 'react';
+import { Node, Edge, ReactFlowInstance } from 'reactflow';
+import { FlowGraph, isAnnotation } from '../engine/graph';
+import { NavigationDirection, describeNodeForScreenReader, findNeighbour } from '../utils/accessibility';
+
+interface UseCanvasKeyboardOptions {
+  graph: FlowGraph<Node, Edge>; // The open canvas, indexed once by the editor
+  setNodes: (update: (nodes: Node[]) => Node[]) => void;
+  takeSnapshot: (key?: string) => void;
+  reactFlowInstance: ReactFlowInstance | null;
+  readOnly: boolean; // Compare overlay - keys are ignored
+  onOpenSettings: (nodeId: string) => void;
+  onStartConnect: (nodeId: string) => void;
+  announce: (message: string) => void;
+}
+
+const NUDGE_DISTANCE = 10; // Pixels per Alt+arrow press
+const LARGE_NUDGE_DISTANCE = 50; // With Shift held as well
+
+const DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowLeft: 'parent',
+  ArrowRight: 'child',
+  ArrowUp: 'previous',
+  ArrowDown: 'next',
+};
+
+const NUDGES: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+// Said when a move has nowhere to go
+const DEAD_ENDS: Record<NavigationDirection, string> = {
+  parent: 'No step leads here',
+  child: 'No connected next step',
+  previous: 'First of its siblings',
+  next: 'Last of its siblings',
+};
+
+// ID of the canvas node that has keyboard focus, if any
+export const getFocusedNodeId = (): string | null => {
+  const element = document.activeElement as HTMLElement | null;
+  return element?.classList.contains('react-flow__node') ? element.dataset.id ?? null : null;
+};
+
+// Newly added nodes only reach the DOM a frame or two after the state update
+const focusNodeElement = (nodeId: string, attempts = 5) => {
+  requestAnimationFrame(() => {
+    const element = document.querySelector<HTMLElement>(`.react-flow__node[data-id="${CSS.escape(nodeId)}"]`);
+    if (element) {
+      element.focus({ preventScroll: true }); // React Flow pans the view, not the page
+    } else if (attempts > 1) {
+      focusNodeElement(nodeId, attempts - 1);
+    }
+  });
+};
+
+/**
+ * useCanvasKeyboard - Keyboard equivalents for canvas mouse interactions
+ *
+ * Focus: nodes are tab stops (React Flow renders them focusable); keys act on
+ * the focused node and are ignored inside fields rendered within a node
+ * Keys: arrows move between nodes along edges (see findNeighbour), Alt+arrows
+ * nudge the node (Shift for larger steps), Enter opens its settings and C
+ * starts a connection from it
+ * Labels: nodes come back with an aria-label summarising them, which screen
+ * readers announce on focus. A node keeps its labelled object while neither
+ * it nor its label changes, so React Flow only re-renders nodes that did
+ * History: consecutive nudges of one node coalesce into one undo step
+ */
+export const useCanvasKeyboard = ({
+  graph,
+  setNodes,
+  takeSnapshot,
+  reactFlowInstance,
+  readOnly,
+  onOpenSettings,
+  onStartConnect,
+  announce,
+}: UseCanvasKeyboardOptions) => {
+  const labelled = useRef(new WeakMap<Node, Node>()); // Canvas node -> its labelled copy
+
+  const labelledNodes = useMemo(
+    () => graph.nodes.map(node => {
+      const ariaLabel = describeNodeForScreenReader(graph, node);
+      const previous = labelled.current.get(node);
+      if (previous?.ariaLabel === ariaLabel) return previous;
+      const next = { ...node, ariaLabel };
+      labelled.current.set(node, next);
+      return next;
+    }),
+    [graph],
+  );
+
+  // Move keyboard focus to a node, panning it into the middle of the view
+  // pan: false for nodes just added at the view centre
+  const focusNode = useCallback((nodeId: string, pan = true) => {
+    const node = graph.nodesById.get(nodeId);
+    if (node && pan) {
+      reactFlowInstance?.setCenter(
+        node.position.x + (node.width ?? 0) / 2,
+        node.position.y + (node.height ?? 0) / 2,
+        { zoom: reactFlowInstance.getZoom(), duration: 200 },
+      );
+    }
+    focusNodeElement(nodeId);
+  }, [graph, reactFlowInstance]);
+
+  const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+    const target = event.target as HTMLElement;
+    if (readOnly || !target.classList.contains('react-flow__node') || event.ctrlKey || event.metaKey) return;
+    const nodeId = target.dataset.id;
+    if (!nodeId) return;
+
+    if (event.altKey && NUDGES[event.key]) {
+      event.preventDefault();
+      const distance = event.shiftKey ? LARGE_NUDGE_DISTANCE : NUDGE_DISTANCE;
+      const { x, y } = NUDGES[event.key];
+      const node = graph.nodesById.get(nodeId);
+      if (!node) return;
+
+      const position = { x: node.position.x + x * distance, y: node.position.y + y * distance };
+      takeSnapshot(`move:${nodeId}`);
+      setNodes(current => current.map(candidate => (candidate.id === nodeId ? { ...candidate, position } : candidate)));
+      announce(`Moved to ${Math.round(position.x)}, ${Math.round(position.y)}`);
+      return;
+    }
+
+    if (DIRECTIONS[event.key] && !event.altKey) {
+      event.preventDefault();
+      const direction = DIRECTIONS[event.key];
+      const neighbour = findNeighbour(graph, nodeId, direction);
+      if (neighbour) {
+        focusNode(neighbour);
+      } else {
+        announce(DEAD_ENDS[direction]);
+      }
+      return;
+    }
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onOpenSettings(nodeId);
+      return;
+    }
+
+    const focused = graph.nodesById.get(nodeId);
+    if (event.key.toLowerCase() === 'c' && !event.altKey && focused && !isAnnotation(focused)) { // Notes have no handles
+      event.preventDefault();
+      onStartConnect(nodeId);
+    }
+  }, [graph, readOnly, setNodes, takeSnapshot, focusNode, onOpenSettings, onStartConnect, announce]);
+
+  return { labelledNodes, focusNode, handleKeyDown };
+};
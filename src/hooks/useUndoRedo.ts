@@ -0,0 +1,127 @@
+import { useState, useCallback, useRef } from 'react';
+import { Node, Edge } from 'reactflow';
+import { FlowVariable } from '../utils/variables';
+import { LocaleSettings } from '../utils/translations';
+
+interface HistoryEntry {
+  nodes: Node[];
+  edges: Edge[];
+  variables: FlowVariable[];
+  locales: LocaleSettings;
+}
+
+interface UseUndoRedoOptions {
+  nodes: Node[];
+  edges: Edge[];
+  variables: FlowVariable[];
+  locales: LocaleSettings;
+  setNodes: (nodes: Node[]) => void;
+  setEdges: (edges: Edge[]) => void;
+  setVariables: (variables: FlowVariable[]) => void;
+  setLocales: (locales: LocaleSettings) => void;
+  maxHistorySize?: number;
+}
+
+// Snapshots sharing a coalesce key within this window merge into one undo step
+const COALESCE_WINDOW_MS = 1500;
+
+/**
+ * useUndoRedo - Snapshot-based command history for the canvas, flow variables and languages
+ *
+ * Usage: call takeSnapshot() right BEFORE applying an edit; undo() restores
+ * the snapshot and redo() re-applies what was undone
+ * Coalescing: pass a key (e.g. "text:<nodeId>") so a burst of keystrokes in
+ * the same field collapses into a single undo step
+ * Deferred steps: for gestures that may change nothing (a drag that never
+ * moves), beginStep() remembers the state and commitStep() records it only
+ * if the given check finds a change
+ */
+export const useUndoRedo = ({
+  nodes,
+  edges,
+  variables,
+  locales,
+  setNodes,
+  setEdges,
+  setVariables,
+  setLocales,
+  maxHistorySize = 100,
+}: UseUndoRedoOptions) => {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+  const lastCoalesce = useRef<{ key: string; at: number } | null>(null);
+  const pending = useRef<HistoryEntry | null>(null); // State before the open deferred step
+
+  // Record the current state as an undo point
+  const takeSnapshot = useCallback((coalesceKey?: string) => {
+    const now = Date.now();
+    const previous = lastCoalesce.current;
+
+    if (coalesceKey && previous?.key === coalesceKey && now - previous.at < COALESCE_WINDOW_MS) {
+      previous.at = now; // Extend the open step instead of starting a new one
+      return;
+    }
+    lastCoalesce.current = coalesceKey ? { key: coalesceKey, at: now } : null;
+
+    setPast(entries => [...entries.slice(-(maxHistorySize - 1)), { nodes, edges, variables, locales }]);
+    setFuture([]); // A new edit invalidates the redo branch
+  }, [nodes, edges, variables, locales, maxHistorySize]);
+
+  const beginStep = useCallback(() => {
+    pending.current = { nodes, edges, variables, locales };
+  }, [nodes, edges, variables, locales]);
+
+  const commitStep = useCallback((hasChanged: (before: HistoryEntry) => boolean) => {
+    const before = pending.current;
+    pending.current = null;
+    if (!before || !hasChanged(before)) return;
+
+    lastCoalesce.current = null;
+    setPast(entries => [...entries.slice(-(maxHistorySize - 1)), before]);
+    setFuture([]);
+  }, [maxHistorySize]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+
+    setPast(past.slice(0, -1));
+    setFuture(entries => [...entries, { nodes, edges, variables, locales }]);
+    setNodes(previous.nodes);
+    setEdges(previous.edges);
+    setVariables(previous.variables);
+    setLocales(previous.locales);
+    lastCoalesce.current = null;
+  }, [past, nodes, edges, variables, locales, setNodes, setEdges, setVariables, setLocales]);
+
+  const redo = useCallback(() => {
+    const next = future[future.length - 1];
+    if (!next) return;
+
+    setFuture(future.slice(0, -1));
+    setPast(entries => [...entries, { nodes, edges, variables, locales }]);
+    setNodes(next.nodes);
+    setEdges(next.edges);
+    setVariables(next.variables);
+    setLocales(next.locales);
+    lastCoalesce.current = null;
+  }, [future, nodes, edges, variables, locales, setNodes, setEdges, setVariables, setLocales]);
+
+  // Forget everything - used when a different flow is loaded
+  const resetHistory = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+    lastCoalesce.current = null;
+  }, []);
+
+  return {
+    takeSnapshot,
+    beginStep,
+    commitStep,
+    undo,
+    redo,
+    resetHistory,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+};
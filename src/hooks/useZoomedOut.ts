@@ -0,0 +1,15 @@
+import { useStore, ReactFlowState } from 'reactflow';
+
+// Below this zoom node text is too small to read - nodes switch to their simplified body
+export const DETAIL_ZOOM_THRESHOLD = 0.5;
+
+const isZoomedOut = (state: ReactFlowState) => state.transform[2] < DETAIL_ZOOM_THRESHOLD;
+
+/**
+ * useZoomedOut - Level-of-detail switch for custom nodes
+ *
+ * Returns true while the canvas is zoomed out past DETAIL_ZOOM_THRESHOLD.
+ * The store selector yields a boolean, so zooming and panning only re-render
+ * nodes when the threshold is crossed, not on every frame
+ */
+export const useZoomedOut = () => useStore(isZoomedOut);
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { useFlowEditor, getSearchRing } from '../context/FlowEditorContext';
+import TemplateText from '../components/TemplateText';
+import TranslationBadge from '../components/TranslationBadge';
+import CommentBadge from '../components/CommentBadge';
+import { localizeNodeData } from '../utils/translations';
+
+export interface ReplyButton {
+  id: string; // Doubles as the source handle ID for this button's connection
+  label: string;
+}
+
+export interface ButtonNodeData {
+  text: string;
+  buttons: ReplyButton[];
+}
+
+/**
+ * ButtonNode - Chat message with quick-reply buttons
+ *
+ * Design: Same bubble as TextNode with a purple header and a row per button
+ * Handles: Orange (left) for incoming, one green handle per button so every
+ * reply can route to a different next node
+ * Selection: Shows blue border when selected for editing
+ * Languages: shows the canvas language, with a badge counting untranslated strings
+ * Comments: a header badge counts open review threads and opens them
+ */
+const ButtonNode: React.FC<NodeProps<ButtonNodeData>> = ({ id, data: stored, selected }) => {
+  const { activeNodeId, locale, search } = useFlowEditor();
+  const data: ButtonNodeData = localizeNodeData('buttonNode', stored, locale ?? undefined); // Canvas language, falling back to the default
+  const buttons = data?.buttons || [];
+
+  return (
+    <div
+      className={`shadow-lg rounded-lg bg-white border-2 min-w-[200px] max-w-[250px] ${
+        selected ? 'border-blue-500' : 'border-gray-200' // Blue border when selected
+      } ${activeNodeId === id ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
+    >
+      {/* Orange handle for incoming connections */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-4 h-4 !bg-orange-500 border-2 border-white"
+        style={{ left: -8 }}
+        isConnectable={true} // Allow connections
+      />
+
+      {/* Header */}
+      <div className="bg-purple-100 px-3 py-2 rounded-t-lg border-b border-purple-200 flex items-center gap-2">
+        {/* Buttons icon */}
+        <div className="w-4 h-4 text-purple-600">
+          <svg fill="currentColor" viewBox="0 0 20 20">
+            <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1v-2zM4 15a1 1 0 00-1 1v0a1 1 0 001 1h12a1 1 0 001-1v0a1 1 0 00-1-1H4z" />
+          </svg>
+        </div>
+        <span className="text-sm font-medium text-purple-800">Message with buttons</span>
+        <div className="ml-auto flex items-center gap-1">
+          <CommentBadge nodeId={id} data={stored} />
+          <TranslationBadge type="buttonNode" data={stored} />
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-3">
+        <div className="text-sm text-gray-800 leading-relaxed">
+          {data?.text ? <TemplateText text={data.text} /> : 'buttonNode'} {/* Show text (placeholders highlighted) or fallback */}
+        </div>
+      </div>
+
+      {/* Reply buttons - each owns a green handle for its outgoing connection */}
+      <div className="px-3 pb-3 space-y-1.5">
+        {buttons.map(button => (
+          <div key={button.id} className="relative">
+            <div className="text-xs text-center font-medium text-purple-700 border border-purple-200 rounded-md px-2 py-1 bg-purple-50">
+              {button.label || 'Untitled button'}
+            </div>
+            <Handle
+              id={button.id}
+              type="source"
+              position={Position.Right}
+              className="w-3 h-3 !bg-green-500 border-2 border-white"
+              style={{ right: -19 }} // Line up with the node border
+              isConnectable={true}
+            />
+          </div>
+        ))}
+        {buttons.length === 0 && (
+          <div className="text-xs text-gray-400 italic">No buttons yet</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ButtonNode;
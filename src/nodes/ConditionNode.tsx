@@ -0,0 +1,80 @@
+import React from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { useFlowEditor, getSearchRing } from '../context/FlowEditorContext';
+import { describeCase, DEFAULT_BRANCH_ID } from '../utils/conditions';
+
+export type ConditionOperator = 'equals' | 'contains' | 'matches' | 'isEmpty';
+
+export interface ConditionCase {
+  id: string; // Doubles as the source handle ID for this branch
+  variable: string; // Name of a flow variable
+  operator: ConditionOperator;
+  value: string; // Ignored by 'isEmpty'
+}
+
+export interface ConditionNodeData {
+  cases: ConditionCase[]; // Checked in order - the first match wins
+}
+
+/**
+ * ConditionNode - Branches the conversation on flow variables
+ *
+ * Design: Amber header, one row per case plus an "Otherwise" row
+ * Handles: Orange (left) for incoming, one green handle per case and one
+ * for the default branch
+ * Selection: Shows blue border when selected for editing
+ */
+const ConditionNode: React.FC<NodeProps<ConditionNodeData>> = ({ id, data, selected }) => {
+  const { activeNodeId, search } = useFlowEditor();
+  const cases = data?.cases || [];
+
+  return (
+    <div
+      className={`shadow-lg rounded-lg bg-white border-2 min-w-[200px] max-w-[250px] ${
+        selected ? 'border-blue-500' : 'border-gray-200' // Blue border when selected
+      } ${activeNodeId === id ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
+    >
+      {/* Orange handle for incoming connections */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-4 h-4 !bg-orange-500 border-2 border-white"
+        style={{ left: -8 }}
+        isConnectable={true} // Allow connections
+      />
+
+      {/* Header */}
+      <div className="bg-amber-100 px-3 py-2 rounded-t-lg border-b border-amber-200 flex items-center gap-2">
+        {/* Branch icon */}
+        <div className="w-4 h-4 text-amber-600">
+          <svg fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M5 3a2 2 0 00-1 3.732V13.27A2 2 0 105 17a2 2 0 001-3.73V11h4a4 4 0 004-4v-.268A2 2 0 1013 6.732V7a2 2 0 01-2 2H6V6.732A2 2 0 005 3z" clipRule="evenodd" />
+          </svg>
+        </div>
+        <span className="text-sm font-medium text-amber-800">Condition</span>
+      </div>
+
+      {/* Branches - each owns a green handle */}
+      <div className="p-3 space-y-1.5">
+        {[...cases.map(branch => ({ id: branch.id, label: `If ${describeCase(branch)}` })),
+          { id: DEFAULT_BRANCH_ID, label: 'Otherwise' }].map(branch => (
+          <div key={branch.id} className="relative">
+            <div className="text-xs text-gray-700 border border-amber-200 rounded-md px-2 py-1 bg-amber-50 break-words">
+              {branch.label}
+            </div>
+            <Handle
+              id={branch.id}
+              type="source"
+              position={Position.Right}
+              className="w-3 h-3 !bg-green-500 border-2 border-white"
+              style={{ right: -19 }} // Line up with the node border
+              isConnectable={true}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConditionNode;
@@ -0,0 +1,106 @@
+import React, { useState, useMemo } from 'react';
+import { Handle, Position, NodeProps, Node, Edge } from 'reactflow';
+import { useFlowEditor, getSearchRing } from '../context/FlowEditorContext';
+import { containsNode, listGroupSteps } from '../utils/groups';
+
+// Serialized nodes and edges of a nested flow (no variables - those stay flow-level)
+export interface SubflowGraph {
+  nodes: Pick<Node, 'id' | 'type' | 'position' | 'data'>[];
+  edges: Pick<Edge, 'id' | 'source' | 'target' | 'sourceHandle' | 'targetHandle' | 'type' | 'data'>[];
+}
+
+export interface GroupNodeData {
+  name: string;
+  flow: SubflowGraph;
+  entryNodeId: string; // Inner node the group's entry handle leads to
+}
+
+// Short label for an inner step in the expanded list
+const describeStep = (node: SubflowGraph['nodes'][number]) => {
+  if (node.type === 'groupNode') return `▣ ${node.data?.name || 'Sub-flow'}`;
+  if (node.type === 'conditionNode') return '⑂ Condition';
+  return node.data?.text || '(empty message)';
+};
+
+/**
+ * GroupNode - A reusable sub-flow collapsed into one node
+ *
+ * Design: Slate header with the sub-flow name and step count; "Show steps"
+ * expands the card in place to list the inner steps in conversation order
+ * Handles: one orange entry handle and one green exit handle - steps inside
+ * that would end the conversation continue through the exit instead
+ * Editing: "Open" (or double-click) edits the nested flow in its own view
+ * Preview: highlighted while the simulator is anywhere inside the group
+ */
+const GroupNode: React.FC<NodeProps<GroupNodeData>> = ({ id, data, selected }) => {
+  const { activeNodeId, search, openGroup } = useFlowEditor();
+  const [expanded, setExpanded] = useState(false); // View-only, not saved with the flow
+  const steps = useMemo(() => listGroupSteps(data), [data]);
+  const isActive = activeNodeId === id || (activeNodeId !== null && containsNode(data, activeNodeId));
+
+  return (
+    <div
+      className={`shadow-lg rounded-lg bg-white border-2 min-w-[200px] max-w-[250px] ${
+        selected ? 'border-blue-500' : 'border-gray-200' // Blue border when selected
+      } ${isActive ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
+      onDoubleClick={() => openGroup(id)}
+    >
+      {/* Orange handle - the group's single entry */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-4 h-4 !bg-orange-500 border-2 border-white"
+        style={{ left: -8 }}
+        isConnectable={true} // Allow connections
+      />
+
+      {/* Header */}
+      <div className="bg-slate-100 px-3 py-2 rounded-t-lg border-b border-slate-200 flex items-center gap-2">
+        {/* Stack icon */}
+        <div className="w-4 h-4 text-slate-600">
+          <svg fill="currentColor" viewBox="0 0 20 20">
+            <path d="M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z" />
+          </svg>
+        </div>
+        <span className="text-sm font-medium text-slate-800 truncate">{data?.name || 'Sub-flow'}</span>
+      </div>
+
+      {/* Content */}
+      <div className="p-3">
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>{steps.length} step{steps.length === 1 ? '' : 's'}</span>
+          <div className="flex gap-2">
+            <button className="nodrag text-slate-700 hover:underline" onClick={() => setExpanded(show => !show)}>
+              {expanded ? 'Hide steps' : 'Show steps'}
+            </button>
+            <button className="nodrag text-blue-600 hover:underline" onClick={() => openGroup(id)}>
+              Open
+            </button>
+          </div>
+        </div>
+
+        {/* Inner steps, entry first */}
+        {expanded && (
+          <ol className="mt-2 space-y-1 list-decimal pl-4 text-xs text-gray-700">
+            {steps.map(step => (
+              <li key={step.id} className={`truncate ${activeNodeId === step.id ? 'text-teal-700 font-medium' : ''}`}>
+                {describeStep(step)}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {/* Green handle - the group's single exit */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="w-4 h-4 !bg-green-500 border-2 border-white"
+        style={{ right: -8 }}
+        isConnectable={true} // Allow connections
+      />
+    </div>
+  );
+};
+
+export default GroupNode;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { useFlowEditor, getSearchRing } from '../context/FlowEditorContext';
+import TemplateText from '../components/TemplateText';
+import { HTTP_SUCCESS_HANDLE, HTTP_FAILURE_HANDLE, getActiveMock } from '../utils/http';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HttpHeader {
+  id: string;
+  name: string;
+  value: string; // May use {{variables}}
+}
+
+// Copies a value from the JSON response into a flow variable
+export interface ResponseMapping {
+  id: string;
+  path: string; // e.g. `order.status` or `items[0].id`
+  variable: string;
+}
+
+// Canned response used instead of the network in test mode
+export interface MockResponse {
+  id: string;
+  name: string; // e.g. "Order found", "Not found"
+  status: number;
+  body: string;
+}
+
+export interface HttpNodeData {
+  method: HttpMethod;
+  url: string; // May use {{variables}} - values are URL-encoded
+  headers: HttpHeader[];
+  body: string; // Request body template, ignored for GET
+  timeoutMs: number;
+  mappings: ResponseMapping[];
+  mocks: MockResponse[];
+  activeMockId: string; // Mock used in test mode
+}
+
+/**
+ * HttpNode - Calls a webhook or API and stores parts of the response
+ *
+ * Design: Sky header, method and URL (placeholders highlighted), the
+ * variables the response fills in and the mock used in test mode
+ * Handles: Orange (left) for incoming, green "Success" for 2xx responses
+ * and red "Failure" for errors and timeouts
+ * Selection: Shows blue border when selected for editing
+ */
+const HttpNode: React.FC<NodeProps<HttpNodeData>> = ({ id, data, selected }) => {
+  const { activeNodeId, search } = useFlowEditor();
+  const mappings = (data?.mappings || []).filter(mapping => mapping.variable);
+  const mock = data ? getActiveMock(data) : undefined;
+
+  return (
+    <div
+      className={`shadow-lg rounded-lg bg-white border-2 min-w-[200px] max-w-[250px] ${
+        selected ? 'border-blue-500' : 'border-gray-200' // Blue border when selected
+      } ${activeNodeId === id ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
+    >
+      {/* Orange handle for incoming connections */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-4 h-4 !bg-orange-500 border-2 border-white"
+        style={{ left: -8 }}
+        isConnectable={true} // Allow connections
+      />
+
+      {/* Header */}
+      <div className="bg-sky-100 px-3 py-2 rounded-t-lg border-b border-sky-200 flex items-center gap-2">
+        {/* Globe icon */}
+        <div className="w-4 h-4 text-sky-600">
+          <svg fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M4.083 9h1.946c.089-1.546.383-2.97.837-4.118A6.004 6.004 0 004.083 9zM10 2a8 8 0 100 16 8 8 0 000-16zm0 2c-.076 0-.232.032-.465.262-.238.234-.497.623-.737 1.182-.389.907-.673 2.142-.766 3.556h3.936c-.093-1.414-.377-2.649-.766-3.556-.24-.56-.5-.948-.737-1.182C10.232 4.032 10.076 4 10 4zm3.971 5c-.089-1.546-.383-2.97-.837-4.118A6.004 6.004 0 0115.917 9h-1.946zm-2.003 2H8.032c.093 1.414.377 2.649.766 3.556.24.56.5.948.737 1.182.233.23.389.262.465.262.076 0 .232-.032.465-.262.238-.234.498-.623.737-1.182.389-.907.673-2.142.766-3.556zm1.166 4.118c.454-1.147.748-2.572.837-4.118h1.946a6.004 6.004 0 01-2.783 4.118zm-6.268 0C6.412 13.97 6.118 12.546 6.03 11H4.083a6.004 6.004 0 002.783 4.118z" clipRule="evenodd" />
+          </svg>
+        </div>
+        <span className="text-sm font-medium text-sky-800">HTTP request</span>
+      </div>
+
+      {/* Content */}
+      <div className="p-3 space-y-2">
+        <div className="text-xs text-gray-800 break-all">
+          <span className="font-mono font-semibold text-sky-700 mr-1">{data?.method || 'GET'}</span>
+          {data?.url ? <TemplateText text={data.url} /> : <span className="italic text-gray-400">No URL</span>}
+        </div>
+        {mappings.length > 0 && (
+          <div className="text-xs text-gray-500">
+            Saves {mappings.map(mapping => mapping.variable).join(', ')}
+          </div>
+        )}
+        {mock && (
+          <div className="text-xs text-gray-500">
+            Test mode: {mock.name || 'mock'} ({mock.status})
+          </div>
+        )}
+      </div>
+
+      {/* Outcomes - each owns a handle */}
+      <div className="px-3 pb-3 space-y-1.5">
+        <div className="relative">
+          <div className="text-xs text-center font-medium text-green-700 border border-green-200 rounded-md px-2 py-1 bg-green-50">
+            Success
+          </div>
+          <Handle
+            id={HTTP_SUCCESS_HANDLE}
+            type="source"
+            position={Position.Right}
+            className="w-3 h-3 !bg-green-500 border-2 border-white"
+            style={{ right: -19 }} // Line up with the node border
+            isConnectable={true}
+          />
+        </div>
+        <div className="relative">
+          <div className="text-xs text-center font-medium text-red-700 border border-red-200 rounded-md px-2 py-1 bg-red-50">
+            Failure
+          </div>
+          <Handle
+            id={HTTP_FAILURE_HANDLE}
+            type="source"
+            position={Position.Right}
+            className="w-3 h-3 !bg-red-500 border-2 border-white"
+            style={{ right: -19 }} // Line up with the node border
+            isConnectable={true}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HttpNode;
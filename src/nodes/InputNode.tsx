@@ -0,0 +1,86 @@
+import React from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { useFlowEditor, getSearchRing } from '../context/FlowEditorContext';
+import TemplateText from '../components/TemplateText';
+import TranslationBadge from '../components/TranslationBadge';
+import CommentBadge from '../components/CommentBadge';
+import { localizeNodeData } from '../utils/translations';
+import { INPUT_TYPE_LABELS, InputType } from '../utils/answers';
+
+export interface InputNodeData {
+  text: string; // The question asked to the user
+  variable: string; // Flow variable the answer is stored in
+  inputType: InputType;
+  choices: string[]; // Allowed answers - 'choice' inputs only
+  errorMessage: string; // Sent when an answer fails validation, before asking again
+}
+
+/**
+ * InputNode - Asks a question and stores the answer in a flow variable
+ *
+ * Design: Indigo header, the question, and a footer naming the target
+ * variable and expected input type
+ * Handles: Orange (left) for incoming, Green (right) continues once a
+ * valid answer was captured
+ * Selection: Shows blue border when selected for editing
+ * Languages: shows the canvas language, with a badge counting untranslated strings
+ * Comments: a header badge counts open review threads and opens them
+ */
+const InputNode: React.FC<NodeProps<InputNodeData>> = ({ id, data: stored, selected }) => {
+  const { activeNodeId, locale, search } = useFlowEditor();
+  const data: InputNodeData = localizeNodeData('inputNode', stored, locale ?? undefined); // Canvas language, falling back to the default
+
+  return (
+    <div
+      className={`shadow-lg rounded-lg bg-white border-2 min-w-[200px] max-w-[250px] ${
+        selected ? 'border-blue-500' : 'border-gray-200' // Blue border when selected
+      } ${activeNodeId === id ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
+    >
+      {/* Orange handle for incoming connections */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-4 h-4 !bg-orange-500 border-2 border-white"
+        style={{ left: -8 }}
+        isConnectable={true} // Allow connections
+      />
+
+      {/* Header */}
+      <div className="bg-indigo-100 px-3 py-2 rounded-t-lg border-b border-indigo-200 flex items-center gap-2">
+        {/* Pencil icon */}
+        <div className="w-4 h-4 text-indigo-600">
+          <svg fill="currentColor" viewBox="0 0 20 20">
+            <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+          </svg>
+        </div>
+        <span className="text-sm font-medium text-indigo-800">Collect input</span>
+        <div className="ml-auto flex items-center gap-1">
+          <CommentBadge nodeId={id} data={stored} />
+          <TranslationBadge type="inputNode" data={stored} />
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-3">
+        <div className="text-sm text-gray-800 leading-relaxed">
+          {data?.text ? <TemplateText text={data.text} /> : 'inputNode'} {/* Show text (placeholders highlighted) or fallback */}
+        </div>
+        <div className="mt-2 text-xs text-gray-500">
+          Saves {INPUT_TYPE_LABELS[data?.inputType] || 'answer'} to{' '}
+          <span className="font-mono text-indigo-700">{data?.variable || '(no variable)'}</span>
+        </div>
+      </div>
+
+      {/* Green handle for outgoing connections */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="w-4 h-4 !bg-green-500 border-2 border-white"
+        style={{ right: -8 }}
+        isConnectable={true} // Allow connections
+      />
+    </div>
+  );
+};
+
+export default InputNode;
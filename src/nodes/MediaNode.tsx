@@ -0,0 +1,167 @@
+import React from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { useFlowEditor, getSearchRing } from '../context/FlowEditorContext';
+import TemplateText from '../components/TemplateText';
+import TranslationBadge from '../components/TranslationBadge';
+import CommentBadge from '../components/CommentBadge';
+import { localizeNodeData } from '../utils/translations';
+import { MEDIA_KIND_LABELS, formatFileSize, getPreviewUrl } from '../utils/media';
+import { ReplyButton } from './ButtonNode';
+
+export type MediaKind = 'image' | 'video' | 'document' | 'card';
+
+// Serialized reference to a media file - never the file itself
+export interface MediaAsset {
+  id: string; // Keys the session's local preview (see utils/media)
+  fileName: string;
+  mimeType: string; // '' when unknown, e.g. a linked file without an extension
+  size: number; // Bytes, 0 when unknown
+  url: string; // Where the bot sends the file from - '' until a picked file is hosted
+}
+
+export interface MediaNodeData {
+  kind: MediaKind;
+  asset: MediaAsset | null;
+  text: string; // Caption - images, videos and documents
+  title: string; // Card only
+  subtitle: string; // Card only
+  buttons: ReplyButton[]; // Card only - one handle each, like a button node
+}
+
+const DOCUMENT_ICON =
+  'M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z';
+
+// Image, video frame or file row for the node body
+const MediaPreview: React.FC<{ kind: MediaKind; asset: MediaAsset | null }> = ({ kind, asset }) => {
+  const previewUrl = getPreviewUrl(asset);
+
+  if (!asset) {
+    return (
+      <div className="h-20 rounded-md border-2 border-dashed border-gray-200 flex items-center justify-center text-xs text-gray-400">
+        No {MEDIA_KIND_LABELS[kind].toLowerCase()} file yet
+      </div>
+    );
+  }
+  if (kind !== 'document' && previewUrl) {
+    return kind === 'video' ? (
+      <video src={previewUrl} muted preload="metadata" className="w-full max-h-40 rounded-md bg-black" />
+    ) : (
+      <img src={previewUrl} alt={asset.fileName} className="w-full max-h-40 object-cover rounded-md" />
+    );
+  }
+  return (
+    <div className="flex items-center gap-2 rounded-md bg-gray-50 border border-gray-200 px-2 py-1.5">
+      <svg className="w-5 h-5 flex-none text-rose-500" fill="currentColor" viewBox="0 0 20 20">
+        <path fillRule="evenodd" d={DOCUMENT_ICON} clipRule="evenodd" />
+      </svg>
+      <div className="min-w-0 text-xs">
+        <div className="truncate font-medium text-gray-800">{asset.fileName}</div>
+        <div className="text-gray-500">
+          {asset.size > 0 ? formatFileSize(asset.size) : 'Linked file'}
+          {!previewUrl && ' · preview unavailable'}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * MediaNode - Sends an image, video, document or rich card
+ *
+ * Design: Rose header naming the variant, then a preview of the file (local
+ * files through an object URL) and the caption; cards add a title,
+ * subtitle and a row per button
+ * Handles: Orange (left) for incoming; one green handle, or for cards with
+ * buttons one green handle per button
+ * Selection: Shows blue border when selected for editing
+ * Languages: shows the canvas language, with a badge counting untranslated strings
+ * Comments: a header badge counts open review threads and opens them
+ */
+const MediaNode: React.FC<NodeProps<MediaNodeData>> = ({ id, data: stored, selected }) => {
+  const { activeNodeId, locale, search } = useFlowEditor();
+  const data: MediaNodeData = localizeNodeData('mediaNode', stored, locale ?? undefined); // Canvas language, falling back to the default
+  const isCard = data?.kind === 'card';
+  const buttons = isCard ? data.buttons || [] : [];
+
+  return (
+    <div
+      className={`shadow-lg rounded-lg bg-white border-2 min-w-[200px] max-w-[250px] ${
+        selected ? 'border-blue-500' : 'border-gray-200' // Blue border when selected
+      } ${activeNodeId === id ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
+    >
+      {/* Orange handle for incoming connections */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-4 h-4 !bg-orange-500 border-2 border-white"
+        style={{ left: -8 }}
+        isConnectable={true} // Allow connections
+      />
+
+      {/* Header */}
+      <div className="bg-rose-100 px-3 py-2 rounded-t-lg border-b border-rose-200 flex items-center gap-2">
+        {/* Picture icon */}
+        <div className="w-4 h-4 text-rose-600">
+          <svg fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
+          </svg>
+        </div>
+        <span className="text-sm font-medium text-rose-800">{MEDIA_KIND_LABELS[data?.kind] || 'Media'}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <CommentBadge nodeId={id} data={stored} />
+          <TranslationBadge type="mediaNode" data={stored} />
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-3 space-y-2">
+        <MediaPreview kind={data?.kind} asset={data?.asset ?? null} />
+        {isCard ? (
+          <div>
+            <div className="text-sm font-semibold text-gray-800">
+              {data.title ? <TemplateText text={data.title} /> : <span className="text-gray-400 italic">No title</span>}
+            </div>
+            {data.subtitle && (
+              <div className="text-xs text-gray-500"><TemplateText text={data.subtitle} /></div>
+            )}
+          </div>
+        ) : (
+          data?.text && (
+            <div className="text-sm text-gray-800 leading-relaxed"><TemplateText text={data.text} /></div>
+          )
+        )}
+      </div>
+
+      {/* Card buttons - each owns a green handle for its outgoing connection */}
+      {buttons.length > 0 ? (
+        <div className="px-3 pb-3 space-y-1.5">
+          {buttons.map(button => (
+            <div key={button.id} className="relative">
+              <div className="text-xs text-center font-medium text-rose-700 border border-rose-200 rounded-md px-2 py-1 bg-rose-50">
+                {button.label || 'Untitled button'}
+              </div>
+              <Handle
+                id={button.id}
+                type="source"
+                position={Position.Right}
+                className="w-3 h-3 !bg-green-500 border-2 border-white"
+                style={{ right: -19 }} // Line up with the node border
+                isConnectable={true}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <Handle
+          type="source"
+          position={Position.Right}
+          className="w-4 h-4 !bg-green-500 border-2 border-white"
+          style={{ right: -8 }}
+          isConnectable={true} // Allow connections
+        />
+      )}
+    </div>
+  );
+};
+
+export default MediaNode;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { NodeProps } from 'reactflow';
+import { getSearchRing, useFlowEditor } from '../context/FlowEditorContext';
+
+export type StickyNoteColor = 'yellow' | 'pink' | 'blue' | 'green';
+
+export interface StickyNoteData {
+  text: string;
+  color: StickyNoteColor;
+}
+
+// Paper and text classes per note color
+export const STICKY_NOTE_COLORS: Record<StickyNoteColor, { label: string; className: string }> = {
+  yellow: { label: 'Yellow', className: 'bg-yellow-100 border-yellow-300 text-yellow-900' },
+  pink: { label: 'Pink', className: 'bg-pink-100 border-pink-300 text-pink-900' },
+  blue: { label: 'Blue', className: 'bg-sky-100 border-sky-300 text-sky-900' },
+  green: { label: 'Green', className: 'bg-lime-100 border-lime-300 text-lime-900' },
+};
+
+/**
+ * StickyNoteNode - Free-floating annotation for design discussions
+ *
+ * Design: Colored paper square with the note text, edited in the settings panel
+ * Handles: none - notes are never connected and are no part of the conversation,
+ * so validation, the runtime, auto-arrange and diagram exports skip them
+ * Selection: Shows blue border when selected for editing
+ */
+const StickyNoteNode: React.FC<NodeProps<StickyNoteData>> = ({ id, data, selected }) => {
+  const { search } = useFlowEditor();
+  const colors = STICKY_NOTE_COLORS[data?.color] ?? STICKY_NOTE_COLORS.yellow;
+
+  return (
+    <div
+      className={`shadow-md rounded-sm border-2 w-[200px] min-h-[120px] p-3 -rotate-1 ${colors.className} ${
+        selected ? '!border-blue-500' : '' // Blue border when selected
+      } ${getSearchRing(search, id)}`}
+    >
+      <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+        {data?.text || <span className="italic opacity-60">Empty note</span>}
+      </div>
+    </div>
+  );
+};
+
+export default StickyNoteNode;
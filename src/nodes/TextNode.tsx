@@ -1,23 +1,81 @@
 import React from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
+import { useFlowEditor, getSearchRing } from '../context/FlowEditorContext';
+import TemplateText from '../components/TemplateText';
+import TranslationBadge from '../components/TranslationBadge';
+import CommentBadge from '../components/CommentBadge';
+import AnalyticsBadge from '../components/AnalyticsBadge';
+import { localizeNodeData } from '../utils/translations';
+import { OUTSIDE_HOURS_HANDLE, describeBusinessHours } from '../utils/schedule';
+import { formatDelay } from '../edges/edgeData';
+import { useZoomedOut } from '../hooks/useZoomedOut';
+
+// When a message may be sent - outside the window the node takes its "Outside hours" handle
+export interface BusinessHours {
+  timezone: string; // IANA name, e.g. "Europe/London"
+  days: number[]; // Open weekdays, 0 = Sunday
+  start: string; // "HH:MM", 24-hour
+  end: string; // Before start for windows past midnight, e.g. 22:00-06:00
+}
 
 export interface TextNodeData {
   text: string;
+  typingMs?: number; // Typing indicator shown before the message
+  delayMs?: number; // Pause before sending (and before the typing indicator)
+  businessHours?: BusinessHours; // Absent: sent at any time
 }
 
 /**
  * TextNode - Custom chat message node component
  * 
  * Design: Chat bubble style with teal header and message content
- * Handles: Orange (left) for incoming, Green (right) for outgoing connections
+ * Handles: Orange (left) for incoming, Green (right) for outgoing connections;
+ * with business hours set, an amber "Outside hours" handle for closed times
+ * Timing: small badges show the delay before sending, the typing indicator
+ * and the business hours window
  * Selection: Shows blue border when selected for editing
+ * Languages: shows the canvas language, with a badge counting untranslated strings
+ * Comments: a header badge counts open review threads and opens them
+ * Preview: Shows a teal ring while the simulator is on this node
+ * Search: matching text is marked and the node gets a yellow outline
+ * Analytics: with a conversation log imported, a footer shows visits,
+ * drop-off rate and average time to the next step
+ * Zoomed out: a plain teal block with the first words of the message and the
+ * same handles - no badges, templates or footers - so large flows stay fast
  */
-const TextNode: React.FC<NodeProps<TextNodeData>> = ({ data, selected }) => {
+const TextNode: React.FC<NodeProps<TextNodeData>> = ({ id, data: stored, selected }) => {
+  const { activeNodeId, locale, search } = useFlowEditor();
+  const data: TextNodeData = localizeNodeData('textNode', stored, locale ?? undefined); // Canvas language, falling back to the default
+  const zoomedOut = useZoomedOut();
+
+  if (zoomedOut) {
+    return (
+      <div
+        className={`rounded-lg bg-teal-100 border-2 w-[220px] px-3 py-4 ${
+          selected ? 'border-blue-500' : 'border-teal-200'
+        } ${activeNodeId === id ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
+      >
+        <Handle type="target" position={Position.Left} className="w-4 h-4 !bg-orange-500 border-2 border-white" style={{ left: -8 }} />
+        <div className="text-lg font-medium text-teal-900 truncate">{data?.text || 'textNode'}</div>
+        <Handle type="source" position={Position.Right} className="w-4 h-4 !bg-green-500 border-2 border-white" style={{ right: -8 }} />
+        {stored?.businessHours && (
+          <Handle
+            id={OUTSIDE_HOURS_HANDLE}
+            type="source"
+            position={Position.Right}
+            className="w-3 h-3 !bg-amber-500 border-2 border-white"
+            style={{ right: -7, top: '85%' }} // Below the main handle, keeping its connection drawn
+          />
+        )}
+      </div>
+    );
+  }
+
   return (
           <div 
       className={`shadow-lg rounded-lg bg-white border-2 min-w-[200px] max-w-[250px] ${
         selected ? 'border-blue-500' : 'border-gray-200' // Blue border when selected
-      }`}
+      } ${activeNodeId === id ? 'ring-4 ring-teal-400' : getSearchRing(search, id)}`}
     >
       {/* Orange handle for incoming connections */}
       <Handle
@@ -37,14 +95,54 @@ const TextNode: React.FC<NodeProps<TextNodeData>> = ({ data, selected }) => {
           </svg>
         </div>
         <span className="text-sm font-medium text-teal-800">Send Message</span>
+        <div className="ml-auto flex items-center gap-1">
+          <CommentBadge nodeId={id} data={stored} />
+          <TranslationBadge type="textNode" data={stored} />
+        </div>
       </div>
       
       {/* Content */}
       <div className="p-3">
         <div className="text-sm text-gray-800 leading-relaxed">
-          {data?.text || 'textNode'} {/* Show text or fallback */}
+          {data?.text ? <TemplateText text={data.text} /> : 'textNode'} {/* Show text (placeholders highlighted) or fallback */}
         </div>
+        {(stored?.delayMs || stored?.typingMs || stored?.businessHours) && (
+          <div className="mt-2 flex flex-wrap gap-1 text-[10px] text-gray-600">
+            {!!stored.delayMs && (
+              <span className="px-1.5 rounded-full bg-gray-100" title="Delay before sending">⏱ {formatDelay(stored.delayMs)}</span>
+            )}
+            {!!stored.typingMs && (
+              <span className="px-1.5 rounded-full bg-gray-100" title="Typing indicator">⌨ {formatDelay(stored.typingMs)}</span>
+            )}
+            {stored.businessHours && (
+              <span className="px-1.5 rounded-full bg-amber-50 text-amber-800 truncate" title="Sent only during business hours">
+                🕘 {describeBusinessHours(stored.businessHours)}
+              </span>
+            )}
+          </div>
+        )}
       </div>
+
+      {/* Closed-hours path - only with business hours */}
+      {stored?.businessHours && (
+        <div className="px-3 pb-3">
+          <div className="relative">
+            <div className="text-xs text-center font-medium text-amber-700 border border-amber-200 rounded-md px-2 py-1 bg-amber-50">
+              Outside hours
+            </div>
+            <Handle
+              id={OUTSIDE_HOURS_HANDLE}
+              type="source"
+              position={Position.Right}
+              className="w-3 h-3 !bg-amber-500 border-2 border-white"
+              style={{ right: -19 }} // Line up with the node border
+              isConnectable={true}
+            />
+          </div>
+        </div>
+      )}
+
+      <AnalyticsBadge nodeId={id} />
       
       {/* Green handle for outgoing connections */}
       <Handle
@@ -0,0 +1,87 @@
+import { NodeTypes } from 'reactflow';
+import TextNode, { TextNodeData } from './TextNode';
+import ButtonNode, { ButtonNodeData } from './ButtonNode';
+import ConditionNode, { ConditionNodeData } from './ConditionNode';
+import InputNode, { InputNodeData } from './InputNode';
+import GroupNode, { GroupNodeData } from './GroupNode';
+import HttpNode, { HttpNodeData } from './HttpNode';
+import MediaNode, { MediaNodeData } from './MediaNode';
+import StickyNoteNode, { StickyNoteData } from './StickyNoteNode';
+import { createId } from '../utils/ids';
+import { DEFAULT_TIMEOUT_MS } from '../utils/http';
+
+export { NODE_TYPE_LABELS } from './labels';
+
+// Define custom node types for React Flow
+// Maps string identifiers to React components for rendering different node types
+export const nodeTypes: NodeTypes = {
+  textNode: TextNode, // 'textNode' renders as our custom chat message component
+  buttonNode: ButtonNode, // Message with quick-reply buttons, one outgoing handle per button
+  conditionNode: ConditionNode, // Branches on flow variables, one outgoing handle per case + default
+  inputNode: InputNode, // Asks a question and stores the typed answer in a flow variable
+  groupNode: GroupNode, // Reusable sub-flow collapsed into one node, single entry and exit
+  httpNode: HttpNode, // Calls an API, maps the JSON response into variables, success/failure handles
+  mediaNode: MediaNode, // Sends an image, video, document or card - cards branch per button
+  stickyNote: StickyNoteNode, // Canvas annotation - no handles, ignored by validation and the runtime
+};
+
+// Type identifiers accepted in saved and imported flow files
+export const KNOWN_NODE_TYPES = Object.keys(nodeTypes);
+
+// Data carried by any node on the canvas
+export type FlowNodeData =
+  | TextNodeData
+  | ButtonNodeData
+  | ConditionNodeData
+  | InputNodeData
+  | GroupNodeData
+  | HttpNodeData
+  | MediaNodeData
+  | StickyNoteData;
+
+// Default data for a node freshly dropped from the palette
+export const createNodeData = (type: string): FlowNodeData => {
+  switch (type) {
+    case 'buttonNode':
+      return {
+        text: 'Choose an option',
+        buttons: [
+          { id: createId('btn'), label: 'Yes' },
+          { id: createId('btn'), label: 'No' },
+        ],
+      };
+    case 'conditionNode':
+      return {
+        cases: [{ id: createId('case'), variable: '', operator: 'equals', value: '' }],
+      };
+    case 'inputNode':
+      return {
+        text: 'What is your email address?',
+        variable: 'email',
+        inputType: 'email',
+        choices: [],
+        errorMessage: "That doesn't look right - please try again.",
+      };
+    case 'httpNode': {
+      const mockId = createId('mock');
+      return {
+        method: 'GET',
+        url: 'https://api.example.com/orders',
+        headers: [],
+        body: '',
+        timeoutMs: DEFAULT_TIMEOUT_MS,
+        mappings: [{ id: createId('map'), path: 'status', variable: 'orderStatus' }],
+        mocks: [{ id: mockId, name: 'Success', status: 200, body: '{ "status": "shipped" }' }],
+        activeMockId: mockId,
+      };
+    }
+    case 'mediaNode':
+      return { kind: 'image', asset: null, text: '', title: '', subtitle: '', buttons: [] }; // File picked in the settings panel
+    case 'stickyNote':
+      return { text: 'Note for reviewers', color: 'yellow' };
+    case 'groupNode':
+      return { name: 'Sub-flow', flow: { nodes: [], edges: [] }, entryNodeId: '' }; // Normally created by grouping a selection
+    default:
+      return { text: 'Enter your message here' };
+  }
+};
@@ -0,0 +1,15 @@
+// Human readable name per node type - settings panel titles, screen reader labels and search
+// Kept apart from the registry so utilities can use it without importing the node components
+export const NODE_TYPE_LABELS: Record<string, string> = {
+  textNode: 'Message',
+  buttonNode: 'Message with buttons',
+  conditionNode: 'Condition',
+  inputNode: 'Collect input',
+  groupNode: 'Sub-flow',
+  httpNode: 'HTTP request',
+  mediaNode: 'Media',
+  stickyNote: 'Sticky note',
+};
+
+// Nodes that send the user a message - search-and-replace and comments apply to these
+export const MESSAGE_NODE_TYPES = ['textNode', 'buttonNode', 'inputNode', 'mediaNode'];
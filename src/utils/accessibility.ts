@@ -0,0 +1,67 @@
+import { Node, Edge } from 'reactflow';
+import { FlowGraph, getSourceHandleIds, getOpenHandles, followHandle } from '../engine/graph';
+import { NODE_TYPE_LABELS } from '../nodes/labels';
+import { describeNode } from './validation';
+
+export type NavigationDirection = 'parent' | 'child' | 'previous' | 'next';
+
+/**
+ * Keyboard and screen reader support for the canvas
+ *
+ * Labels: every node gets a spoken summary - its type, text and how many of
+ * its outputs are connected - read out when it receives focus
+ * Navigation: moves follow the flow's edges rather than screen positions, so
+ * "child" is the first connected step in handle order (reply buttons and
+ * cases top to bottom), "parent" the topmost step leading in, and
+ * "previous"/"next" step through the parent's other children; nodes nothing
+ * leads to count as siblings of each other
+ */
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Top to bottom, then left to right - the order a sighted user would read them
+const byPosition = (a: Node, b: Node) => a.position.y - b.position.y || a.position.x - b.position.x;
+
+// Spoken summary of a node, used as its aria-label
+export const describeNodeForScreenReader = (graph: FlowGraph<Node, Edge>, node: Node): string => {
+  const handleCount = getSourceHandleIds(node).length;
+  const openCount = getOpenHandles(graph, node.id).length;
+  const incomingCount = graph.incoming.get(node.id)?.length ?? 0;
+
+  const outputs = handleCount === 0
+    ? 'no outputs'
+    : handleCount === 1
+      ? (openCount === 0 ? 'connected to a next step' : 'no next step')
+      : `${handleCount - openCount} of ${handleCount} branches connected`;
+  return `${NODE_TYPE_LABELS[node.type || ''] || 'Node'} ${describeNode(node)}, ${outputs}, ${plural(incomingCount, 'incoming connection')}`;
+};
+
+// Connected steps in handle order, each listed once
+const getChildren = (graph: FlowGraph<Node, Edge>, nodeId: string): string[] => {
+  const node = graph.nodesById.get(nodeId);
+  if (!node) return [];
+  const targets = getSourceHandleIds(node)
+    .map(handleId => followHandle(graph, nodeId, handleId))
+    .filter((target): target is string => target !== null);
+  return [...new Set(targets)];
+};
+
+const getParents = (graph: FlowGraph<Node, Edge>, nodeId: string): Node[] =>
+  (graph.incoming.get(nodeId) || [])
+    .map(edge => graph.nodesById.get(edge.source))
+    .filter((parent): parent is Node => !!parent)
+    .sort(byPosition);
+
+// Node a keyboard move lands on, or null when there is nothing in that direction
+export const findNeighbour = (graph: FlowGraph<Node, Edge>, nodeId: string, direction: NavigationDirection): string | null => {
+  const parents = getParents(graph, nodeId);
+  if (direction === 'child') return getChildren(graph, nodeId)[0] ?? null;
+  if (direction === 'parent') return parents[0]?.id ?? null;
+
+  const siblings = parents.length > 0
+    ? getChildren(graph, parents[0].id)
+    : graph.nodes.filter(node => graph.incoming.get(node.id)!.length === 0).sort(byPosition).map(node => node.id);
+  const index = siblings.indexOf(nodeId);
+  if (index < 0) return null;
+  return siblings[direction === 'next' ? index + 1 : index - 1] ?? null;
+};
@@ -0,0 +1,183 @@
+import { Node, Edge } from 'reactflow';
+import { expandGroups } from '../engine/graph';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { flattenNodes } from './groups';
+
+// One line of a conversation log - the bot reached nodeId at timestamp
+export interface ConversationEvent {
+  conversationId: string;
+  nodeId: string;
+  timestamp: number; // Milliseconds since the epoch
+}
+
+export interface EventLogParseResult {
+  isValid: boolean;
+  errors: string[];
+  events: ConversationEvent[];
+}
+
+export interface NodeAnalytics {
+  visits: number;
+  conversations: number; // Distinct conversations that reached the node
+  dropOffs: number; // Visits that were the conversation's last event
+  dropOffRate: number; // dropOffs / visits, 0-1
+  avgTimeToNextMs: number | null; // Mean time until the next event, null when nobody moved on
+}
+
+export interface FlowAnalytics {
+  eventCount: number;
+  conversationCount: number;
+  nodes: Map<string, NodeAnalytics>; // Every node ID in the log, known to the flow or not
+  transitions: Map<string, number>; // "<from>-><to>" -> times a conversation moved along it
+}
+
+// Log node IDs that are not in the flow (any more), with how often they appear
+export interface MissingNode {
+  nodeId: string;
+  visits: number;
+}
+
+/**
+ * Conversation analytics from production logs
+ *
+ * Log format: JSON lines of `{ conversationId, nodeId, timestamp }`, the
+ * timestamp in epoch milliseconds or as an ISO date string; blank lines are
+ * skipped and the lines of one conversation may appear in any order
+ * Steps: each conversation's events are sorted by time, and every pair of
+ * neighbouring events is one move from a node to the next
+ * Drop-off: a visit is a drop-off when it is the conversation's last event
+ * Traffic: a connection's traffic is the number of moves between its ends;
+ * connections into a group count moves to its entry step, connections out
+ * of a group moves from any step inside it
+ */
+
+const transitionKey = (from: string, to: string) => `${from}->${to}`;
+
+const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+// Read a JSON lines log - every bad line is reported, nothing is imported if any are
+export const parseEventLog = (text: string): EventLogParseResult => {
+  const errors: string[] = [];
+  const events: ConversationEvent[] = [];
+
+  text.replace(/^﻿/, '').split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const label = `Line ${index + 1}`;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      errors.push(`${label} is not valid JSON`);
+      return;
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      errors.push(`${label} is not an object`);
+      return;
+    }
+
+    const { conversationId, nodeId, timestamp } = raw as Record<string, unknown>;
+    const time = parseTimestamp(timestamp);
+    if (typeof conversationId !== 'string' && typeof conversationId !== 'number') {
+      errors.push(`${label} has no "conversationId"`);
+    } else if (typeof nodeId !== 'string' || !nodeId) {
+      errors.push(`${label} has no "nodeId"`);
+    } else if (time === null) {
+      errors.push(`${label} has an invalid "timestamp" - use epoch milliseconds or an ISO date`);
+    } else {
+      events.push({ conversationId: String(conversationId), nodeId, timestamp: time });
+    }
+  });
+
+  if (errors.length === 0 && events.length === 0) {
+    errors.push('The log has no events');
+  }
+  return { isValid: errors.length === 0, errors, events };
+};
+
+// Visits, drop-offs, time to the next step and moves between nodes
+export const summarizeEvents = (events: ConversationEvent[]): FlowAnalytics => {
+  const conversations = new Map<string, ConversationEvent[]>();
+  events.forEach(event => {
+    const list = conversations.get(event.conversationId);
+    if (list) list.push(event);
+    else conversations.set(event.conversationId, [event]);
+  });
+
+  const totals = new Map<string, { visits: number; conversations: Set<string>; dropOffs: number; waited: number; moves: number }>();
+  const transitions = new Map<string, number>();
+
+  conversations.forEach((list, conversationId) => {
+    list.sort((a, b) => a.timestamp - b.timestamp);
+    list.forEach((event, index) => {
+      let total = totals.get(event.nodeId);
+      if (!total) {
+        total = { visits: 0, conversations: new Set(), dropOffs: 0, waited: 0, moves: 0 };
+        totals.set(event.nodeId, total);
+      }
+      total.visits += 1;
+      total.conversations.add(conversationId);
+
+      const next = list[index + 1];
+      if (!next) {
+        total.dropOffs += 1;
+        return;
+      }
+      total.waited += next.timestamp - event.timestamp;
+      total.moves += 1;
+      const key = transitionKey(event.nodeId, next.nodeId);
+      transitions.set(key, (transitions.get(key) ?? 0) + 1);
+    });
+  });
+
+  const nodes = new Map<string, NodeAnalytics>();
+  totals.forEach((total, nodeId) => nodes.set(nodeId, {
+    visits: total.visits,
+    conversations: total.conversations.size,
+    dropOffs: total.dropOffs,
+    dropOffRate: total.dropOffs / total.visits,
+    avgTimeToNextMs: total.moves > 0 ? total.waited / total.moves : null,
+  }));
+
+  return { eventCount: events.length, conversationCount: conversations.size, nodes, transitions };
+};
+
+// Log node IDs the flow does not contain at any depth, most visited first
+export const findMissingNodes = (analytics: FlowAnalytics, nodes: Node[]): MissingNode[] => {
+  const known = new Set(flattenNodes(nodes).map(node => node.id));
+  return [...analytics.nodes]
+    .filter(([nodeId]) => !known.has(nodeId))
+    .map(([nodeId, stats]) => ({ nodeId, visits: stats.visits }))
+    .sort((a, b) => b.visits - a.visits);
+};
+
+// Moves along each connection on a canvas - see "Traffic" above for groups
+export const computeEdgeTraffic = (analytics: FlowAnalytics, nodes: Node[], edges: Edge[]): Map<string, number> => {
+  const { entries } = expandGroups(nodes, []);
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const sourcesOf = (nodeId: string): string[] => {
+    const node = nodesById.get(nodeId);
+    return node?.type === 'groupNode' ? flattenNodes((node.data as GroupNodeData).flow.nodes as Node[]).map(inner => inner.id) : [nodeId];
+  };
+
+  return new Map(edges.map(edge => {
+    const target = entries.get(edge.target) ?? edge.target;
+    const traffic = sourcesOf(edge.source).reduce((sum, source) => sum + (analytics.transitions.get(transitionKey(source, target)) ?? 0), 0);
+    return [edge.id, traffic];
+  }));
+};
+
+// "850 ms", "12 s", "3.5 min", "2.1 h"
+export const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60000) return `${Math.round(ms / 1000)} s`;
+  if (ms < 3600000) return `${Number((ms / 60000).toFixed(1))} min`;
+  return `${Number((ms / 3600000).toFixed(1))} h`;
+};
@@ -0,0 +1,38 @@
+export type InputType = 'text' | 'number' | 'email' | 'phone' | 'choice';
+
+export const INPUT_TYPE_LABELS: Record<InputType, string> = {
+  text: 'text',
+  number: 'a number',
+  email: 'an email',
+  phone: 'a phone number',
+  choice: 'a choice',
+};
+
+/**
+ * Answer validation for collect-input nodes
+ *
+ * Checks a user's reply against the node's input type and returns the
+ * normalized value to store, or null when the reply must be asked again
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+export const validateAnswer = (inputType: InputType, answer: string, choices: string[] = []): string | null => {
+  const value = answer.trim();
+  if (!value) return null;
+
+  switch (inputType) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? String(Number(value)) : null;
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? value.toLowerCase() : null;
+    case 'phone':
+      return PHONE_PATTERN.test(value) && value.replace(/\D/g, '').length >= 7 ? value.replace(/[\s().-]/g, '') : null;
+    case 'choice':
+      // Match case-insensitively but store the choice as written in the flow
+      return choices.find(choice => choice.trim().toLowerCase() === value.toLowerCase()) ?? null;
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,146 @@
+import { Node, Edge } from 'reactflow';
+import { FlowData, validateFlow, createValidationCache } from './validation';
+import { DEFAULT_LOCALE_SETTINGS } from './translations';
+import { getSourceHandleIds } from '../engine/graph';
+import { FLOW_EDGE_TYPE, createEdgeData } from '../edges/edgeData';
+import { computeLayout } from './layout';
+
+// Largest fixture the editor will generate - beyond this the browser, not the editor, is the bottleneck
+export const MAX_BENCHMARK_NODES = 20000;
+
+const LAYER_SPACING = 320;
+const ROW_SPACING = 160;
+
+export interface ValidationBenchmark {
+  nodes: number;
+  edges: number;
+  fullMs: number; // validateFlow with an empty cache - opening a flow
+  incrementalMs: number; // validateFlow after editing one node - every keystroke
+  layoutMs: number; // computeLayout over the whole flow - Auto-arrange
+  issues: number;
+}
+
+/**
+ * Benchmark fixtures for large flows
+ *
+ * Fixtures: generateBenchmarkFlow builds a valid flow of any size from a seed -
+ * the same seed always gives the same flow, so timings can be compared
+ * between changes. It mixes plain messages (most), button menus, conditions
+ * and questions the way generated flows do, wired breadth first from a single
+ * start, with every branch left open joined to a closing message
+ * Usage: open the editor with `?benchmark=5000` to load a 5000-node fixture;
+ * the validation and layout timings are shown in a toast
+ */
+
+// Small deterministic PRNG (mulberry32) - Math.random cannot be seeded
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Node count from the page's query string, or null when no benchmark was asked for
+export const getBenchmarkSize = (search: string): number | null => {
+  const size = Number(new URLSearchParams(search).get('benchmark'));
+  return Number.isInteger(size) && size > 0 ? Math.min(size, MAX_BENCHMARK_NODES) : null;
+};
+
+export const generateBenchmarkFlow = (nodeCount: number, seed = 1): FlowData => {
+  const random = createRandom(seed);
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  const depth = new Map<string, number>();
+  const rows = new Map<number, number>(); // Layer -> nodes placed in it so far
+  const open: { source: string; handle: string | null }[] = []; // Handles still waiting for a next step, oldest first
+  let nextOpen = 0;
+
+  const createNodeData = (index: number): Pick<Node, 'type' | 'data'> => {
+    const roll = random();
+    if (index === 0 || roll < 0.6) {
+      return { type: 'textNode', data: { text: `Message ${index + 1}: thanks, {{plan}} customers get this step.` } };
+    }
+    if (roll < 0.8) {
+      const count = 2 + Math.floor(random() * 2);
+      return {
+        type: 'buttonNode',
+        data: {
+          text: `Menu ${index + 1}`,
+          buttons: Array.from({ length: count }, (_, button) => ({ id: `n${index}-btn${button}`, label: `Option ${button + 1}` })),
+        },
+      };
+    }
+    if (roll < 0.9) {
+      return {
+        type: 'conditionNode',
+        data: { cases: [{ id: `n${index}-case`, variable: 'plan', operator: 'equals', value: 'pro' }] },
+      };
+    }
+    return {
+      type: 'inputNode',
+      data: { text: `Question ${index + 1}?`, variable: `answer${index}`, inputType: 'text', choices: [], errorMessage: '' },
+    };
+  };
+
+  const addNode = (id: string, content: Pick<Node, 'type' | 'data'>, layer: number) => {
+    const row = rows.get(layer) ?? 0;
+    rows.set(layer, row + 1);
+    depth.set(id, layer);
+    const node: Node = { id, ...content, position: { x: layer * LAYER_SPACING, y: row * ROW_SPACING } };
+    nodes.push(node);
+    getSourceHandleIds(node).forEach(handle => open.push({ source: id, handle }));
+  };
+
+  const connect = (source: string, handle: string | null, target: string) => {
+    edges.push({ id: `e${edges.length}`, source, sourceHandle: handle, target, type: FLOW_EDGE_TYPE, data: createEdgeData() });
+  };
+
+  for (let index = 0; index < Math.max(nodeCount - 1, 1); index++) {
+    const id = `n${index}`;
+    const from = index === 0 ? null : open[nextOpen++];
+    addNode(id, createNodeData(index), from ? depth.get(from.source)! + 1 : 0);
+    if (from) connect(from.source, from.handle, id);
+  }
+
+  // Every branch still open ends in one closing message
+  if (nodeCount > 1) {
+    const waiting = open.slice(nextOpen);
+    const deepest = waiting.reduce((max, entry) => Math.max(max, depth.get(entry.source)!), 0);
+    addNode('closing', { type: 'textNode', data: { text: 'Thanks for chatting!' } }, deepest + 1);
+    waiting.forEach(entry => connect(entry.source, entry.handle, 'closing'));
+  }
+
+  return {
+    nodes: nodes.map(({ id, type, position, data }) => ({ id, type, position, data })),
+    edges,
+    variables: [{ name: 'plan', type: 'text', defaultValue: 'free' }],
+    locales: DEFAULT_LOCALE_SETTINGS,
+  };
+};
+
+// Time a cold validation and an incremental one after a single-node edit
+export const runValidationBenchmark = (flow: FlowData): ValidationBenchmark => {
+  const nodes = flow.nodes as Node[];
+  const edges = flow.edges as Edge[];
+  const cache = createValidationCache();
+
+  let started = performance.now();
+  const result = validateFlow(nodes, edges, flow.variables, flow.locales, cache);
+  const fullMs = performance.now() - started;
+
+  // Same as typing into one node: only its object is replaced
+  const edited = nodes.map((node, index) => (index === 0 ? { ...node, data: { ...node.data, text: `${node.data.text}!` } } : node));
+  started = performance.now();
+  validateFlow(edited, edges, flow.variables, flow.locales, cache);
+  const incrementalMs = performance.now() - started;
+
+  started = performance.now();
+  computeLayout(nodes, edges);
+  const layoutMs = performance.now() - started;
+
+  return { nodes: nodes.length, edges: edges.length, fullMs, incrementalMs, layoutMs, issues: result.issues.length };
+};
@@ -0,0 +1,88 @@
+/**
+ * Canvas snapshots - the canvas as currently shown, saved as an SVG or PNG image
+ *
+ * Rendering: the React Flow element is cloned with every computed style
+ * written inline and wrapped in an SVG <foreignObject>, so the image matches
+ * the screen without a rendering library; PNGs draw that SVG onto a canvas
+ * Left out: the zoom controls, minimap and other overlay panels. Local media
+ * previews are embedded as data URLs; images only linked by URL may be
+ * missing from PNGs, since browsers do not load them inside an SVG image
+ */
+
+// Screen furniture rather than flow content
+const EXCLUDED_SELECTOR = '.react-flow__panel, .react-flow__controls, .react-flow__minimap, .react-flow__attribution';
+
+const PNG_SCALE = 2; // Pixels per screen pixel, sharp on high-density displays
+
+// Copy computed styles onto the clone, walking both trees side by side
+const inlineStyles = (source: Element, clone: Element) => {
+  const computed = window.getComputedStyle(source);
+  const style = (clone as HTMLElement | SVGElement).style;
+  for (let index = 0; index < computed.length; index++) {
+    const property = computed[index];
+    style.setProperty(property, computed.getPropertyValue(property), computed.getPropertyPriority(property));
+  }
+  for (let index = 0; index < source.children.length; index++) {
+    inlineStyles(source.children[index], clone.children[index]);
+  }
+};
+
+// Local previews (blob: URLs) stop working outside this tab - embed their pixels instead
+const embedLocalImages = (source: Element, clone: Element) => {
+  const sourceImages = source.querySelectorAll('img');
+  const cloneImages = clone.querySelectorAll('img');
+  sourceImages.forEach((image, index) => {
+    if (!image.src.startsWith('blob:')) return;
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      cloneImages[index].src = canvas.toDataURL();
+    } catch {
+      cloneImages[index].remove(); // Not loaded yet - leave the preview out
+    }
+  });
+};
+
+export const renderCanvasSvg = (element: HTMLElement): string => {
+  const { width, height } = element.getBoundingClientRect();
+  const clone = element.cloneNode(true) as HTMLElement;
+  inlineStyles(element, clone);
+  embedLocalImages(element, clone);
+  clone.querySelectorAll(EXCLUDED_SELECTOR).forEach(excluded => excluded.remove());
+
+  const content = new XMLSerializer().serializeToString(clone);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<foreignObject x="0" y="0" width="100%" height="100%">${content}</foreignObject></svg>`;
+};
+
+export const renderCanvasPng = (element: HTMLElement): Promise<Blob> => {
+  const { width, height } = element.getBoundingClientRect();
+  const svg = renderCanvasSvg(element);
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(width * PNG_SCALE);
+      canvas.height = Math.ceil(height * PNG_SCALE);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('This browser cannot draw images'));
+        return;
+      }
+      context.fillStyle = '#ffffff'; // Transparent areas would turn black in some viewers
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(PNG_SCALE, PNG_SCALE);
+      context.drawImage(image, 0, 0, width, height);
+      try {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded'))), 'image/png');
+      } catch {
+        reject(new Error('This browser does not allow saving the canvas as PNG - export an SVG instead'));
+      }
+    };
+    image.onerror = () => reject(new Error('The canvas could not be rendered'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+};
@@ -0,0 +1,126 @@
+import { Node, Edge, XYPosition } from 'reactflow';
+import { FlowData, createFlowData, getTemplateSources, restoreFlowData } from './validation';
+import { flattenNodes, toSubflowGraph } from './groups';
+import { FLOW_FILE_FORMAT, FlowFileParseResult, parseFlowFile, serializeFlowFile } from './flowFile';
+import { FlowVariable, getCapturedVariables } from './variables';
+import { extractTemplateVariables } from './templates';
+import { createId } from './ids';
+import { renameTranslationKeys } from './translations';
+import { ReplyButton } from '../nodes/ButtonNode';
+import { ConditionCase } from '../nodes/ConditionNode';
+import { GroupNodeData, SubflowGraph } from '../nodes/GroupNode';
+import { CommentThread } from './comments';
+
+/**
+ * Copy/paste of node selections
+ *
+ * Format: a fragment is stored on the clipboard as a regular flow file, so
+ * it can be pasted into another tab (or even saved as a file) and goes
+ * through the same migrations and schema checks as an import
+ * Contents: the selected nodes, the connections between them and the
+ * declared variables they reference
+ * IDs: every node, edge, reply button, condition case, comment thread and
+ * comment gets a fresh ID on paste (inside groups too), so the same fragment
+ * can be pasted any number of times; translations of reply buttons move to
+ * the new button IDs
+ */
+
+// Declared variables a set of nodes mentions in conditions or {{templates}}, or stores into
+// Template fields come from the validator, so anything it checks is carried along
+const referencedVariables = (nodes: Node[], variables: FlowVariable[]): FlowVariable[] => {
+  const names = new Set<string>();
+  flattenNodes(nodes).forEach(node => {
+    (node.data?.cases || []).forEach((branch: ConditionCase) => names.add(branch.variable));
+    getTemplateSources(node).forEach(text => extractTemplateVariables(text).forEach(name => names.add(name)));
+    getCapturedVariables(node).forEach(({ name }) => names.add(name));
+  });
+  return variables.filter(variable => names.has(variable.name));
+};
+
+// Selected nodes plus the edges between them - null when nothing is selected
+export const copySelection = (nodes: Node[], edges: Edge[], variables: FlowVariable[]): FlowData | null => {
+  const selected = nodes.filter(node => node.selected);
+  if (selected.length === 0) return null;
+
+  const ids = new Set(selected.map(node => node.id));
+  const inner = edges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+  return createFlowData(selected, inner, referencedVariables(selected, variables));
+};
+
+export const serializeFragment = (fragment: FlowData): string => serializeFlowFile('Copied nodes', fragment);
+
+// Read flow content from clipboard text
+// null means the text is not flow content at all (e.g. a sentence copied from elsewhere)
+export const parseFragment = (text: string): FlowFileParseResult | null => {
+  try {
+    if (JSON.parse(text)?.format !== FLOW_FILE_FORMAT) return null;
+  } catch {
+    return null;
+  }
+  return parseFlowFile(text);
+};
+
+// Canvas nodes and edges for a fragment, with fresh IDs and shifted positions
+// Handle IDs are remapped along with the buttons/cases they belong to; nodeIds maps old to new
+export const instantiateFragment = (
+  fragment: SubflowGraph,
+  offset: XYPosition,
+): { nodes: Node[]; edges: Edge[]; nodeIds: Map<string, string> } => {
+  const restored = restoreFlowData({ ...fragment, variables: [] });
+  const nodeIds = new Map<string, string>();
+  const handleIds = new Map<string, string>(); // Keyed by "<old node id>:<old handle id>"
+
+  const nodes = restored.nodes.map(node => {
+    const id = createId('node');
+    nodeIds.set(node.id, id);
+
+    const data = { ...node.data };
+    if (node.type === 'buttonNode' || node.type === 'mediaNode') {
+      const translationKeys = new Map<string, string>(); // Old "button:<id>" key -> new one
+      data.buttons = (data.buttons || []).map((button: ReplyButton) => {
+        const buttonId = createId('btn');
+        handleIds.set(`${node.id}:${button.id}`, buttonId);
+        translationKeys.set(`button:${button.id}`, `button:${buttonId}`);
+        return { ...button, id: buttonId };
+      });
+      if (data.translations) data.translations = renameTranslationKeys(data.translations, key => translationKeys.get(key) ?? key);
+    }
+    if (node.type === 'conditionNode') {
+      data.cases = (data.cases || []).map((branch: ConditionCase) => {
+        const caseId = createId('case');
+        handleIds.set(`${node.id}:${branch.id}`, caseId);
+        return { ...branch, id: caseId };
+      });
+    }
+    if (data.comments) {
+      data.comments = data.comments.map((thread: CommentThread) => ({
+        ...thread,
+        id: createId('thread'),
+        comments: thread.comments.map(comment => ({ ...comment, id: createId('comment') })),
+      }));
+    }
+    if (node.type === 'groupNode') {
+      const group = data as GroupNodeData;
+      const inner = instantiateFragment(group.flow, { x: 0, y: 0 });
+      data.flow = toSubflowGraph(inner.nodes, inner.edges);
+      data.entryNodeId = inner.nodeIds.get(group.entryNodeId) ?? '';
+    }
+
+    return {
+      ...node,
+      id,
+      data,
+      position: { x: node.position.x + offset.x, y: node.position.y + offset.y },
+    };
+  });
+
+  const edges = restored.edges.map(edge => ({
+    ...edge,
+    id: createId('edge'),
+    source: nodeIds.get(edge.source)!,
+    target: nodeIds.get(edge.target)!,
+    sourceHandle: edge.sourceHandle ? handleIds.get(`${edge.source}:${edge.sourceHandle}`) ?? edge.sourceHandle : edge.sourceHandle,
+  }));
+
+  return { nodes, edges, nodeIds };
+};
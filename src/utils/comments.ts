@@ -0,0 +1,70 @@
+import { Node } from 'reactflow';
+import { MESSAGE_NODE_TYPES } from '../nodes/labels';
+import { createId } from './ids';
+
+export interface NodeComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string; // ISO timestamp
+}
+
+// A discussion attached to one node - the first comment opens it, the rest are replies
+export interface CommentThread {
+  id: string;
+  resolved: boolean;
+  comments: NodeComment[];
+}
+
+// A thread with the canvas node it belongs to, for the comments panel
+export interface NodeThread {
+  node: Node;
+  thread: CommentThread;
+}
+
+/**
+ * Review comments on message nodes
+ *
+ * Storage: threads live in the node's data (`comments`), so they are saved,
+ * exported, copied and undone together with the node they discuss
+ * Scope: message nodes only (see MESSAGE_NODE_TYPES); the runtime and
+ * validation never read them
+ */
+
+export const canHaveComments = (node: Pick<Node, 'type'>) => MESSAGE_NODE_TYPES.includes(node.type || '');
+
+export const getThreads = (node: Pick<Node, 'data'>): CommentThread[] => node.data?.comments || [];
+
+export const countOpenThreads = (threads: CommentThread[]) => threads.filter(thread => !thread.resolved).length;
+
+const createComment = (author: string, text: string): NodeComment => ({
+  id: createId('comment'),
+  author: author.trim() || 'Anonymous',
+  text: text.trim(),
+  createdAt: new Date().toISOString(),
+});
+
+export const startThread = (threads: CommentThread[], author: string, text: string): CommentThread[] => [
+  ...threads,
+  { id: createId('thread'), resolved: false, comments: [createComment(author, text)] },
+];
+
+// Replying to a resolved thread reopens it - the discussion is evidently not over
+export const replyToThread = (threads: CommentThread[], threadId: string, author: string, text: string): CommentThread[] =>
+  threads.map(thread => (thread.id === threadId
+    ? { ...thread, resolved: false, comments: [...thread.comments, createComment(author, text)] }
+    : thread));
+
+export const setThreadResolved = (threads: CommentThread[], threadId: string, resolved: boolean): CommentThread[] =>
+  threads.map(thread => (thread.id === threadId ? { ...thread, resolved } : thread));
+
+export const deleteThread = (threads: CommentThread[], threadId: string): CommentThread[] =>
+  threads.filter(thread => thread.id !== threadId);
+
+// Every thread on the canvas, unresolved first, then newest activity first
+export const collectThreads = (nodes: Node[]): NodeThread[] => {
+  const lastActivity = (thread: CommentThread) => thread.comments[thread.comments.length - 1]?.createdAt ?? '';
+  return nodes
+    .flatMap(node => getThreads(node).map(thread => ({ node, thread })))
+    .sort((a, b) => Number(a.thread.resolved) - Number(b.thread.resolved) || lastActivity(b.thread).localeCompare(lastActivity(a.thread)));
+};
@@ -0,0 +1,59 @@
+import { ConditionCase, ConditionOperator } from '../nodes/ConditionNode';
+
+// Handle ID of the branch taken when no case matches
+export const DEFAULT_BRANCH_ID = 'default';
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'equals',
+  contains: 'contains',
+  matches: 'matches regex',
+  isEmpty: 'is empty',
+};
+
+/**
+ * Condition evaluation for condition nodes
+ *
+ * Comparisons are case-insensitive and ignore surrounding whitespace, since
+ * values usually come from free-text user replies. Missing variables read
+ * as empty text
+ */
+
+// Human readable summary, e.g. `plan equals "pro"`
+export const describeCase = (branch: ConditionCase) => {
+  const variable = branch.variable || '(no variable)';
+  if (branch.operator === 'isEmpty') {
+    return `${variable} ${OPERATOR_LABELS.isEmpty}`;
+  }
+  return `${variable} ${OPERATOR_LABELS[branch.operator]} "${branch.value}"`;
+};
+
+// Returns the compile error for a 'matches' pattern, or null when it is valid
+export const getPatternError = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+export const evaluateCase = (branch: ConditionCase, values: Record<string, string>): boolean => {
+  const value = (values[branch.variable] ?? '').trim();
+  const expected = branch.value.trim();
+
+  switch (branch.operator) {
+    case 'equals':
+      return value.toLowerCase() === expected.toLowerCase();
+    case 'contains':
+      return value.toLowerCase().includes(expected.toLowerCase());
+    case 'matches':
+      return getPatternError(branch.value) === null && new RegExp(branch.value, 'i').test(value);
+    case 'isEmpty':
+      return value === '';
+  }
+};
+
+// Handle ID of the branch to follow - first matching case, else the default branch
+export const evaluateCondition = (cases: ConditionCase[], values: Record<string, string>): string => {
+  return cases.find(branch => evaluateCase(branch, values))?.id ?? DEFAULT_BRANCH_ID;
+};
@@ -0,0 +1,195 @@
+import { Node, Edge } from 'reactflow';
+import { FlowData, describeNode } from './validation';
+import { getHandleLabel } from '../engine/graph';
+
+type FlowNode = FlowData['nodes'][number];
+type FlowEdge = FlowData['edges'][number];
+
+export type NodeChangeStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface NodeDiff {
+  id: string;
+  status: NodeChangeStatus;
+  moved: boolean;
+  textChanged: boolean; // Message text differs
+  settingsChanged: boolean; // Any other data differs (buttons, cases, request...)
+  node: FlowNode; // Target version - the base version for removed nodes
+  before?: FlowNode; // Base version of a node present in both revisions
+  label: string;
+}
+
+export interface EdgeDiff {
+  key: string;
+  status: 'added' | 'removed';
+  edge: FlowEdge;
+  description: string; // e.g. `"Hi" (Yes) → "Thanks"`
+}
+
+export interface VariableDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed';
+}
+
+export interface FlowDiff {
+  nodes: NodeDiff[]; // Every node of either revision
+  edges: EdgeDiff[]; // Changed connections only
+  variables: VariableDiff[];
+}
+
+/**
+ * Revision comparison
+ *
+ * Nodes: matched by id - IDs survive saves, so a node missing from one side
+ * was added or removed; one on both sides may have moved (position differs
+ * by more than MOVE_TOLERANCE) and/or had its text or settings changed
+ * Edges: matched by what they connect (source, source handle, target) rather
+ * than by id, so reconnecting the same handles is not reported as a change
+ * Overlay: buildDiffOverlay turns a diff into read-only canvas nodes and
+ * edges - removed items are drawn from the base revision so both sides show
+ */
+
+const MOVE_TOLERANCE = 1; // Pixels - absorbs rounding from auto-arrange
+
+const edgeKey = (edge: FlowEdge) => `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}`;
+
+// Everything except the message text, for the "settings changed" check
+const settingsOf = (node: FlowNode) => {
+  const { text, ...settings } = node.data || {};
+  return JSON.stringify({ type: node.type, settings });
+};
+
+// Caption of the handle an edge leaves from, when the node has several
+const describeHandle = (node: FlowNode | undefined, handleId: string | null | undefined): string => {
+  const label = node ? getHandleLabel(node, handleId) : null;
+  return label ? ` (${label})` : '';
+};
+
+export const diffFlows = (base: FlowData, target: FlowData): FlowDiff => {
+  const baseNodes = new Map(base.nodes.map(node => [node.id, node]));
+  const targetNodes = new Map(target.nodes.map(node => [node.id, node]));
+
+  const nodes: NodeDiff[] = target.nodes.map(node => {
+    const before = baseNodes.get(node.id);
+    if (!before) {
+      return { id: node.id, status: 'added', moved: false, textChanged: false, settingsChanged: false, node, label: describeNode(node) };
+    }
+
+    const moved =
+      Math.abs(node.position.x - before.position.x) > MOVE_TOLERANCE ||
+      Math.abs(node.position.y - before.position.y) > MOVE_TOLERANCE;
+    const textChanged = (node.data?.text ?? '') !== (before.data?.text ?? '');
+    const settingsChanged = settingsOf(node) !== settingsOf(before);
+    return {
+      id: node.id,
+      status: moved || textChanged || settingsChanged ? 'modified' : 'unchanged',
+      moved,
+      textChanged,
+      settingsChanged,
+      node,
+      before,
+      label: describeNode(node),
+    };
+  });
+  base.nodes
+    .filter(node => !targetNodes.has(node.id))
+    .forEach(node => {
+      nodes.push({ id: node.id, status: 'removed', moved: false, textChanged: false, settingsChanged: false, node, label: describeNode(node) });
+    });
+
+  // Edge labels prefer the side the edge exists on, falling back to the other
+  const describeEdge = (edge: FlowEdge, primary: Map<string, FlowNode>, secondary: Map<string, FlowNode>) => {
+    const source = primary.get(edge.source) ?? secondary.get(edge.source);
+    const target = primary.get(edge.target) ?? secondary.get(edge.target);
+    const sourceLabel = source ? describeNode(source) : edge.source;
+    const targetLabel = target ? describeNode(target) : edge.target;
+    return `${sourceLabel}${describeHandle(source, edge.sourceHandle)} → ${targetLabel}`;
+  };
+
+  const baseEdgeKeys = new Set(base.edges.map(edgeKey));
+  const targetEdgeKeys = new Set(target.edges.map(edgeKey));
+  const edges: EdgeDiff[] = [
+    ...target.edges
+      .filter(edge => !baseEdgeKeys.has(edgeKey(edge)))
+      .map(edge => ({ key: edgeKey(edge), status: 'added' as const, edge, description: describeEdge(edge, targetNodes, baseNodes) })),
+    ...base.edges
+      .filter(edge => !targetEdgeKeys.has(edgeKey(edge)))
+      .map(edge => ({ key: edgeKey(edge), status: 'removed' as const, edge, description: describeEdge(edge, baseNodes, targetNodes) })),
+  ];
+
+  const baseVariables = new Map((base.variables || []).map(variable => [variable.name, variable]));
+  const targetVariables = new Map((target.variables || []).map(variable => [variable.name, variable]));
+  const variables: VariableDiff[] = [];
+  targetVariables.forEach((variable, name) => {
+    const before = baseVariables.get(name);
+    if (!before) variables.push({ name, status: 'added' });
+    else if (before.type !== variable.type || before.defaultValue !== variable.defaultValue) variables.push({ name, status: 'changed' });
+  });
+  baseVariables.forEach((_, name) => {
+    if (!targetVariables.has(name)) variables.push({ name, status: 'removed' });
+  });
+
+  return { nodes, edges, variables };
+};
+
+// True when the two revisions are identical as far as the diff can tell
+export const isEmptyDiff = (diff: FlowDiff) =>
+  diff.edges.length === 0 && diff.variables.length === 0 && diff.nodes.every(node => node.status === 'unchanged');
+
+// Ring drawn around each node in the compare overlay
+const NODE_CLASSES: Record<NodeChangeStatus, string> = {
+  added: 'rounded-lg ring-4 ring-green-500',
+  removed: 'rounded-lg ring-4 ring-red-500 opacity-60',
+  modified: 'rounded-lg ring-4 ring-amber-400',
+  unchanged: '',
+};
+
+const MOVED_ONLY_CLASS = 'rounded-lg ring-4 ring-sky-400'; // Moved but content unchanged
+const GHOST_CLASS = 'rounded-lg opacity-30 pointer-events-none'; // Where a moved node used to be
+
+export const GHOST_SUFFIX = '::before';
+
+// Read-only canvas content showing both revisions at once
+export const buildDiffOverlay = (diff: FlowDiff, target: FlowData, base: FlowData): { nodes: Node[]; edges: Edge[] } => {
+  const nodes: Node[] = [];
+  diff.nodes.forEach(entry => {
+    const contentChanged = entry.textChanged || entry.settingsChanged;
+    nodes.push({
+      ...entry.node,
+      className: entry.moved && !contentChanged ? MOVED_ONLY_CLASS : NODE_CLASSES[entry.status],
+      draggable: false,
+      connectable: false,
+    });
+    if (entry.moved && entry.before) {
+      nodes.push({
+        ...entry.before,
+        id: `${entry.id}${GHOST_SUFFIX}`,
+        className: GHOST_CLASS,
+        draggable: false,
+        selectable: false,
+        connectable: false,
+      });
+    }
+  });
+
+  const changed = new Map(diff.edges.map(entry => [`${entry.status}:${entry.key}`, entry]));
+  const edges: Edge[] = target.edges.map(edge => {
+    const added = changed.has(`added:${edgeKey(edge)}`);
+    return {
+      ...edge,
+      id: `diff:${edge.id}`,
+      animated: added,
+      style: added ? { stroke: '#22c55e', strokeWidth: 3 } : undefined, // Tailwind green-500
+    };
+  });
+  base.edges
+    .filter(edge => changed.has(`removed:${edgeKey(edge)}`))
+    .forEach(edge => {
+      edges.push({
+        ...edge,
+        id: `diff-removed:${edge.id}`,
+        style: { stroke: '#ef4444', strokeWidth: 3, strokeDasharray: '6 4' }, // Tailwind red-500
+      });
+    });
+
+  return { nodes, edges };
+};
@@ -0,0 +1,346 @@
+import { FlowData } from './validation';
+import { DEFAULT_BRANCH_ID, describeCase } from './conditions';
+import { HTTP_SUCCESS_HANDLE } from './http';
+import { OUTSIDE_HOURS_HANDLE, describeBusinessHours } from './schedule';
+import { MEDIA_KIND_LABELS } from './media';
+import { buildFlowGraph, findStartNodes, getHandleLabel, getSourceHandleIds, withoutAnnotations } from '../engine/graph';
+import { NODE_TYPE_LABELS } from '../nodes/labels';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { ConditionCase } from '../nodes/ConditionNode';
+import { ResponseMapping } from '../nodes/HttpNode';
+import { MediaKind } from '../nodes/MediaNode';
+import { EDGE_PRIORITY_LABELS, FlowEdgeData, formatDelay } from '../edges/edgeData';
+
+type ExportNode = FlowData['nodes'][number];
+type ExportEdge = FlowData['edges'][number];
+
+/**
+ * Flow exporters for readers outside the editor
+ *
+ * Input: the serialized flow from createFlowData, so exports match what is saved
+ * Diagrams: Mermaid flowcharts and Graphviz DOT files draw every node with a
+ * shape per type and label connections with their branch (reply button, case,
+ * success/failure) and connection label; sub-flows become nested subgraphs
+ * Script: a markdown document with one numbered section per node in
+ * conversation order - breadth-first from the start, branches in handle
+ * order - quoting its message and listing where every path goes. Steps of a
+ * sub-flow are numbered under it (4.1, 4.2, ...)
+ * Text is the flow's default language; {{variable}} placeholders are kept as written.
+ * Sticky notes are left out - they annotate the canvas, not the conversation
+ */
+
+const MAX_LABEL_LENGTH = 60; // Diagram labels are cut here, the script quotes in full
+
+const truncate = (text: string, length = MAX_LABEL_LENGTH) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+// Main text of a node on one line - message, question, group name, request or card title
+const getNodeText = (node: ExportNode): string => {
+  const data = node.data || {};
+  let text: string;
+  switch (node.type) {
+    case 'groupNode': text = data.name || ''; break;
+    case 'httpNode': text = `${data.method} ${data.url || ''}`; break;
+    case 'mediaNode': text = data.kind === 'card' ? data.title || '' : data.text || data.asset?.fileName || ''; break;
+    case 'conditionNode': text = ''; break;
+    default: text = data.text || '';
+  }
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+// "Message: Hi there", "Condition"
+const getNodeLabel = (node: ExportNode) => {
+  const type = node.type === 'mediaNode' ? MEDIA_KIND_LABELS[node.data?.kind as MediaKind] ?? 'Media' : NODE_TYPE_LABELS[node.type || ''] || 'Node';
+  const text = getNodeText(node);
+  return text ? `${type}: ${truncate(text)}` : type;
+};
+
+// What a path is called - "Next", "Button "Yes"", "If plan equals "pro"", "On failure"
+const describePath = (node: ExportNode, handleId: string | null): string => {
+  if (node.type === 'conditionNode') {
+    if (handleId === DEFAULT_BRANCH_ID) return 'Otherwise';
+    const branch = (node.data?.cases || []).find((candidate: ConditionCase) => candidate.id === handleId);
+    return branch ? `If ${describeCase(branch)}` : 'Branch';
+  }
+  if (node.type === 'httpNode') return handleId === HTTP_SUCCESS_HANDLE ? 'On success' : 'On failure';
+  if (node.type === 'textNode') return handleId === OUTSIDE_HOURS_HANDLE ? 'Outside hours' : 'Next';
+  const label = getHandleLabel(node, handleId);
+  return label ? `Button "${label}"` : 'Next';
+};
+
+// Branch and connection label for diagrams, e.g. "Button "Yes" / if they agree"
+const getEdgeLabel = (edge: ExportEdge, nodesById: Map<string, ExportNode>) => {
+  const source = nodesById.get(edge.source);
+  const branch = source && source.type !== 'groupNode' && getSourceHandleIds(source).length > 1
+    ? describePath(source, edge.sourceHandle ?? null)
+    : null;
+  const label = (edge.data as FlowEdgeData | undefined)?.label?.trim();
+  return [branch, label].filter(Boolean).join(' / ');
+};
+
+// Node ID -> short diagram ID, since node IDs may hold characters neither format accepts
+const createAliases = (nodes: ExportNode[]) => {
+  const aliases = new Map<string, string>();
+  const visit = (list: ExportNode[]) => list.forEach(node => {
+    aliases.set(node.id, `n${aliases.size + 1}`);
+    if (node.type === 'groupNode') visit((node.data as GroupNodeData).flow.nodes);
+  });
+  visit(nodes);
+  return aliases;
+};
+
+// ---- Mermaid ----
+
+const escapeMermaid = (text: string) => text.replace(/"/g, '#quot;');
+
+const mermaidShape = (node: ExportNode, label: string) => {
+  const text = `"${escapeMermaid(label)}"`;
+  switch (node.type) {
+    case 'conditionNode': return `{${text}}`;
+    case 'inputNode': return `[/${text}/]`;
+    case 'httpNode': return `[[${text}]]`;
+    case 'mediaNode': return `>${text}]`;
+    default: return `[${text}]`;
+  }
+};
+
+export const exportMermaid = (flow: Pick<FlowData, 'nodes' | 'edges'>): string => {
+  const aliases = createAliases(flow.nodes);
+  const lines = ['flowchart LR'];
+
+  const writeGraph = (nodes: ExportNode[], edges: ExportEdge[], indent: string) => {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+    withoutAnnotations(nodes).forEach(node => {
+      const alias = aliases.get(node.id)!;
+      if (node.type === 'groupNode') {
+        const data = node.data as GroupNodeData;
+        lines.push(`${indent}subgraph ${alias}["${escapeMermaid(`Sub-flow: ${data.name}`)}"]`);
+        writeGraph(data.flow.nodes, data.flow.edges, `${indent}  `);
+        lines.push(`${indent}end`);
+      } else {
+        lines.push(`${indent}${alias}${mermaidShape(node, getNodeLabel(node))}`);
+      }
+    });
+    edges.forEach(edge => {
+      if (!nodesById.has(edge.source) || !nodesById.has(edge.target)) return;
+      const label = getEdgeLabel(edge, nodesById);
+      const arrow = label ? `-->|"${escapeMermaid(truncate(label))}"|` : '-->';
+      lines.push(`${indent}${aliases.get(edge.source)} ${arrow} ${aliases.get(edge.target)}`);
+    });
+  };
+
+  writeGraph(flow.nodes, flow.edges, '  ');
+  return `${lines.join('\n')}\n`;
+};
+
+// ---- Graphviz DOT ----
+
+const quoteDot = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const DOT_SHAPES: Record<string, string> = {
+  conditionNode: 'diamond',
+  inputNode: 'parallelogram',
+  httpNode: 'component',
+  mediaNode: 'note',
+};
+
+// Groups are clusters; connections to and from them attach to the entry step and are
+// clipped at the cluster border (compound=true), so they read as touching the group
+export const exportDot = (flow: Pick<FlowData, 'nodes' | 'edges'>, name: string): string => {
+  const aliases = createAliases(flow.nodes);
+  const lines = [
+    `digraph ${quoteDot(name)} {`,
+    '  rankdir=LR;',
+    '  compound=true;',
+    '  node [shape=box, style="rounded,filled", fillcolor=white, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  // A node that can carry edges standing in for a group - its entry, at any depth
+  const anchorOf = (node: ExportNode): string => {
+    if (node.type !== 'groupNode') return aliases.get(node.id)!;
+    const data = node.data as GroupNodeData;
+    const entry = data.flow.nodes.find(inner => inner.id === data.entryNodeId) ?? data.flow.nodes[0];
+    return entry ? anchorOf(entry) : aliases.get(node.id)!;
+  };
+
+  const writeGraph = (nodes: ExportNode[], edges: ExportEdge[], indent: string) => {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+    withoutAnnotations(nodes).forEach(node => {
+      const alias = aliases.get(node.id)!;
+      if (node.type === 'groupNode') {
+        const data = node.data as GroupNodeData;
+        lines.push(`${indent}subgraph cluster_${alias} {`);
+        lines.push(`${indent}  label=${quoteDot(`Sub-flow: ${data.name}`)};`);
+        lines.push(`${indent}  style="rounded,dashed";`);
+        writeGraph(data.flow.nodes, data.flow.edges, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else {
+        const shape = DOT_SHAPES[node.type || ''];
+        lines.push(`${indent}${alias} [label=${quoteDot(getNodeLabel(node))}${shape ? `, shape=${shape}` : ''}];`);
+      }
+    });
+    edges.forEach(edge => {
+      const source = nodesById.get(edge.source);
+      const target = nodesById.get(edge.target);
+      if (!source || !target) return;
+      const label = getEdgeLabel(edge, nodesById);
+      const attributes = [
+        label ? `label=${quoteDot(truncate(label))}` : null,
+        source.type === 'groupNode' ? `ltail=cluster_${aliases.get(source.id)}` : null,
+        target.type === 'groupNode' ? `lhead=cluster_${aliases.get(target.id)}` : null,
+      ].filter(Boolean);
+      lines.push(`${indent}${anchorOf(source)} -> ${anchorOf(target)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+    });
+  };
+
+  writeGraph(flow.nodes, flow.edges, '  ');
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
+
+// ---- Conversation script ----
+
+// Conversation order - breadth-first from the start nodes, then anything left top to bottom
+const orderNodes = (nodes: ExportNode[], edges: ExportEdge[], startIds: string[]): ExportNode[] => {
+  const graph = buildFlowGraph(withoutAnnotations(nodes), edges);
+  const ordered: ExportNode[] = [];
+  const seen = new Set<string>();
+  const queue = startIds.filter(id => graph.nodesById.has(id));
+  queue.forEach(id => seen.add(id));
+
+  const drain = () => {
+    while (queue.length > 0) {
+      const node = graph.nodesById.get(queue.shift()!)!;
+      ordered.push(node);
+      const outgoing = graph.outgoing.get(node.id) || [];
+      getSourceHandleIds(node).forEach(handleId => {
+        outgoing.filter(edge => (edge.sourceHandle ?? null) === handleId).forEach(edge => {
+          if (!seen.has(edge.target) && graph.nodesById.has(edge.target)) {
+            seen.add(edge.target);
+            queue.push(edge.target);
+          }
+        });
+      });
+    }
+  };
+
+  drain();
+  [...graph.nodes]
+    .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x)
+    .forEach(node => {
+      if (seen.has(node.id)) return;
+      seen.add(node.id);
+      queue.push(node.id);
+      drain();
+    });
+  return ordered;
+};
+
+// "(label · after 1.5s · High priority)" from a connection's metadata, '' when it has none
+const describeEdgeData = (edge: ExportEdge) => {
+  const data = edge.data as FlowEdgeData | undefined;
+  const parts = [
+    data?.label?.trim() ? `"${data.label.trim()}"` : null,
+    data?.delayMs ? `after ${formatDelay(data.delayMs)}` : null,
+    data?.priority ? `${EDGE_PRIORITY_LABELS[data.priority]} priority` : null,
+  ].filter(Boolean);
+  return parts.length ? ` (${parts.join(' · ')})` : '';
+};
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+// Paragraphs of a node's section, before its paths
+const describeContent = (node: ExportNode): string[] => {
+  const data = node.data || {};
+  switch (node.type) {
+    case 'textNode': {
+      const timing = [
+        data.delayMs ? `waits ${formatDelay(data.delayMs)}` : null,
+        data.typingMs ? `shows typing for ${formatDelay(data.typingMs)}` : null,
+        data.businessHours ? `sends only ${describeBusinessHours(data.businessHours)}` : null,
+      ].filter(Boolean);
+      return [
+        data.text?.trim() ? quote(data.text.trim()) : '_(empty message)_',
+        ...(timing.length ? [`The bot ${timing.join(', ')}.`] : []),
+      ];
+    }
+    case 'buttonNode':
+      return [data.text?.trim() ? quote(data.text.trim()) : '_(empty message)_'];
+    case 'inputNode':
+      return [
+        data.text?.trim() ? quote(data.text.trim()) : '_(no question)_',
+        `Saves the answer (${data.inputType}) in \`{{${data.variable}}}\`${data.inputType === 'choice' ? `, one of: ${(data.choices || []).join(', ')}` : ''}.`,
+      ];
+    case 'httpNode':
+      return [
+        `\`${data.method} ${data.url}\``,
+        ...(data.mappings?.length ? [data.mappings.map((mapping: ResponseMapping) => `- Stores \`${mapping.path}\` in \`{{${mapping.variable}}}\``).join('\n')] : []),
+      ];
+    case 'mediaNode': {
+      const file = data.asset ? `${data.asset.fileName}${data.asset.url ? ` (${data.asset.url})` : ''}` : '_(no file)_';
+      if (data.kind === 'card') {
+        return [`Card image: ${file}`, `**${data.title || '(no title)'}**${data.subtitle ? ` - ${data.subtitle}` : ''}`];
+      }
+      return [`${MEDIA_KIND_LABELS[data.kind as MediaKind] ?? 'File'}: ${file}`, ...(data.text?.trim() ? [quote(data.text.trim())] : [])];
+    }
+    case 'conditionNode':
+      return ['Checks the cases top to bottom and takes the first that matches.'];
+    default:
+      return [];
+  }
+};
+
+export const exportConversationScript = (flow: Pick<FlowData, 'nodes' | 'edges'>, name: string): string => {
+  const sections: string[] = [`# ${name}`, 'Conversation script - every step in conversation order and where each of its paths leads.'];
+
+  // Numbers every node first, so paths can point forward
+  const numbers = new Map<string, string>();
+  const number = (nodes: ExportNode[], edges: ExportEdge[], startIds: string[], prefix: string) => {
+    const ordered = orderNodes(nodes, edges, startIds);
+    ordered.forEach((node, index) => {
+      const id = `${prefix}${index + 1}`;
+      numbers.set(node.id, id);
+      if (node.type === 'groupNode') {
+        const data = node.data as GroupNodeData;
+        number(data.flow.nodes, data.flow.edges, [data.entryNodeId], `${id}.`);
+      }
+    });
+    return ordered;
+  };
+
+  const write = (ordered: ExportNode[], edges: ExportEdge[], depth: number, insideGroup: boolean) => {
+    const nodesById = new Map(ordered.map(node => [node.id, node]));
+    ordered.forEach(node => {
+      const heading = `${'#'.repeat(Math.min(depth, 6))} ${numbers.get(node.id)}. ${getNodeLabel(node)}`;
+      const paragraphs = [heading, ...describeContent(node)];
+
+      if (node.type === 'groupNode') {
+        const data = node.data as GroupNodeData;
+        const stepCount = withoutAnnotations(data.flow.nodes).length;
+        paragraphs.push(`Runs ${stepCount} step${stepCount === 1 ? '' : 's'}, starting at step ${numbers.get(data.entryNodeId) ?? '?'}.`);
+      }
+
+      const outgoing = edges.filter(edge => edge.source === node.id);
+      const paths = (node.type === 'groupNode' ? [null] : getSourceHandleIds(node)).map(handleId => {
+        const edge = outgoing.find(candidate => (candidate.sourceHandle ?? null) === handleId);
+        const target = edge ? nodesById.get(edge.target) : undefined;
+        const destination = edge && target
+          ? `step ${numbers.get(target.id)} (${getNodeLabel(target)})${describeEdgeData(edge)}`
+          : insideGroup ? 'leaves the sub-flow' : 'ends the conversation';
+        return `- ${describePath(node, handleId)} → ${destination}`;
+      });
+      sections.push([...paragraphs, paths.join('\n')].join('\n\n'));
+
+      if (node.type === 'groupNode') {
+        const data = node.data as GroupNodeData;
+        const inner = orderNodes(data.flow.nodes, data.flow.edges, [data.entryNodeId]);
+        write(inner, data.flow.edges, depth + 1, true);
+      }
+    });
+  };
+
+  const graph = buildFlowGraph(withoutAnnotations(flow.nodes), flow.edges);
+  const ordered = number(flow.nodes, flow.edges, findStartNodes(graph).map(node => node.id), '');
+  write(ordered, flow.edges, 2, false);
+  return `${sections.join('\n\n')}\n`;
+};
@@ -0,0 +1,418 @@
+import { FlowData } from './validation';
+import { KNOWN_NODE_TYPES } from '../nodes';
+import { VARIABLE_TYPES, isValidVariableName } from './variables';
+import { DEFAULT_LOCALE_SETTINGS, isValidLocale } from './translations';
+import { KNOWN_EDGE_TYPES, EDGE_PRIORITY_LABELS } from '../edges/edgeData';
+import { STICKY_NOTE_COLORS } from '../nodes/StickyNoteNode';
+import { OPERATOR_LABELS } from './conditions';
+import { INPUT_TYPE_LABELS } from './answers';
+import { HTTP_METHODS } from './http';
+import { MEDIA_KIND_LABELS } from './media';
+
+// Bump whenever the serialized shape changes, and register a migration below
+export const FLOW_FILE_VERSION = 6;
+export const FLOW_FILE_FORMAT = 'chatbot-flow';
+
+export interface FlowFile {
+  format: typeof FLOW_FILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt?: string; // ISO timestamp, informational only
+  flow: FlowData;
+}
+
+export interface FlowFileParseResult {
+  isValid: boolean;
+  errors: string[];
+  file?: FlowFile;
+}
+
+/**
+ * Flow file import/export utilities
+ *
+ * File format: a versioned envelope around createFlowData output
+ * Migrations: each entry upgrades a file from version N to N + 1, so older
+ * files keep loading as the format evolves
+ * Validation: rejects malformed files with specific, per-item error messages,
+ * checking the nested flows of groups the same way as the top level
+ */
+
+type RawFlowFile = Record<string, unknown>; // Untrusted JSON object - narrowed by validateFlowFile
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fields of a nested object, none when it is missing or malformed
+const fieldsOf = (value: unknown): Record<string, unknown> => (isObject(value) ? value : {});
+
+const migrations: Record<number, (file: RawFlowFile) => RawFlowFile> = {
+  // v0: bare { nodes, edges } object as logged by early builds - wrap it in the envelope
+  0: (file) => ({
+    format: FLOW_FILE_FORMAT,
+    version: 1,
+    name: typeof file.name === 'string' ? file.name : 'Imported flow',
+    flow: { nodes: file.nodes, edges: file.edges },
+  }),
+  // v1 -> v2: flow-level variable declarations were introduced
+  1: (file) => ({
+    ...file,
+    version: 2,
+    flow: { ...fieldsOf(file.flow), variables: [] },
+  }),
+  // v2 -> v3: flow-level locale settings were introduced - older flows are single-language
+  2: (file) => ({
+    ...file,
+    version: 3,
+    flow: { ...fieldsOf(file.flow), locales: DEFAULT_LOCALE_SETTINGS },
+  }),
+  // v3 -> v4: edges may carry a type and label/delay/priority data - older edges simply have none
+  3: (file) => ({
+    ...file,
+    version: 4,
+  }),
+  // v4 -> v5: sticky notes and comment threads on message nodes - older flows have neither
+  4: (file) => ({
+    ...file,
+    version: 5,
+  }),
+  // v5 -> v6: message nodes may carry a delay, typing time and business hours - older ones send straight away
+  5: (file) => ({
+    ...file,
+    version: 6,
+  }),
+};
+
+// Upgrade a parsed file step by step until it reaches the current version
+// Files without an envelope are treated as version 0
+export const migrateFlowFile = (raw: RawFlowFile): RawFlowFile => {
+  let file = raw;
+  let version = typeof file.version === 'number' ? file.version : 0;
+
+  while (version < FLOW_FILE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration available from file version ${version}`);
+    }
+    file = migrate(file);
+    version = file.version as number;
+  }
+
+  return file;
+};
+
+const describeNode = (index: number, id: unknown) =>
+  typeof id === 'string' ? `Node #${index + 1} ("${id}")` : `Node #${index + 1}`;
+
+// Comment threads are optional, but every thread needs its state and signed, dated comments
+const isValidThreadList = (value: unknown) => Array.isArray(value) && value.every(thread =>
+  isObject(thread) && typeof thread.id === 'string' && typeof thread.resolved === 'boolean' && Array.isArray(thread.comments)
+  && thread.comments.every((comment: unknown) => isObject(comment)
+    && ['id', 'author', 'text', 'createdAt'].every(key => typeof comment[key] === 'string')));
+
+const isPause = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+// Shape only - unknown time zones and malformed times are reported by flow validation
+const isValidBusinessHours = (value: unknown) => isObject(value)
+  && typeof value.timezone === 'string' && typeof value.start === 'string' && typeof value.end === 'string'
+  && Array.isArray(value.days) && value.days.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6);
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Lists of items with an id and the given string fields - buttons, cases, headers, mappings
+const isRecordList = (value: unknown, keys: string[]) => Array.isArray(value) && value.every(item =>
+  isObject(item) && ['id', ...keys].every(key => typeof item[key] === 'string'));
+
+const isValidCaseList = (value: unknown) => isRecordList(value, ['variable', 'value'])
+  && (value as Record<string, unknown>[]).every(item => typeof item.operator === 'string' && item.operator in OPERATOR_LABELS);
+
+const isValidMockList = (value: unknown) => isRecordList(value, ['name', 'body'])
+  && (value as Record<string, unknown>[]).every(item => Number.isInteger(item.status));
+
+// Fields each node type reads without checking - a wrong shape here would crash the editor or the runtime
+// Empty or unknown values (missing URL, unknown variable) are reported by flow validation instead
+const validateNodeData = (type: unknown, data: Record<string, unknown>, label: string, errors: string[]) => {
+  if (['textNode', 'buttonNode', 'inputNode', 'mediaNode'].includes(type as string) && typeof data.text !== 'string') {
+    errors.push(`${label} has no message text - expected a string`);
+  }
+  if (['buttonNode', 'mediaNode'].includes(type as string) && !isRecordList(data.buttons, ['label'])) {
+    errors.push(`${label} has invalid buttons - expected a list of buttons with an id and label`);
+  }
+
+  if (type === 'textNode') {
+    if (!isPause(data.delayMs) || !isPause(data.typingMs)) {
+      errors.push(`${label} has an invalid delay or typing time - expected a number of milliseconds, 0 or more`);
+    }
+    if (data.businessHours !== undefined && !isValidBusinessHours(data.businessHours)) {
+      errors.push(`${label} has invalid business hours - expected a time zone, open days (0-6) and start and end times`);
+    }
+  } else if (type === 'conditionNode' && !isValidCaseList(data.cases)) {
+    errors.push(`${label} has invalid cases - expected a list of cases with an id, variable, known operator and value`);
+  } else if (type === 'inputNode') {
+    if (typeof data.variable !== 'string') {
+      errors.push(`${label} has no answer variable - expected a string`);
+    }
+    if (!(typeof data.inputType === 'string' && data.inputType in INPUT_TYPE_LABELS)) {
+      errors.push(`${label} has unknown input type "${String(data.inputType)}"`);
+    }
+    if (!isStringList(data.choices)) {
+      errors.push(`${label} has invalid choices - expected a list of strings`);
+    }
+    if (typeof data.errorMessage !== 'string') {
+      errors.push(`${label} has no retry message - expected a string`);
+    }
+  } else if (type === 'httpNode') {
+    if (!(typeof data.method === 'string' && (HTTP_METHODS as string[]).includes(data.method))) {
+      errors.push(`${label} has unknown HTTP method "${String(data.method)}"`);
+    }
+    if (typeof data.url !== 'string' || typeof data.body !== 'string') {
+      errors.push(`${label} has an invalid URL or body - expected strings`);
+    }
+    if (typeof data.timeoutMs !== 'number' || !Number.isFinite(data.timeoutMs)) {
+      errors.push(`${label} has an invalid timeout - expected a number of milliseconds`);
+    }
+    if (!isRecordList(data.headers, ['name', 'value'])) {
+      errors.push(`${label} has invalid headers - expected a list of headers with an id, name and value`);
+    }
+    if (!isRecordList(data.mappings, ['path', 'variable'])) {
+      errors.push(`${label} has invalid response mappings - expected a list with an id, JSON path and variable`);
+    }
+    if (!isValidMockList(data.mocks) || typeof data.activeMockId !== 'string') {
+      errors.push(`${label} has invalid mock responses - expected a list with an id, name, status code and body`);
+    }
+  } else if (type === 'mediaNode') {
+    if (!(typeof data.kind === 'string' && data.kind in MEDIA_KIND_LABELS)) {
+      errors.push(`${label} has unknown media kind "${String(data.kind)}"`);
+    }
+    if (data.asset !== null && (!isObject(data.asset)
+      || typeof data.asset.fileName !== 'string' || typeof data.asset.url !== 'string')) {
+      errors.push(`${label} has an invalid media asset - expected a file name and URL`);
+    }
+    if (typeof data.title !== 'string' || typeof data.subtitle !== 'string') {
+      errors.push(`${label} has an invalid card title or subtitle - expected strings`);
+    }
+  } else if (type === 'stickyNote' && (typeof data.text !== 'string'
+    || !(typeof data.color === 'string' && data.color in STICKY_NOTE_COLORS))) {
+    errors.push(`${label} is a sticky note without text or with an unknown color`);
+  }
+};
+
+const describeEdge = (index: number, id: unknown) =>
+  typeof id === 'string' ? `Edge #${index + 1} ("${id}")` : `Edge #${index + 1}`;
+
+// Nodes and edges of a flow, and of every group's nested flow below it
+// Node IDs must be unique at every depth, since running a flow expands its groups into one graph;
+// edges may only connect nodes on their own level. scope prefixes messages about nested items
+const validateGraphShape = (nodes: unknown[], edges: unknown[], scope: string, seenNodeIds: Set<string>, errors: string[]) => {
+  const nodeIds = new Set<string>();
+  nodes.forEach((node, index) => {
+    if (!isObject(node)) {
+      errors.push(`${scope}Node #${index + 1} is not an object`);
+      return;
+    }
+
+    const label = `${scope}${describeNode(index, node.id)}`;
+    if (typeof node.id !== 'string' || !node.id) {
+      errors.push(`${label} has no id`);
+    } else if (seenNodeIds.has(node.id)) {
+      errors.push(`${label} has a duplicate id`);
+    } else {
+      seenNodeIds.add(node.id);
+      nodeIds.add(node.id);
+    }
+
+    if (typeof node.type !== 'string' || !KNOWN_NODE_TYPES.includes(node.type)) {
+      errors.push(`${label} has unknown type "${String(node.type)}"`);
+    }
+    if (!isObject(node.position) || typeof node.position.x !== 'number' || typeof node.position.y !== 'number') {
+      errors.push(`${label} has an invalid position`);
+    }
+    const { data } = node;
+    if (!isObject(data)) {
+      errors.push(`${label} has no data object`);
+    } else if (node.type === 'groupNode') {
+      const inner = data.flow;
+      if (!isObject(inner) || !Array.isArray(inner.nodes) || !Array.isArray(inner.edges)) {
+        errors.push(`${label} is a group without a nested flow`);
+      } else {
+        if (typeof data.entryNodeId !== 'string') {
+          errors.push(`${label} is a group without an entry step`);
+        }
+        validateGraphShape(inner.nodes, inner.edges, `${label} > `, seenNodeIds, errors);
+      }
+    } else {
+      validateNodeData(node.type, data, label, errors);
+    }
+    if (isObject(data) && data.comments !== undefined && !isValidThreadList(data.comments)) {
+      errors.push(`${label} has invalid comments - expected threads of comments with an author, text and date`);
+    }
+  });
+
+  const edgeIds = new Set<string>();
+  edges.forEach((edge, index) => {
+    if (!isObject(edge)) {
+      errors.push(`${scope}Edge #${index + 1} is not an object`);
+      return;
+    }
+
+    const label = `${scope}${describeEdge(index, edge.id)}`;
+    if (typeof edge.id !== 'string' || !edge.id) {
+      errors.push(`${label} has no id`);
+    } else if (edgeIds.has(edge.id)) {
+      errors.push(`${label} has a duplicate id`);
+    } else {
+      edgeIds.add(edge.id);
+    }
+
+    // Dangling endpoints would crash React Flow rendering
+    if (typeof edge.source !== 'string' || !nodeIds.has(edge.source)) {
+      errors.push(`${label} starts at missing node "${String(edge.source)}"`);
+    }
+    if (typeof edge.target !== 'string' || !nodeIds.has(edge.target)) {
+      errors.push(`${label} points to missing node "${String(edge.target)}"`);
+    }
+    if (edge.sourceHandle !== undefined && edge.sourceHandle !== null && typeof edge.sourceHandle !== 'string') {
+      errors.push(`${label} has an invalid source handle`);
+    }
+
+    // Label and metadata are optional, but must have the right shape when present
+    if (edge.type !== undefined && !(typeof edge.type === 'string' && KNOWN_EDGE_TYPES.includes(edge.type))) {
+      errors.push(`${label} has unknown type "${String(edge.type)}"`);
+    }
+    if (edge.data !== undefined) {
+      if (!isObject(edge.data) || typeof edge.data.label !== 'string') {
+        errors.push(`${label} has invalid data - expected an object with a "label" string`);
+      } else {
+        const { delayMs, priority } = edge.data;
+        if (delayMs !== undefined && (typeof delayMs !== 'number' || !Number.isFinite(delayMs) || delayMs < 0)) {
+          errors.push(`${label} has an invalid delay - expected a number of milliseconds, 0 or more`);
+        }
+        if (priority !== undefined && !(typeof priority === 'string' && priority in EDGE_PRIORITY_LABELS)) {
+          errors.push(`${label} has unknown priority "${String(priority)}"`);
+        }
+      }
+    }
+  });
+};
+
+// Schema validation of an already-migrated file
+// Collects every problem instead of stopping at the first one
+export const validateFlowFile = (file: unknown): FlowFileParseResult => {
+  const errors: string[] = [];
+
+  if (!isObject(file)) {
+    return { isValid: false, errors: ['File does not contain a flow object'] };
+  }
+  if (file.format !== FLOW_FILE_FORMAT) {
+    errors.push(`Unknown file format "${String(file.format)}" - expected "${FLOW_FILE_FORMAT}"`);
+  }
+  if (file.version !== FLOW_FILE_VERSION) {
+    errors.push(`Unsupported file version ${String(file.version)} - this editor reads version ${FLOW_FILE_VERSION}`);
+  }
+  if (typeof file.name !== 'string') {
+    errors.push('File has no flow name');
+  }
+  const flow = fieldsOf(file.flow);
+  if (!Array.isArray(flow.nodes) || !Array.isArray(flow.edges) || !Array.isArray(flow.variables)) {
+    errors.push('File is missing the "flow.nodes", "flow.edges" and "flow.variables" lists');
+    return { isValid: false, errors };
+  }
+
+  const variableNames = new Set<string>();
+  flow.variables.forEach((variable: unknown, index: number) => {
+    if (!isObject(variable) || typeof variable.name !== 'string' || !isValidVariableName(variable.name)) {
+      errors.push(`Variable #${index + 1} has an invalid name`);
+      return;
+    }
+    if (variableNames.has(variable.name)) {
+      errors.push(`Variable "${variable.name}" is declared twice`);
+    }
+    variableNames.add(variable.name);
+
+    if (!VARIABLE_TYPES.some(type => type === variable.type)) {
+      errors.push(`Variable "${variable.name}" has unknown type "${String(variable.type)}"`);
+    }
+    if (typeof variable.defaultValue !== 'string') {
+      errors.push(`Variable "${variable.name}" has no default value`);
+    }
+  });
+
+  const { locales } = flow;
+  if (!isObject(locales) || typeof locales.defaultLocale !== 'string' || !Array.isArray(locales.locales)) {
+    errors.push('File has no language settings ("flow.locales")');
+  } else {
+    locales.locales.forEach((locale: unknown) => {
+      if (typeof locale !== 'string' || !isValidLocale(locale)) {
+        errors.push(`Language "${String(locale)}" is not a valid locale code`);
+      }
+    });
+    if (!locales.locales.includes(locales.defaultLocale)) {
+      errors.push(`Default language "${locales.defaultLocale}" is not in the language list`);
+    }
+  }
+
+  validateGraphShape(flow.nodes, flow.edges, '', new Set(), errors);
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+  return { isValid: true, errors, file: file as unknown as FlowFile };
+};
+
+// Full import pipeline: JSON text -> migrate -> validate
+export const parseFlowFile = (text: string): FlowFileParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { isValid: false, errors: [`File is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  if (isObject(raw) && typeof raw.version === 'number' && raw.version > FLOW_FILE_VERSION) {
+    return {
+      isValid: false,
+      errors: [`File version ${raw.version} was created by a newer editor - this editor reads up to version ${FLOW_FILE_VERSION}`],
+    };
+  }
+
+  try {
+    return validateFlowFile(isObject(raw) ? migrateFlowFile(raw) : raw);
+  } catch (error) {
+    return { isValid: false, errors: [(error as Error).message] };
+  }
+};
+
+export const serializeFlowFile = (name: string, flow: FlowData): string => {
+  const file: FlowFile = {
+    format: FLOW_FILE_FORMAT,
+    version: FLOW_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    flow,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Filesystem-safe file name for a flow
+export const toFileName = (name: string, extension: string) => `${name.trim().replace(/[^\w-]+/g, '-') || 'flow'}.${extension}`;
+
+// Trigger a browser download of generated content, e.g. a rendered image
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
+
+// Trigger a browser download of generated text
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+  downloadBlob(fileName, new Blob([content], { type: mimeType }));
+};
+
+// Trigger a browser download of the flow as a .json file
+export const downloadFlowFile = (name: string, flow: FlowData) => {
+  downloadTextFile(toFileName(name, 'json'), serializeFlowFile(name, flow), 'application/json');
+};
@@ -0,0 +1,171 @@
+import { Node, Edge } from 'reactflow';
+import { GroupNodeData, SubflowGraph } from '../nodes/GroupNode';
+import { createId } from './ids';
+import { buildFlowGraph, getOpenHandles, withoutAnnotations } from '../engine/graph';
+import { FLOW_EDGE_TYPE, createEdgeData } from '../edges/edgeData';
+
+export interface GroupSelectionResult {
+  isValid: boolean;
+  errorMessage?: string;
+  nodes?: Node[]; // Canvas after grouping
+  edges?: Edge[];
+  groupId?: string;
+  warning?: string; // Grouping would change where the conversation goes - confirm before applying
+}
+
+/**
+ * Sub-flow (group) utilities
+ *
+ * A group node carries a nested graph in its data. The group's single
+ * entry handle leads to `entryNodeId`; its single exit handle is taken by
+ * any step inside that would otherwise end the conversation (an unconnected
+ * outgoing handle). Groups can contain groups. Grouping warns when that
+ * would send a conversation on where it used to end
+ */
+
+// Clean, serializable copy of a graph - React Flow internals (selection, measured size…)
+// are dropped and group contents are cleaned recursively, so nesting survives save/export
+// sourceHandle is kept as-is: it records which reply button or branch an edge leaves from
+// Edge type and data (label, delay, priority) are kept so connections keep their captions
+export const toSubflowGraph = (nodes: Node[], edges: Edge[]): SubflowGraph => ({
+  nodes: nodes.map(node => ({
+    id: node.id,
+    type: node.type,
+    position: node.position,
+    data: node.type === 'groupNode'
+      ? { ...node.data, flow: toSubflowGraph(node.data.flow.nodes as Node[], node.data.flow.edges as Edge[]) }
+      : node.data, // Just the essential properties
+  })),
+  edges: edges.map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle,
+    targetHandle: edge.targetHandle,
+    type: edge.type,
+    data: edge.data,
+  })),
+});
+
+// Every node in a graph, including the contents of groups at any depth
+export const flattenNodes = (nodes: Node[]): Node[] => {
+  return nodes.flatMap(node =>
+    node.type === 'groupNode' ? [node, ...flattenNodes((node.data as GroupNodeData).flow.nodes as Node[])] : [node]
+  );
+};
+
+export const containsNode = (data: GroupNodeData, nodeId: string): boolean => {
+  return flattenNodes(data.flow.nodes as Node[]).some(node => node.id === nodeId);
+};
+
+// Inner steps in conversation order: walked from the entry, then anything unreachable
+export const listGroupSteps = (data: GroupNodeData): SubflowGraph['nodes'] => {
+  const { nodes, edges } = data.flow;
+  const ordered: string[] = [];
+  const queue = [data.entryNodeId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (ordered.includes(id) || !nodes.some(node => node.id === id)) continue;
+    ordered.push(id);
+    queue.push(...edges.filter(edge => edge.source === id).map(edge => edge.target));
+  }
+  nodes.forEach(node => {
+    if (!ordered.includes(node.id)) ordered.push(node.id);
+  });
+  return ordered.map(id => nodes.find(node => node.id === id)!);
+};
+
+// Write an edited inner graph back into its group node
+// The entry is kept while it still exists, otherwise the inner start node takes over
+export const withGroupContents = (group: Node, nodes: Node[], edges: Edge[]): Node => {
+  const data = group.data as GroupNodeData;
+  const entryNodeId = nodes.some(node => node.id === data.entryNodeId)
+    ? data.entryNodeId
+    : (nodes.find(node => !edges.some(edge => edge.target === node.id)) ?? nodes[0])?.id ?? '';
+  return { ...group, data: { ...data, flow: toSubflowGraph(nodes, edges), entryNodeId } };
+};
+
+// Collapse the selected nodes into one group node
+// Connections into the selection must all reach the same node (the entry), and
+// connections out of it must all lead to the same node (wired to the group's exit)
+export const groupSelection = (nodes: Node[], edges: Edge[], name: string): GroupSelectionResult => {
+  const selected = nodes.filter(node => node.selected);
+  if (selected.length === 0) {
+    return { isValid: false, errorMessage: 'Select the nodes to group first.' };
+  }
+
+  const ids = new Set(selected.map(node => node.id));
+  const inner = edges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+  const incoming = edges.filter(edge => !ids.has(edge.source) && ids.has(edge.target));
+  const outgoing = edges.filter(edge => ids.has(edge.source) && !ids.has(edge.target));
+
+  const entryTargets = [...new Set(incoming.map(edge => edge.target))];
+  if (entryTargets.length > 1) {
+    return {
+      isValid: false,
+      errorMessage: `Cannot group: connections enter the selection at ${entryTargets.length} different nodes. A group has a single entry.`,
+    };
+  }
+
+  const innerStarts = withoutAnnotations(selected).filter(node => !inner.some(edge => edge.target === node.id)); // Notes are carried along
+  const entryNodeId = entryTargets[0] ?? (innerStarts.length === 1 ? innerStarts[0].id : null);
+  if (!entryNodeId) {
+    return {
+      isValid: false,
+      errorMessage: `Cannot group: ${innerStarts.length} selected nodes could be the first step. Connect them so the group has a single entry.`,
+    };
+  }
+
+  const exitTargets = [...new Set(outgoing.map(edge => edge.target))];
+  if (exitTargets.length > 1) {
+    return {
+      isValid: false,
+      errorMessage: `Cannot group: the selection leads to ${exitTargets.length} different nodes. A group has a single exit.`,
+    };
+  }
+
+  // Inside a group every unconnected handle continues through the exit, so branches
+  // that end the conversation today (e.g. a "No thanks" button) would stop ending it
+  const canvas = buildFlowGraph(nodes, edges);
+  const endings = exitTargets.length === 0
+    ? 0
+    : withoutAnnotations(selected).reduce((count, node) => count + getOpenHandles(canvas, node.id).length, 0);
+  const warning = endings > 0
+    ? `${endings === 1 ? '1 reply or branch in the selection ends the conversation. Inside the group it'
+      : `${endings} replies or branches in the selection end the conversation. Inside the group they`}`
+      + ' would continue to the node after the group instead. Group anyway?'
+    : undefined;
+
+  const group: Node<GroupNodeData> = {
+    id: createId('node'),
+    type: 'groupNode',
+    position: {
+      x: Math.min(...selected.map(node => node.position.x)),
+      y: Math.min(...selected.map(node => node.position.y)),
+    },
+    data: { name: name.trim() || 'Sub-flow', flow: toSubflowGraph(selected, inner), entryNodeId },
+    selected: true,
+  };
+
+  const untouched = edges.filter(edge => !ids.has(edge.source) && !ids.has(edge.target));
+  const exitEdges: Edge[] = exitTargets.map(target => ({
+    id: createId('edge'),
+    source: group.id,
+    sourceHandle: null,
+    target,
+    type: FLOW_EDGE_TYPE,
+    data: outgoing.find(edge => edge.target === target)?.data ?? createEdgeData(), // Keep the caption of a merged exit
+  }));
+
+  return {
+    isValid: true,
+    groupId: group.id,
+    warning,
+    nodes: [...nodes.filter(node => !ids.has(node.id)).map(node => ({ ...node, selected: false })), group],
+    edges: [
+      ...untouched,
+      ...incoming.map(edge => ({ ...edge, target: group.id, targetHandle: null })),
+      ...exitEdges,
+    ],
+  };
+};
@@ -0,0 +1,127 @@
+import { HttpNodeData, HttpMethod, MockResponse } from '../nodes/HttpNode';
+import { renderTemplate } from './templates';
+
+// Source handle IDs of an HTTP request node
+export const HTTP_SUCCESS_HANDLE = 'success';
+export const HTTP_FAILURE_HANDLE = 'failure';
+
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export const DEFAULT_TIMEOUT_MS = 5000;
+
+// A request with every {{variable}} filled in, ready to send
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: string; // Not sent for GET
+  timeoutMs: number;
+}
+
+// Outcome of a request, real or mocked
+export interface HttpResult {
+  status: number; // 0 when no response arrived (network error, timeout)
+  body: string;
+  error?: string; // Why no response arrived
+  mocked?: boolean;
+}
+
+/**
+ * HTTP request node helpers
+ *
+ * Templates: the URL, header values and body may use {{variable}}
+ * placeholders; values inserted into the URL are URL-encoded
+ * Success: a 2xx response - anything else, a timeout or a network error
+ * takes the failure handle
+ * Mapping: each mapping reads a path such as `order.items[0].name` from the
+ * JSON response and stores it in a flow variable; paths that do not exist
+ * leave the variable unchanged
+ * Test mode: the node's selected mock response is used instead of the network
+ */
+
+export const buildHttpRequest = (data: HttpNodeData, values: Record<string, string>): HttpRequest => {
+  const encoded = Object.fromEntries(Object.entries(values).map(([name, value]) => [name, encodeURIComponent(value)]));
+  const headers = Object.fromEntries(
+    (data.headers || [])
+      .filter(header => header.name.trim())
+      .map(header => [header.name.trim(), renderTemplate(header.value, values)])
+  );
+
+  return {
+    method: data.method,
+    url: renderTemplate(data.url.trim(), encoded),
+    headers,
+    body: data.method === 'GET' ? undefined : renderTemplate(data.body || '', values),
+    timeoutMs: data.timeoutMs > 0 ? data.timeoutMs : DEFAULT_TIMEOUT_MS,
+  };
+};
+
+export const isSuccessStatus = (status: number) => status >= 200 && status < 300;
+
+// Segments of a response path: `a.b[0].c` -> ['a', 'b', '0', 'c']
+const splitPath = (path: string): string[] => path.replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+
+// Value at a path as variable text - objects and arrays are stored as JSON
+export const readJsonPath = (json: unknown, path: string): string | undefined => {
+  let current = json;
+  for (const segment of splitPath(path)) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  if (current === undefined || current === null) return undefined;
+  return typeof current === 'object' ? JSON.stringify(current) : String(current);
+};
+
+// Variables set by a response's mappings - empty unless the body is JSON
+export const mapResponse = (data: HttpNodeData, body: string): Record<string, string> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return {};
+  }
+
+  const values: Record<string, string> = {};
+  (data.mappings || []).forEach(mapping => {
+    const value = readJsonPath(json, mapping.path.trim());
+    if (mapping.variable && value !== undefined) values[mapping.variable] = value;
+  });
+  return values;
+};
+
+// Mock used in test mode: the selected one, else the first
+export const getActiveMock = (data: HttpNodeData): MockResponse | undefined => {
+  return (data.mocks || []).find(mock => mock.id === data.activeMockId) ?? data.mocks?.[0];
+};
+
+export const mockResult = (data: HttpNodeData): HttpResult => {
+  const mock = getActiveMock(data);
+  if (!mock) {
+    return { status: 0, body: '', error: 'No mock response configured', mocked: true };
+  }
+  return { status: mock.status, body: mock.body, mocked: true };
+};
+
+// Send a request for real - never rejects; failures come back as results
+export const executeHttpRequest = async (request: HttpRequest): Promise<HttpResult> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), request.timeoutMs);
+
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body || undefined,
+      signal: controller.signal,
+    });
+    return { status: response.status, body: await response.text() };
+  } catch (error) {
+    return {
+      status: 0,
+      body: '',
+      error: controller.signal.aborted ? `Timed out after ${request.timeoutMs} ms` : (error as Error).message,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,9 @@
+// Monotonic counter keeps IDs unique even when many are created in the same millisecond
+let sequence = 0;
+
+// Short, collision-resistant IDs for nodes, edges and node-local items (e.g. reply buttons)
+export const createId = (prefix: string): string => {
+  sequence = (sequence + 1) % 1679616; // Wraps at 36^4
+  const random = Math.random().toString(36).slice(2, 6);
+  return `${prefix}-${Date.now().toString(36)}${sequence.toString(36)}${random}`;
+};
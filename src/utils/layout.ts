@@ -0,0 +1,128 @@
+import { Node, Edge, XYPosition } from 'reactflow';
+import { buildFlowGraph, getSourceHandleIds } from '../engine/graph';
+
+// Fallback size for nodes React Flow has not measured yet
+const DEFAULT_WIDTH = 260;
+const DEFAULT_HEIGHT = 100;
+
+const LAYER_GAP = 120; // Horizontal space between layers
+const NODE_GAP = 40; // Vertical space between nodes in the same layer
+
+/**
+ * Automatic layout - layered, left-to-right arrangement of a flow
+ *
+ * 1. Ranking: an iterative depth-first walk from the nodes without incoming edges
+ *    (normally just the start node) marks edges that close a cycle as back edges and
+ *    ignores them; every other node is placed one layer after its furthest
+ *    predecessor, so nodes with several incoming edges sit after all of them
+ * 2. Ordering: nodes keep their walk order (a button node's children follow
+ *    its button order), then each layer is sorted by the average position of
+ *    its predecessors to reduce crossings
+ * 3. Placement: layers become columns, each centred on the tallest one
+ *
+ * Positions keep the top-left corner of the arranged nodes where it was, so
+ * arranging a selection does not move it across the canvas
+ */
+export const computeLayout = (nodes: Node[], edges: Edge[]): Map<string, XYPosition> => {
+  const ids = new Set(nodes.map(node => node.id));
+  const graph = buildFlowGraph(nodes, edges.filter(edge => ids.has(edge.source) && ids.has(edge.target)));
+  const { nodesById, outgoing, incoming } = graph;
+
+  // Outgoing edges in handle order, so branches stay in the order they are listed on the node
+  outgoing.forEach((list, id) => {
+    const handleOrder = getSourceHandleIds(nodesById.get(id)!);
+    list.sort((a, b) => handleOrder.indexOf(a.sourceHandle ?? null) - handleOrder.indexOf(b.sourceHandle ?? null));
+  });
+
+  // 1. Depth-first walk: discovery order plus the edges that close cycles
+  const roots = nodes.filter(node => incoming.get(node.id)!.length === 0);
+  const order: string[] = [];
+  const seen = new Set<string>();
+  const onPath = new Set<string>();
+  const backEdges = new Set<string>();
+
+  // Iterative, so long chains cannot overflow the call stack - each frame remembers
+  // how many of its node's outgoing edges have been followed
+  const walk = (start: string) => {
+    const stack: { id: string; next: number }[] = [];
+    const enter = (id: string) => {
+      order.push(id);
+      seen.add(id);
+      onPath.add(id);
+      stack.push({ id, next: 0 });
+    };
+    enter(start);
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const edge = outgoing.get(frame.id)![frame.next++];
+      if (!edge) {
+        onPath.delete(frame.id);
+        stack.pop();
+      } else if (onPath.has(edge.target)) {
+        backEdges.add(edge.id);
+      } else if (!seen.has(edge.target)) {
+        enter(edge.target);
+      }
+    }
+  };
+  [...roots, ...nodes].forEach(node => { // Nodes only reachable through a cycle get walked last
+    if (!seen.has(node.id)) walk(node.id);
+  });
+
+  // Longest-path ranking over the acyclic edges, visiting nodes in topological order
+  // (a node once all of its forward predecessors are ranked) so each edge is relaxed once
+  const isForward = (edge: Edge) => !backEdges.has(edge.id);
+  const rank = new Map(order.map(id => [id, 0]));
+  const waiting = new Map(order.map(id => [id, incoming.get(id)!.filter(isForward).length]));
+  const ready = order.filter(id => waiting.get(id) === 0);
+  while (ready.length > 0) {
+    const id = ready.pop()!;
+    outgoing.get(id)!.filter(isForward).forEach(edge => {
+      rank.set(edge.target, Math.max(rank.get(edge.target)!, rank.get(id)! + 1));
+      waiting.set(edge.target, waiting.get(edge.target)! - 1);
+      if (waiting.get(edge.target) === 0) ready.push(edge.target);
+    });
+  }
+
+  // 2. Group into layers, then order each layer by the mean index of its predecessors
+  const layers: string[][] = [];
+  order.forEach(id => {
+    const layer = rank.get(id)!;
+    (layers[layer] = layers[layer] || []).push(id);
+  });
+  for (let layer = 1; layer < layers.length; layer++) {
+    const previous = new Map(layers[layer - 1].map((id, index) => [id, index]));
+    const weight = (id: string) => {
+      const indices = incoming.get(id)!.filter(edge => isForward(edge) && previous.has(edge.source)).map(edge => previous.get(edge.source)!);
+      return indices.length > 0 ? indices.reduce((sum, index) => sum + index, 0) / indices.length : Infinity;
+    };
+    const weights = new Map(layers[layer].map(id => [id, weight(id)]));
+    layers[layer].sort((a, b) => weights.get(a)! - weights.get(b)! || 0); // Ties (and NaN from two Infinity weights) keep walk order
+  }
+
+  // 3. Columns left to right, each centred on the same horizontal axis
+  const size = (id: string) => ({
+    width: nodesById.get(id)!.width ?? DEFAULT_WIDTH,
+    height: nodesById.get(id)!.height ?? DEFAULT_HEIGHT,
+  });
+  const origin = {
+    x: Math.min(...nodes.map(node => node.position.x)),
+    y: Math.min(...nodes.map(node => node.position.y)),
+  };
+  const columnHeight = (layer: string[]) =>
+    layer.reduce((total, id) => total + size(id).height, 0) + NODE_GAP * (layer.length - 1);
+  const tallest = Math.max(...layers.map(columnHeight));
+
+  const positions = new Map<string, XYPosition>();
+  let x = origin.x;
+  layers.forEach(layer => {
+    let y = origin.y + (tallest - columnHeight(layer)) / 2;
+    layer.forEach(id => {
+      positions.set(id, { x, y });
+      y += size(id).height + NODE_GAP;
+    });
+    x += Math.max(...layer.map(id => size(id).width)) + LAYER_GAP;
+  });
+
+  return positions;
+};
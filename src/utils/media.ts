@@ -0,0 +1,130 @@
+import { MediaAsset, MediaKind, MediaNodeData } from '../nodes/MediaNode';
+import { renderTemplate } from './templates';
+import { createId } from './ids';
+
+// What a media node sends, templates filled in - see the runtime's 'media' response
+export interface MediaMessage {
+  kind: MediaKind;
+  asset: MediaAsset | null;
+  caption: string; // Images, videos and documents
+  title: string; // Cards only
+  subtitle: string; // Cards only
+}
+
+interface MediaRule {
+  mimeTypes: string[];
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+const IMAGE_RULE: MediaRule = { mimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'], maxBytes: 5 * MB };
+
+// File types and sizes the chat channels accept per variant - cards show an image
+export const MEDIA_RULES: Record<MediaKind, MediaRule> = {
+  image: IMAGE_RULE,
+  video: { mimeTypes: ['video/mp4', 'video/webm', 'video/quicktime'], maxBytes: 16 * MB },
+  document: {
+    mimeTypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'text/plain',
+      'text/csv',
+    ],
+    maxBytes: 20 * MB,
+  },
+  card: IMAGE_RULE,
+};
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  image: 'Image',
+  video: 'Video',
+  document: 'Document',
+  card: 'Card',
+};
+
+// MIME types for files linked by URL, where the browser reports none
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  txt: 'text/plain',
+  csv: 'text/csv',
+};
+
+/**
+ * Media node helpers
+ *
+ * Assets: node data only ever holds a reference - file name, MIME type,
+ * size and the URL the bot sends it from - so flows stay small and
+ * serializable. A file picked from disk has no URL until it is hosted
+ * Previews: picked files are shown through object URLs kept for the browser
+ * session, keyed by asset ID, so copies and undo keep their preview;
+ * after a reload only hosted (URL) assets can be previewed
+ * Validation: each variant accepts certain MIME types up to a maximum size
+ * (see MEDIA_RULES); unknown types and sizes of linked files are not checked
+ */
+
+// Session-only previews of files picked from disk - asset ID -> object URL
+const localPreviews = new Map<string, string>();
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${Number((bytes / MB).toFixed(1))} MB`;
+};
+
+// Why a file cannot be sent as this variant, or null when it can
+export const getMediaFileError = (kind: MediaKind, file: Pick<MediaAsset, 'mimeType' | 'size'>): string | null => {
+  const rule = MEDIA_RULES[kind];
+  if (file.mimeType && !rule.mimeTypes.includes(file.mimeType)) {
+    return `${MEDIA_KIND_LABELS[kind]} messages cannot send ${file.mimeType} files`;
+  }
+  if (file.size > rule.maxBytes) {
+    return `${formatFileSize(file.size)} is over the ${formatFileSize(rule.maxBytes)} limit for ${MEDIA_KIND_LABELS[kind].toLowerCase()} messages`;
+  }
+  return null;
+};
+
+// Asset reference for a file picked from disk, previewable until the page is closed
+export const createLocalAsset = (file: File): MediaAsset => {
+  const asset: MediaAsset = { id: createId('asset'), fileName: file.name, mimeType: file.type, size: file.size, url: '' };
+  localPreviews.set(asset.id, URL.createObjectURL(file));
+  return asset;
+};
+
+// Asset reference for a file that is already hosted - type guessed from the extension
+export const createLinkedAsset = (url: string): MediaAsset => {
+  const path = url.split(/[?#]/)[0];
+  const fileName = decodeURIComponent(path.slice(path.lastIndexOf('/') + 1)) || url;
+  const extension = fileName.includes('.') ? fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase() : '';
+  return { id: createId('asset'), fileName, mimeType: EXTENSION_TYPES[extension] ?? '', size: 0, url };
+};
+
+// Where the editor can show an asset from - the local file this session, else its URL
+export const getPreviewUrl = (asset: MediaAsset | null): string | null => {
+  if (!asset) return null;
+  return localPreviews.get(asset.id) ?? (asset.url || null);
+};
+
+// The message a media node sends, with {{variables}} filled in
+export const buildMediaMessage = (data: MediaNodeData, values: Record<string, string>): MediaMessage => ({
+  kind: data.kind,
+  asset: data.asset,
+  caption: renderTemplate(data.text || '', values),
+  title: renderTemplate(data.title || '', values),
+  subtitle: renderTemplate(data.subtitle || '', values),
+});
@@ -0,0 +1,111 @@
+import { BusinessHours } from '../nodes/TextNode';
+
+// Source handle a message node with business hours takes while closed
+export const OUTSIDE_HOURS_HANDLE = 'outside-hours';
+
+// Indexed like Date.getDay() - Sunday first
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Order days are listed in, Monday first
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Message timing and business hours
+ *
+ * Timing: a message node may pause before sending (delayMs) and then show a
+ * typing indicator (typingMs); the runtime passes both on with the message and
+ * the host waits them out
+ * Business hours: a weekly window in one time zone. Inside it the message is
+ * sent as usual; outside it the node sends nothing and follows its "Outside
+ * hours" handle instead. Windows that end before they start run past midnight
+ * and belong to the day they open
+ * Time zones: IANA names resolved with Intl, so daylight saving is handled
+ */
+
+// The browser's own zone - the default for new business hours
+export const getLocalTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const createBusinessHours = (): BusinessHours => ({
+  timezone: getLocalTimezone(),
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '17:00',
+});
+
+export const isValidTimezone = (timezone: string) => {
+  if (!timezone?.trim()) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes after midnight for an "HH:MM" time, or null when malformed
+export const parseTime = (value: string): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Why a window can never open or is unreadable, or null when it is fine
+export const getBusinessHoursError = (hours: BusinessHours): string | null => {
+  if (!isValidTimezone(hours.timezone)) return `unknown time zone "${hours.timezone}"`;
+  const start = parseTime(hours.start);
+  const end = parseTime(hours.end);
+  if (start === null || end === null) return 'opening and closing times must be 24-hour HH:MM';
+  if (start === end) return 'opening and closing times are the same';
+  if (!hours.days?.length) return 'no open days are selected';
+  return null;
+};
+
+// Weekday and minutes after midnight at an instant, as a clock in the zone shows them
+const getZonedTime = (now: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(candidate => candidate.type === type)?.value ?? '';
+  return {
+    day: WEEKDAY_LABELS.indexOf(part('weekday')),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+  };
+};
+
+// Broken hours count as open, so an unfinished setting never diverts the preview
+export const isWithinBusinessHours = (hours: BusinessHours, now: Date): boolean => {
+  if (getBusinessHoursError(hours)) return true;
+  const start = parseTime(hours.start)!;
+  const end = parseTime(hours.end)!;
+  const { day, minutes } = getZonedTime(now, hours.timezone);
+
+  if (start < end) {
+    return hours.days.includes(day) && minutes >= start && minutes < end;
+  }
+  const previousDay = (day + 6) % 7;
+  return (hours.days.includes(day) && minutes >= start) || (hours.days.includes(previousDay) && minutes < end);
+};
+
+// e.g. "Mon–Fri, Sun"; runs of three or more days are shortened
+const describeDays = (days: number[]) => {
+  if (days.length === 7) return 'Every day';
+  const runs: number[][] = [];
+  WEEK_ORDER.filter(day => days.includes(day)).forEach(day => {
+    const run = runs[runs.length - 1];
+    if (run && WEEK_ORDER.indexOf(run[run.length - 1]) === WEEK_ORDER.indexOf(day) - 1) {
+      run.push(day);
+    } else {
+      runs.push([day]);
+    }
+  });
+  return runs
+    .map(run => (run.length > 2 ? `${WEEKDAY_LABELS[run[0]]}–${WEEKDAY_LABELS[run[run.length - 1]]}` : run.map(day => WEEKDAY_LABELS[day]).join(', ')))
+    .join(', ');
+};
+
+// e.g. "Mon–Fri 09:00–17:00 (Europe/London)"
+export const describeBusinessHours = (hours: BusinessHours) =>
+  `${describeDays(hours.days || [])} ${hours.start}–${hours.end} (${hours.timezone})`;
@@ -0,0 +1,139 @@
+import { Node } from 'reactflow';
+import { NODE_TYPE_LABELS, MESSAGE_NODE_TYPES } from '../nodes/labels';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { ReplyButton } from '../nodes/ButtonNode';
+
+export interface SearchOptions {
+  matchCase: boolean;
+  nodeType: string | null; // Only nodes of this type - null for every type
+}
+
+export interface SearchMatch {
+  nodeId: string;
+  fields: string[]; // Where the query was found, e.g. ["Text", "Button \"Refund\""]
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface ReplaceResult {
+  nodes: Node[];
+  replacements: number; // Occurrences replaced
+  nodeCount: number; // Nodes changed, groups' inner steps included
+}
+
+/**
+ * Canvas search and find-and-replace
+ *
+ * Searched: message text, reply button labels, answer options, retry
+ * messages, request URLs, card titles, media file names, sub-flow names, the
+ * node type's name and the node ID;
+ * a sub-flow also matches when any step inside it does
+ * Order: matches are listed top to bottom, then left to right, so next and
+ * previous step through the canvas in reading order
+ * Replace: only message text changes (translations are left alone), inside
+ * sub-flows as well; IDs, labels and settings are never rewritten
+ */
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const queryPattern = (query: string, matchCase: boolean) => new RegExp(escapeRegExp(query), matchCase ? 'g' : 'gi');
+
+const includes = (text: string, query: string, matchCase: boolean) =>
+  matchCase ? text.includes(query) : text.toLowerCase().includes(query.toLowerCase());
+
+// Labelled strings of a node that search looks through
+const getSearchableFields = (node: Node): { label: string; text: string }[] => {
+  const data = node.data || {};
+  const fields = [
+    { label: 'Text', text: data.text },
+    { label: 'Title', text: data.title },
+    { label: 'Subtitle', text: data.subtitle },
+    { label: 'File', text: data.asset?.fileName },
+    ...(data.buttons || []).map((button: ReplyButton) => ({ label: `Button "${button.label}"`, text: button.label })),
+    ...(data.choices || []).map((choice: string) => ({ label: `Option "${choice}"`, text: choice })),
+    { label: 'Retry message', text: data.errorMessage },
+    { label: 'URL', text: data.url },
+    { label: 'Name', text: data.name },
+    { label: 'Type', text: NODE_TYPE_LABELS[node.type || ''] },
+    { label: 'ID', text: node.id },
+  ];
+  return fields.filter((field): field is { label: string; text: string } => typeof field.text === 'string' && field.text !== '');
+};
+
+const byPosition = (a: Node, b: Node) => a.position.y - b.position.y || a.position.x - b.position.x;
+
+// Where a node matches - nested steps count for sub-flows
+const matchFields = (node: Node, query: string, matchCase: boolean): string[] => {
+  const fields = getSearchableFields(node)
+    .filter(field => includes(field.text, query, matchCase))
+    .map(field => field.label);
+  if (node.type === 'groupNode') {
+    const inner = ((node.data as GroupNodeData).flow?.nodes || []) as Node[];
+    if (inner.some(step => matchFields(step, query, matchCase).length > 0)) fields.push('Inside sub-flow');
+  }
+  return fields;
+};
+
+// Nodes on the canvas matching a query, in reading order
+export const findMatches = (nodes: Node[], query: string, options: SearchOptions): SearchMatch[] => {
+  if (!query) return [];
+  return nodes
+    .filter(node => !options.nodeType || node.type === options.nodeType)
+    .sort(byPosition)
+    .map(node => ({ nodeId: node.id, fields: matchFields(node, query, options.matchCase) }))
+    .filter(match => match.fields.length > 0);
+};
+
+// Plain text split around the occurrences of a query, for <mark> highlighting
+export const splitHighlight = (text: string, query: string, matchCase: boolean): HighlightSegment[] => {
+  if (!query) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(queryPattern(query, matchCase))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ text: text.slice(lastIndex, index), match: false });
+    segments.push({ text: match[0], match: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+  return segments;
+};
+
+// Replace every occurrence of a query in message text, recursing into sub-flows
+export const replaceInMessages = (
+  nodes: Node[],
+  query: string,
+  replacement: string,
+  options: SearchOptions,
+): ReplaceResult => {
+  let replacements = 0;
+  let nodeCount = 0;
+
+  const visit = (node: Node): Node => {
+    if (node.type === 'groupNode') {
+      const data = node.data as GroupNodeData;
+      const inner = data.flow.nodes.map(step => visit(step as Node));
+      return inner.some((step, index) => step !== data.flow.nodes[index])
+        ? { ...node, data: { ...data, flow: { ...data.flow, nodes: inner } } }
+        : node;
+    }
+
+    const text = node.data?.text;
+    const typeMatches = !options.nodeType || node.type === options.nodeType;
+    if (!MESSAGE_NODE_TYPES.includes(node.type || '') || !typeMatches || typeof text !== 'string') return node;
+
+    const count = text.match(queryPattern(query, options.matchCase))?.length ?? 0;
+    if (count === 0) return node;
+
+    replacements += count;
+    nodeCount += 1;
+    // Function form, so "$" in the replacement is inserted literally
+    return { ...node, data: { ...node.data, text: text.replace(queryPattern(query, options.matchCase), () => replacement) } };
+  };
+
+  return { nodes: query ? nodes.map(visit) : nodes, replacements, nodeCount };
+};
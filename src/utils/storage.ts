@@ -0,0 +1,281 @@
+import { FlowData } from './validation';
+import { FLOW_FILE_FORMAT, FLOW_FILE_VERSION, migrateFlowFile } from './flowFile';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { createId } from './ids';
+
+export interface StoredFlow {
+  id: string;
+  name: string;
+  version?: number; // Flow file format version of `data` - missing means version 1
+  updatedAt: number; // Epoch millis of the last save/rename
+  data: FlowData;
+}
+
+// Sub-flow saved to the palette for reuse across flows
+export interface SavedSubflow {
+  id: string;
+  name: string;
+  updatedAt: number;
+  group: Pick<GroupNodeData, 'flow' | 'entryNodeId'>;
+}
+
+export type FlowSummary = Omit<StoredFlow, 'data' | 'version'> & {
+  nodeCount: number;
+};
+
+// Snapshot of a flow taken on every successful save
+export interface FlowRevision {
+  id: string;
+  savedAt: number; // Epoch millis
+  name: string; // Flow name at the time
+  version?: number; // Flow file format version of `data`
+  data: FlowData;
+}
+
+export type RevisionSummary = Omit<FlowRevision, 'data' | 'version'> & {
+  nodeCount: number;
+};
+
+/**
+ * Flow persistence utilities backed by localStorage
+ *
+ * Storage layout:
+ * - One key holds every saved flow, keyed by flow id
+ * - A second key remembers which flow was open last (restored on startup)
+ * - A third key holds sub-flows saved to the palette
+ * - A fourth key holds each flow's revision history (newest last, capped at
+ *   MAX_REVISIONS), removed together with the flow
+ * - A fifth key remembers the name signed under comments
+ *
+ * Flow data is stored exactly as createFlowData emits it, so positions
+ * and handle IDs survive a save/load round-trip untouched. Flows saved by
+ * older builds are upgraded through the flow file migrations when loaded
+ */
+
+const FLOWS_KEY = 'chatbot-flow-builder:flows';
+const LAST_OPEN_KEY = 'chatbot-flow-builder:last-open';
+const SUBFLOWS_KEY = 'chatbot-flow-builder:subflows';
+const REVISIONS_KEY = 'chatbot-flow-builder:revisions';
+const COMMENT_AUTHOR_KEY = 'chatbot-flow-builder:comment-author';
+
+const MAX_REVISIONS = 30; // Per flow - the oldest are dropped first
+
+// Read the whole flow map - corrupt or missing storage yields an empty library
+const readFlows = (): Record<string, StoredFlow> => {
+  try {
+    const raw = localStorage.getItem(FLOWS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Throws if the browser refuses the write (e.g. quota exceeded) - callers toast it
+const writeFlows = (flows: Record<string, StoredFlow>) => {
+  localStorage.setItem(FLOWS_KEY, JSON.stringify(flows));
+};
+
+// Library listing, most recently updated first
+export const listFlows = (): FlowSummary[] => {
+  return Object.values(readFlows())
+    .map(({ id, name, updatedAt, data }) => ({ id, name, updatedAt, nodeCount: data.nodes.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Bring flows written by older builds up to the current format
+const upgradeStoredFlow = (flow: StoredFlow): StoredFlow => {
+  const version = flow.version ?? 1;
+  if (version === FLOW_FILE_VERSION) return flow;
+
+  const file = migrateFlowFile({ format: FLOW_FILE_FORMAT, version, name: flow.name, flow: flow.data });
+  return { ...flow, version: FLOW_FILE_VERSION, data: file.flow as FlowData }; // Written by this editor - migrated, not re-checked
+};
+
+export const loadFlow = (id: string): StoredFlow | null => {
+  const flow = readFlows()[id];
+  return flow ? upgradeStoredFlow(flow) : null;
+};
+
+// Create a new flow when no id is given, otherwise overwrite the existing one
+export const saveFlow = (flow: { id?: string | null; name: string; data: FlowData }): StoredFlow => {
+  const flows = readFlows();
+  const stored: StoredFlow = {
+    id: flow.id || createId('flow'),
+    name: flow.name.trim() || 'Untitled flow',
+    version: FLOW_FILE_VERSION,
+    updatedAt: Date.now(),
+    data: flow.data,
+  };
+
+  flows[stored.id] = stored;
+  writeFlows(flows);
+  return stored;
+};
+
+export const renameFlow = (id: string, name: string): StoredFlow | null => {
+  const flows = readFlows();
+  const flow = flows[id];
+  if (!flow) return null;
+
+  flows[id] = { ...flow, name: name.trim() || flow.name, updatedAt: Date.now() };
+  writeFlows(flows);
+  return flows[id];
+};
+
+// Copies the flow data under a fresh id with a "(copy)" suffix
+export const duplicateFlow = (id: string): StoredFlow | null => {
+  const flow = loadFlow(id);
+  if (!flow) return null;
+
+  return saveFlow({ name: `${flow.name} (copy)`, data: flow.data });
+};
+
+export const deleteFlow = (id: string) => {
+  const flows = readFlows();
+  delete flows[id];
+  writeFlows(flows);
+  deleteRevisions(id);
+
+  if (getLastOpenFlowId() === id) {
+    setLastOpenFlowId(null);
+  }
+};
+
+export const getLastOpenFlowId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_OPEN_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastOpenFlowId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(LAST_OPEN_KEY, id);
+    } else {
+      localStorage.removeItem(LAST_OPEN_KEY);
+    }
+  } catch {
+    // Remembering the last flow is best-effort only
+  }
+};
+
+// Name signed under new comments - per browser, since the editor has no accounts
+export const getCommentAuthor = (): string => {
+  try {
+    return localStorage.getItem(COMMENT_AUTHOR_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const setCommentAuthor = (name: string) => {
+  try {
+    localStorage.setItem(COMMENT_AUTHOR_KEY, name);
+  } catch {
+    // The name is only a convenience - it is asked for again next time
+  }
+};
+
+// Used on startup - returns null when nothing was open or it has since been deleted
+export const loadLastOpenFlow = (): StoredFlow | null => {
+  const id = getLastOpenFlowId();
+  return id ? loadFlow(id) : null;
+};
+
+const readSubflows = (): Record<string, SavedSubflow> => {
+  try {
+    const raw = localStorage.getItem(SUBFLOWS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Palette listing, alphabetical
+export const listSubflows = (): SavedSubflow[] => {
+  return Object.values(readSubflows()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const loadSubflow = (id: string): SavedSubflow | null => readSubflows()[id] ?? null;
+
+// Throws if the browser refuses the write (e.g. quota exceeded) - callers toast it
+export const saveSubflow = (name: string, group: SavedSubflow['group']): SavedSubflow => {
+  const subflows = readSubflows();
+  const stored: SavedSubflow = {
+    id: createId('subflow'),
+    name: name.trim() || 'Sub-flow',
+    updatedAt: Date.now(),
+    group: { flow: group.flow, entryNodeId: group.entryNodeId },
+  };
+
+  subflows[stored.id] = stored;
+  localStorage.setItem(SUBFLOWS_KEY, JSON.stringify(subflows));
+  return stored;
+};
+
+export const deleteSubflow = (id: string) => {
+  const subflows = readSubflows();
+  delete subflows[id];
+  localStorage.setItem(SUBFLOWS_KEY, JSON.stringify(subflows));
+};
+
+// Every flow's revisions, keyed by flow id
+const readRevisions = (): Record<string, FlowRevision[]> => {
+  try {
+    const raw = localStorage.getItem(REVISIONS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// History listing for one flow, newest first
+export const listRevisions = (flowId: string): RevisionSummary[] => {
+  return (readRevisions()[flowId] || [])
+    .map(({ id, savedAt, name, data }) => ({ id, savedAt, name, nodeCount: data.nodes.length }))
+    .reverse();
+};
+
+export const loadRevision = (flowId: string, revisionId: string): FlowRevision | null => {
+  const revision = (readRevisions()[flowId] || []).find(candidate => candidate.id === revisionId);
+  if (!revision) return null;
+
+  const version = revision.version ?? 1;
+  if (version === FLOW_FILE_VERSION) return revision;
+  const file = migrateFlowFile({ format: FLOW_FILE_FORMAT, version, name: revision.name, flow: revision.data });
+  return { ...revision, version: FLOW_FILE_VERSION, data: file.flow as FlowData };
+};
+
+// Record a save - skipped when nothing changed since the latest revision
+// Throws if the browser refuses the write (e.g. quota exceeded) - callers toast it
+export const addRevision = (flowId: string, name: string, data: FlowData): FlowRevision | null => {
+  const revisions = readRevisions();
+  const history = revisions[flowId] || [];
+  const latest = history[history.length - 1];
+  if (latest && JSON.stringify(latest.data) === JSON.stringify(data)) return null;
+
+  const revision: FlowRevision = {
+    id: createId('rev'),
+    savedAt: Date.now(),
+    name,
+    version: FLOW_FILE_VERSION,
+    data,
+  };
+  revisions[flowId] = [...history, revision].slice(-MAX_REVISIONS);
+  localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions));
+  return revision;
+};
+
+const deleteRevisions = (flowId: string) => {
+  const revisions = readRevisions();
+  if (!revisions[flowId]) return;
+
+  delete revisions[flowId];
+  try {
+    localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions));
+  } catch {
+    // Shrinking storage should not fail; if it does the orphaned history is harmless
+  }
+};
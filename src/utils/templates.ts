@@ -0,0 +1,44 @@
+/**
+ * Message templates - `{{variable}}` placeholders inside message text
+ *
+ * Placeholders name a flow variable (whitespace inside the braces is
+ * allowed) and are replaced with the variable's current value when the
+ * message is sent. Unknown variables render as empty text
+ */
+
+export interface TemplateSegment {
+  text: string; // Raw text, including the braces for placeholders
+  variable?: string; // Set when the segment is a placeholder
+}
+
+const placeholderPattern = () => /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Text and placeholder pieces in order, for highlighted rendering
+export const splitTemplate = (text: string): TemplateSegment[] => {
+  const segments: TemplateSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(placeholderPattern())) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, index) });
+    }
+    segments.push({ text: match[0], variable: match[1] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+// Unique variable names referenced by a template
+export const extractTemplateVariables = (text: string): string[] => {
+  return [...new Set([...text.matchAll(placeholderPattern())].map(match => match[1]))];
+};
+
+// Message text as the end user sees it, placeholders replaced with values
+export const renderTemplate = (text: string, values: Record<string, string>): string => {
+  return text.replace(placeholderPattern(), (_, name: string) => values[name] ?? '');
+};
@@ -0,0 +1,399 @@
+import { Node } from 'reactflow';
+import { FlowNodeData } from '../nodes';
+import { TextNodeData } from '../nodes/TextNode';
+import { ButtonNodeData, ReplyButton } from '../nodes/ButtonNode';
+import { InputNodeData } from '../nodes/InputNode';
+import { MediaNodeData } from '../nodes/MediaNode';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { flattenNodes } from './groups';
+
+// Flow-level language configuration
+export interface LocaleSettings {
+  defaultLocale: string; // Language the node fields themselves are written in
+  locales: string[]; // Every supported locale, default first
+}
+
+// Per-locale overrides kept on node data: locale -> string key -> text
+export type NodeTranslations = Record<string, Record<string, string>>;
+
+// Node data that may carry translations
+export type WithTranslations<T> = T & { translations?: NodeTranslations };
+
+// Any node's data, default language plus translations
+export type LocalizedNodeData = WithTranslations<FlowNodeData>;
+
+// One piece of user-facing text on a node
+export interface TranslatableString {
+  key: string; // 'text', 'errorMessage', 'title', 'subtitle', 'button:<id>' or 'choice:<index>'
+  label: string; // Shown to translators, e.g. 'Button "Yes"'
+  source: string; // Default-locale text
+}
+
+// One translated string read from a translator's file
+export interface TranslationEntry {
+  id: string; // `<node id>#<key>`, see stringId
+  locale: string;
+  text: string;
+}
+
+export interface TranslationParseResult {
+  isValid: boolean;
+  errors: string[];
+  entries: TranslationEntry[];
+}
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = { defaultLocale: 'en', locales: ['en'] };
+
+/**
+ * Multi-language message content
+ *
+ * Storage: node fields hold the default locale; every other locale lives in
+ * `data.translations[locale][key]`, so flows without translations are
+ * unchanged and a node edited in the default locale keeps working everywhere
+ * Fallback: a missing or blank translation falls back to the default text
+ * Choices: input choices have no IDs, so their strings are keyed by position
+ * and moved along whenever the list of options changes
+ * Files: all strings (groups included) export as CSV - one column per
+ * locale - or as XLIFF 1.2 for one target locale; both import back by id
+ */
+
+// BCP 47-style codes such as "en", "es" or "pt-BR"
+export const isValidLocale = (code: string) => /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(code);
+
+// "es" -> "Spanish (es)" where the browser knows the language
+export const describeLocale = (code: string): string => {
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(code);
+    return name && name !== code ? `${name} (${code})` : code;
+  } catch {
+    return code;
+  }
+};
+
+const getButtonStrings = (buttons: ReplyButton[] = []): TranslatableString[] => buttons.map(button => ({
+  key: `button:${button.id}`,
+  label: `Button "${button.label}"`,
+  source: button.label,
+}));
+
+// User-facing strings of a node in the default locale - node types without text have none
+export const getTranslatableStrings = (type: string | undefined, data: LocalizedNodeData | undefined): TranslatableString[] => {
+  if (!data) return [];
+  switch (type) {
+    case 'textNode':
+      return [{ key: 'text', label: 'Message', source: (data as TextNodeData).text || '' }];
+    case 'buttonNode': {
+      const message = data as ButtonNodeData;
+      return [{ key: 'text', label: 'Message', source: message.text || '' }, ...getButtonStrings(message.buttons)];
+    }
+    case 'mediaNode': {
+      const media = data as MediaNodeData;
+      return media.kind === 'card'
+        ? [
+          { key: 'title', label: 'Card title', source: media.title || '' },
+          { key: 'subtitle', label: 'Card subtitle', source: media.subtitle || '' },
+          ...getButtonStrings(media.buttons),
+        ]
+        : [{ key: 'text', label: 'Caption', source: media.text || '' }];
+    }
+    case 'inputNode': {
+      const input = data as InputNodeData;
+      return [
+        { key: 'text', label: 'Question', source: input.text || '' },
+        { key: 'errorMessage', label: 'Retry message', source: input.errorMessage || '' },
+        ...(input.choices || []).map((choice, index) => ({
+          key: `choice:${index}`,
+          label: `Option ${index + 1}`,
+          source: choice,
+        })),
+      ];
+    }
+    default:
+      return [];
+  }
+};
+
+// The translation as written, or '' when there is none
+export const getTranslation = (data: LocalizedNodeData | undefined, locale: string, key: string): string => {
+  return data?.translations?.[locale]?.[key] ?? '';
+};
+
+// Node data with one translation set - a blank value removes it again
+export const withTranslation = <T extends object>(data: WithTranslations<T>, locale: string, key: string, value: string): WithTranslations<T> => {
+  const translations = data.translations || {};
+  const { [key]: _previous, ...others } = translations[locale] || {};
+  const strings = value.trim() ? { ...others, [key]: value } : others;
+  return { ...data, translations: { ...translations, [locale]: strings } };
+};
+
+// Translations with their string keys renamed in every locale - null drops a string
+// Needed wherever the id or position a key is built from changes
+export const renameTranslationKeys = (
+  translations: NodeTranslations,
+  rename: (key: string) => string | null,
+): NodeTranslations => Object.fromEntries(Object.entries(translations).map(([locale, strings]) => [
+  locale,
+  Object.fromEntries(Object.entries(strings).flatMap(([key, text]) => {
+    const renamed = rename(key);
+    return renamed === null ? [] : [[renamed, text]];
+  })),
+]));
+
+// Choice translations after the options changed from `previous` to `next`
+// Same count: options were retyped in place, so positions stay. Otherwise each
+// option keeps its translation by matching its text; removed options drop theirs
+export const moveChoiceTranslations = (translations: NodeTranslations, previous: string[], next: string[]): NodeTranslations => {
+  if (previous.length === next.length) return translations;
+
+  const positions = new Map<number, number>(); // Old index -> new index
+  next.forEach((choice, index) => {
+    const match = previous.findIndex((candidate, old) => candidate === choice && !positions.has(old));
+    if (match >= 0) positions.set(match, index);
+  });
+  return renameTranslationKeys(translations, key => {
+    const match = /^choice:(\d+)$/.exec(key);
+    if (!match) return key;
+    const index = positions.get(Number(match[1]));
+    return index === undefined ? null : `choice:${index}`;
+  });
+};
+
+// Node data as seen in one locale - every translatable field replaced, falling back to the default text
+export const localizeNodeData = <T extends LocalizedNodeData>(type: string | undefined, data: T, locale: string | undefined): T => {
+  const strings = locale ? data?.translations?.[locale] : undefined;
+  if (!strings || Object.keys(strings).length === 0) return data;
+
+  const pick = (key: string, source: string) => (strings[key]?.trim() ? strings[key] : source);
+  const pickButtons = (buttons: ReplyButton[] = []) => buttons.map(button => ({ ...button, label: pick(`button:${button.id}`, button.label) }));
+  switch (type) {
+    case 'textNode':
+      return { ...data, text: pick('text', (data as TextNodeData).text) };
+    case 'buttonNode': {
+      const message = data as ButtonNodeData;
+      return { ...data, text: pick('text', message.text), buttons: pickButtons(message.buttons) };
+    }
+    case 'mediaNode': {
+      const media = data as MediaNodeData;
+      return {
+        ...data,
+        text: pick('text', media.text),
+        title: pick('title', media.title),
+        subtitle: pick('subtitle', media.subtitle),
+        buttons: pickButtons(media.buttons),
+      };
+    }
+    case 'inputNode': {
+      const input = data as InputNodeData;
+      return {
+        ...data,
+        text: pick('text', input.text),
+        errorMessage: pick('errorMessage', input.errorMessage),
+        choices: (input.choices || []).map((choice, index) => pick(`choice:${index}`, choice)),
+      };
+    }
+    default:
+      return data;
+  }
+};
+
+// Strings of a node that have default text but no translation in `locale`
+export const findMissingTranslations = (type: string | undefined, data: LocalizedNodeData | undefined, locale: string): TranslatableString[] => {
+  return getTranslatableStrings(type, data).filter(
+    entry => entry.source.trim() && !getTranslation(data, locale, entry.key).trim()
+  );
+};
+
+const stringId = (nodeId: string, key: string) => `${nodeId}#${key}`;
+
+const parseStringId = (id: string): { nodeId: string; key: string } | null => {
+  const separator = id.indexOf('#');
+  return separator > 0 ? { nodeId: id.slice(0, separator), key: id.slice(separator + 1) } : null;
+};
+
+// ---------- CSV ----------
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// RFC 4180 rows - quoted fields may contain commas, quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Every string of the flow with one column per locale, default first
+export const exportTranslationsCsv = (nodes: Node[], settings: LocaleSettings): string => {
+  const otherLocales = settings.locales.filter(locale => locale !== settings.defaultLocale);
+  const rows = [['id', 'context', settings.defaultLocale, ...otherLocales]];
+  flattenNodes(nodes).forEach(node => {
+    getTranslatableStrings(node.type, node.data).forEach(entry => {
+      rows.push([
+        stringId(node.id, entry.key),
+        entry.label,
+        entry.source,
+        ...otherLocales.map(locale => getTranslation(node.data, locale, entry.key)),
+      ]);
+    });
+  });
+  return rows.map(cells => cells.map(escapeCsv).join(',')).join('\r\n');
+};
+
+export const parseTranslationsCsv = (text: string, settings: LocaleSettings): TranslationParseResult => {
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, '')); // Spreadsheet apps often add a BOM
+  if (!header || header[0]?.trim() !== 'id') {
+    return { isValid: false, errors: ['The first row must be a header starting with an "id" column'], entries: [] };
+  }
+
+  const errors: string[] = [];
+  const columns: { index: number; locale: string }[] = [];
+  header.forEach((cell, index) => {
+    const locale = cell.trim();
+    if (index < 2 || locale === settings.defaultLocale) return; // id, context and the source text
+    if (!settings.locales.includes(locale)) {
+      errors.push(`Column "${locale}" is not one of the flow's languages - add it under Languages first`);
+      return;
+    }
+    columns.push({ index, locale });
+  });
+
+  const entries: TranslationEntry[] = [];
+  rows.forEach((cells, row) => {
+    const id = cells[0]?.trim() || '';
+    if (!parseStringId(id)) {
+      errors.push(`Row ${row + 2} has an invalid id "${id}"`);
+      return;
+    }
+    columns.forEach(({ index, locale }) => entries.push({ id, locale, text: cells[index] ?? '' }));
+  });
+
+  return { isValid: errors.length === 0, errors, entries };
+};
+
+// ---------- XLIFF ----------
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// XLIFF 1.2 document for translating the default locale into `locale`
+export const exportTranslationsXliff = (nodes: Node[], settings: LocaleSettings, locale: string, flowName: string): string => {
+  const units = flattenNodes(nodes).flatMap(node =>
+    getTranslatableStrings(node.type, node.data).map(entry => [
+      `      <trans-unit id="${escapeXml(stringId(node.id, entry.key))}">`,
+      `        <source>${escapeXml(entry.source)}</source>`,
+      `        <target>${escapeXml(getTranslation(node.data, locale, entry.key))}</target>`,
+      `        <note>${escapeXml(entry.label)}</note>`,
+      '      </trans-unit>',
+    ].join('\n'))
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file original="${escapeXml(flowName)}" source-language="${settings.defaultLocale}" target-language="${locale}" datatype="plaintext">`,
+    '    <body>',
+    ...units,
+    '    </body>',
+    '  </file>',
+    '</xliff>',
+  ].join('\n');
+};
+
+export const parseTranslationsXliff = (text: string, settings: LocaleSettings): TranslationParseResult => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    return { isValid: false, errors: ['The file is not valid XML'], entries: [] };
+  }
+
+  const errors: string[] = [];
+  const entries: TranslationEntry[] = [];
+  const files = Array.from(xml.getElementsByTagName('file'));
+  if (files.length === 0) {
+    errors.push('The file contains no <file> element');
+  }
+  files.forEach(file => {
+    const locale = file.getAttribute('target-language') || '';
+    if (!settings.locales.includes(locale) || locale === settings.defaultLocale) {
+      errors.push(`Target language "${locale}" is not one of the flow's translated languages - add it under Languages first`);
+      return;
+    }
+    Array.from(file.getElementsByTagName('trans-unit')).forEach(unit => {
+      const id = unit.getAttribute('id') || '';
+      if (!parseStringId(id)) {
+        errors.push(`Translation unit "${id}" has an invalid id`);
+        return;
+      }
+      entries.push({ id, locale, text: unit.getElementsByTagName('target')[0]?.textContent ?? '' });
+    });
+  });
+
+  return { isValid: errors.length === 0, errors, entries };
+};
+
+// ---------- Import ----------
+
+// Write imported strings onto the nodes they belong to, inside groups too
+// Blank texts clear a translation; ids that match no string are counted, not fatal
+export const applyTranslations = (nodes: Node[], entries: TranslationEntry[]): { nodes: Node[]; applied: number; unmatched: number } => {
+  const byNode = new Map<string, TranslationEntry[]>();
+  entries.forEach(entry => {
+    const nodeId = parseStringId(entry.id)!.nodeId;
+    byNode.set(nodeId, [...(byNode.get(nodeId) || []), entry]);
+  });
+
+  let applied = 0;
+  let matched = 0;
+  const translate = (list: Node[]): Node[] => list.map(node => {
+    let data = node.data;
+    if (node.type === 'groupNode') {
+      const group = data as GroupNodeData;
+      data = { ...group, flow: { ...group.flow, nodes: translate(group.flow.nodes as Node[]) } };
+    }
+
+    const keys = new Set(getTranslatableStrings(node.type, node.data).map(entry => entry.key));
+    (byNode.get(node.id) || []).forEach(entry => {
+      const { key } = parseStringId(entry.id)!;
+      if (!keys.has(key)) return;
+      matched++;
+      if (getTranslation(data, entry.locale, key) === entry.text) return;
+      data = withTranslation(data, entry.locale, key, entry.text);
+      applied++;
+    });
+    return data === node.data ? node : { ...node, data };
+  });
+
+  const translated = translate(nodes);
+  return { nodes: translated, applied, unmatched: entries.length - matched };
+};
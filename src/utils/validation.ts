@@ -1,8 +1,113 @@
 import { Node, Edge } from 'reactflow';
+import { ReplyButton } from '../nodes/ButtonNode';
+import { ConditionCase } from '../nodes/ConditionNode';
+import { InputNodeData } from '../nodes/InputNode';
+import { getPatternError } from './conditions';
+import { FlowVariable, isValidVariableName, collectFlowVariables } from './variables';
+import { extractTemplateVariables } from './templates';
+import { toSubflowGraph, flattenNodes } from './groups';
+import { LocaleSettings, DEFAULT_LOCALE_SETTINGS, findMissingTranslations, describeLocale } from './translations';
+import { GroupNodeData } from '../nodes/GroupNode';
+import { HttpNodeData, HttpHeader } from '../nodes/HttpNode';
+import { HTTP_FAILURE_HANDLE } from './http';
+import { MediaNodeData } from '../nodes/MediaNode';
+import { MEDIA_KIND_LABELS, getMediaFileError } from './media';
+import { TextNodeData } from '../nodes/TextNode';
+import { OUTSIDE_HOURS_HANDLE, getBusinessHoursError } from './schedule';
+import {
+  FlowGraph,
+  buildFlowGraph,
+  getSourceHandleIds,
+  getReplyButtons,
+  getOpenHandles,
+  findStartNodes,
+  findReachable,
+  findStronglyConnected,
+  withoutAnnotations,
+} from '../engine/graph';
+
+export type IssueSeverity = 'error' | 'warning';
+
+// Stable rule identifiers - shown in the problems panel
+export type IssueCode =
+  | 'invalid-variable-name'
+  | 'empty-message'
+  | 'no-reply-buttons'
+  | 'empty-button-label'
+  | 'missing-question'
+  | 'invalid-answer-variable'
+  | 'missing-choices'
+  | 'no-condition-cases'
+  | 'missing-case-variable'
+  | 'undeclared-condition-variable'
+  | 'invalid-regex'
+  | 'unconnected-branch'
+  | 'undeclared-template-variable'
+  | 'stale-connection'
+  | 'disconnected-node'
+  | 'multiple-start-nodes'
+  | 'no-start-node'
+  | 'unreachable-node'
+  | 'cycle-without-exit'
+  | 'empty-group'
+  | 'group-missing-entry'
+  | 'missing-url'
+  | 'invalid-url'
+  | 'invalid-timeout'
+  | 'invalid-response-mapping'
+  | 'unhandled-request-failure'
+  | 'missing-media'
+  | 'invalid-media'
+  | 'unhosted-media'
+  | 'missing-card-title'
+  | 'invalid-message-timing'
+  | 'invalid-business-hours'
+  | 'unhandled-outside-hours'
+  | 'missing-translation';
+
+export interface ValidationIssue {
+  code: IssueCode;
+  severity: IssueSeverity;
+  message: string;
+  nodeIds: string[]; // Offending nodes - focused when the issue is clicked
+  edgeIds: string[]; // Offending connections
+}
 
 export interface ValidationResult {
-  isValid: boolean;
-  errorMessage?: string;
+  isValid: boolean; // No error-severity issues - warnings never block saving
+  issues: ValidationIssue[]; // Every problem found, errors first
+  errorMessage?: string; // The first error as a single sentence, for toasts and the preview
+  startNodeId?: string; // Conversation entry point, set whenever exactly one exists
+}
+
+// Issues found for one node, and what they were found against
+interface CachedIssues {
+  key: string;
+  issues: ValidationIssue[];
+}
+
+// Graph-wide results: entry point, reachability and loops
+interface GraphChecks {
+  issues: ValidationIssue[];
+  startNodeId?: string;
+}
+
+// Results kept between runs of validateFlow - see createValidationCache
+export interface ValidationCache {
+  content: WeakMap<Node, CachedIssues>;
+  translations: WeakMap<Node, CachedIssues>;
+  registryKey: string;
+  version: number; // Bumped when the registry or the connections change - every node's content is then re-checked
+  graph: FlowGraph<Node, Edge> | null; // Last run's graph, patched while only node data changes
+  graphChecks: GraphChecks | null;
+}
+
+// Serialized flow shape - what gets saved, loaded and exported
+export interface FlowData {
+  nodes: Pick<Node, 'id' | 'type' | 'position' | 'data'>[];
+  edges: Pick<Edge, 'id' | 'source' | 'target' | 'sourceHandle' | 'targetHandle' | 'type' | 'data'>[];
+  variables: FlowVariable[]; // Flow-level variable declarations
+  locales: LocaleSettings; // Languages the flow's messages are written in
 }
 
 /**
@@ -12,81 +117,541 @@ export interface ValidationResult {
  * - Single starting node (no incoming connections) required for clear entry point
  * - All nodes must be connected (no isolated islands)
  * - Target handles can accept multiple connections, source handles limited to one
+ * - Button nodes expose one source handle per reply button (handle ID = button ID)
+ * - Condition nodes expose one handle per case plus a default, and every branch must be connected
+ * - Conditions may only check variables in the registry (declared or captured by an input node)
+ * - Collect-input nodes need a question and a valid target variable name
+ * - HTTP request nodes need an http(s) URL, a positive timeout and complete response mappings
+ * - Media nodes need a file of an accepted type and size; cards also need a title and labelled buttons
+ * - Message delays and typing times cannot be negative; business hours need a known time zone,
+ *   HH:MM times and at least one open day
+ * - {{variable}} placeholders in messages must name registered variables
+ * - Cycles need a way out, either a connection leaving the loop or an unconnected (ending) handle
+ * - Groups are checked inside too: content rules, a valid entry, and every step reachable from it
+ *   (unconnected handles inside a group lead to its exit, so they are not errors there)
+ * - Sticky notes are annotations, not steps - they are skipped by every rule
  * 
- * Used before saving to ensure valid chatbot conversation structure
+ * Warnings (empty messages, nodes unreachable from the start, loops the user
+ * can never leave) are reported but do not block saving
+ * 
+ * Used before saving to ensure valid chatbot conversation structure, and live
+ * by the problems panel. Graph rules (handles, reachability, start node) come
+ * from the engine's graph model, so what validates is what the engine runs
+ *
+ * Incremental runs: with a ValidationCache, a node's content and translation
+ * issues are reused while the node object, the connections and the variable
+ * registry stay the same. React Flow only replaces the node objects an edit
+ * touches, so typing into one node re-checks that node. The graph is patched
+ * rather than rebuilt while the connections stay the same, and graph-wide
+ * rules (start node, reachability, loops) only re-run when an edited node
+ * changed type or handles, or is named by one of their issues
  */
 
-// Main validation function - checks flow structure before saving
-// Returns error messages explaining why validation failed
-export const validateFlow = (nodes: Node[], edges: Edge[]): ValidationResult => {
-  // Empty or single-node flows are always valid
-  if (nodes.length <= 1) {
-    return { isValid: true };
+type Graph = FlowGraph<Node, Edge>;
+
+// Short quote of a node's message (or group name / URL / card title / file name) for messages
+export const describeNode = (node: Pick<Node, 'id' | 'data'>) => {
+  const text = node.data?.text?.trim() || node.data?.name?.trim() || node.data?.url?.trim()
+    || node.data?.title?.trim() || node.data?.asset?.fileName || node.id;
+  return `"${text.length > 30 ? `${text.slice(0, 30)}…` : text}"`;
+};
+
+const error = (code: IssueCode, message: string, nodeIds: string[] = [], edgeIds: string[] = []): ValidationIssue => ({
+  code, severity: 'error', message, nodeIds, edgeIds,
+});
+
+const warning = (code: IssueCode, message: string, nodeIds: string[] = [], edgeIds: string[] = []): ValidationIssue => ({
+  code, severity: 'warning', message, nodeIds, edgeIds,
+});
+
+// Messages should say something - an empty bubble is almost always unfinished work
+const validateMessageText = (node: Node): ValidationIssue[] => {
+  if ((node.type === 'textNode' || node.type === 'buttonNode') && !node.data?.text?.trim()) {
+    return [warning('empty-message', `A message node (${node.id}) has no text.`, [node.id])];
+  }
+  return [];
+};
+
+// Reply buttons need labels - the end user picks from them
+const validateButtonNode = (node: Node): ValidationIssue[] => {
+  const buttons: ReplyButton[] = node.data?.buttons || [];
+  if (buttons.length === 0) {
+    return [error('no-reply-buttons', `${describeNode(node)} has no reply buttons. Add at least one button or use a plain message node.`, [node.id])];
+  }
+  if (buttons.some(button => !button.label.trim())) {
+    return [error('empty-button-label', `A reply button on ${describeNode(node)} has no label.`, [node.id])];
+  }
+  return [];
+};
+
+// Input nodes must say what they ask and where the answer goes
+const validateInputNode = (node: Node): ValidationIssue[] => {
+  const data = node.data as InputNodeData;
+  const issues: ValidationIssue[] = [];
+  if (!data?.text?.trim()) {
+    issues.push(error('missing-question', `A collect-input node (${node.id}) has no question.`, [node.id]));
+  }
+  if (!isValidVariableName(data?.variable || '')) {
+    issues.push(error('invalid-answer-variable', `${describeNode(node)} must store its answer in a valid variable name.`, [node.id]));
+  }
+  if (data?.inputType === 'choice' && !(data.choices || []).some(choice => choice.trim())) {
+    issues.push(error('missing-choices', `${describeNode(node)} asks for a choice but lists no options.`, [node.id]));
+  }
+  return issues;
+};
+
+// Conditions must check registered variables and route every branch somewhere
+// Inside a group an unconnected branch is allowed - it continues through the group's exit
+const validateConditionNode = (node: Node, graph: Graph, registered: Set<string>, insideGroup: boolean): ValidationIssue[] => {
+  const cases: ConditionCase[] = node.data?.cases || [];
+  if (cases.length === 0) {
+    return [error('no-condition-cases', `Condition ${describeNode(node)} has no cases. Add at least one case so it can branch.`, [node.id])];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const branch of cases) {
+    if (!branch.variable) {
+      issues.push(error('missing-case-variable', `A case on condition ${describeNode(node)} has no variable selected.`, [node.id]));
+    } else if (!registered.has(branch.variable)) {
+      issues.push(error(
+        'undeclared-condition-variable',
+        `Condition ${describeNode(node)} checks undeclared variable "${branch.variable}". Declare it under Variables or capture it with a Collect input node first.`,
+        [node.id],
+      ));
+    }
+    const patternError = branch.operator === 'matches' ? getPatternError(branch.value) : null;
+    if (patternError) {
+      issues.push(error('invalid-regex', `Condition ${describeNode(node)} has an invalid regex "${branch.value}" (${patternError}).`, [node.id]));
+    }
+  }
+
+  const unconnected = getOpenHandles(graph, node.id);
+  if (unconnected.length > 0 && !insideGroup) {
+    issues.push(error(
+      'unconnected-branch',
+      `Condition ${describeNode(node)} has ${unconnected.length} unconnected branch${unconnected.length > 1 ? 'es' : ''}. Connect every case and the "Otherwise" branch.`,
+      [node.id],
+    ));
+  }
+  return issues;
+};
+
+// Requests need somewhere to go, and every mapping needs both a path and a variable
+// An unconnected failure handle is allowed (the chat just ends) but rarely intended
+const validateHttpNode = (node: Node, graph: Graph, insideGroup: boolean): ValidationIssue[] => {
+  const data = node.data as HttpNodeData;
+  const issues: ValidationIssue[] = [];
+  const url = data?.url?.trim() || '';
+  if (!url) {
+    issues.push(error('missing-url', `An HTTP request node (${node.id}) has no URL.`, [node.id]));
+  } else if (!/^(https?:\/\/|\{\{)/i.test(url)) {
+    issues.push(error('invalid-url', `${describeNode(node)} must start with http:// or https:// (or a {{variable}} holding the base URL).`, [node.id]));
+  }
+  if (!(data?.timeoutMs > 0)) {
+    issues.push(error('invalid-timeout', `${describeNode(node)} needs a timeout greater than 0 ms.`, [node.id]));
+  }
+  if ((data?.mappings || []).some(mapping => !mapping.path.trim() || !isValidVariableName(mapping.variable))) {
+    issues.push(error('invalid-response-mapping', `A response mapping on ${describeNode(node)} needs a JSON path and a valid variable name.`, [node.id]));
+  }
+  if (!insideGroup && getOpenHandles(graph, node.id).includes(HTTP_FAILURE_HANDLE)) {
+    issues.push(warning('unhandled-request-failure', `${describeNode(node)} has no connection for failed requests, so the conversation ends if the request fails.`, [node.id]));
+  }
+  return issues;
+};
+
+// Pauses are optional but never negative, and business hours need a window that can open
+// An unconnected "Outside hours" handle is allowed (the chat just ends) but rarely intended
+const validateMessageTiming = (node: Node, graph: Graph, insideGroup: boolean): ValidationIssue[] => {
+  const data = node.data as TextNodeData;
+  const issues: ValidationIssue[] = [];
+  if ([data?.delayMs, data?.typingMs].some(ms => ms !== undefined && !(ms >= 0))) {
+    issues.push(error('invalid-message-timing', `${describeNode(node)} has a negative delay or typing time.`, [node.id]));
+  }
+  if (!data?.businessHours) return issues;
+
+  const hoursError = getBusinessHoursError(data.businessHours);
+  if (hoursError) {
+    issues.push(error('invalid-business-hours', `Business hours on ${describeNode(node)}: ${hoursError}.`, [node.id]));
+  }
+  if (!insideGroup && getOpenHandles(graph, node.id).includes(OUTSIDE_HOURS_HANDLE)) {
+    issues.push(warning('unhandled-outside-hours', `${describeNode(node)} has no "Outside hours" connection, so the conversation ends when it runs outside business hours.`, [node.id]));
+  }
+  return issues;
+};
+
+// Media needs a file the channel accepts - a picked file also needs hosting before the bot can send it
+// Cards are titled, and their buttons labelled like a button node's
+const validateMediaNode = (node: Node): ValidationIssue[] => {
+  const data = node.data as MediaNodeData;
+  const kind = MEDIA_KIND_LABELS[data?.kind]?.toLowerCase() || 'media';
+  const issues: ValidationIssue[] = [];
+  if (!data?.asset) {
+    issues.push(error('missing-media', `A ${kind} node (${node.id}) has no file.`, [node.id]));
+  } else {
+    const fileError = getMediaFileError(data.kind, data.asset);
+    if (fileError) {
+      issues.push(error('invalid-media', `${describeNode(node)}: ${fileError}.`, [node.id]));
+    }
+    if (!data.asset.url) {
+      issues.push(warning('unhosted-media', `${describeNode(node)} uses a file from this computer. Upload it and paste its URL so the bot can send it.`, [node.id]));
+    }
+  }
+  if (data?.kind === 'card') {
+    if (!data.title?.trim()) {
+      issues.push(error('missing-card-title', `A card node (${node.id}) has no title.`, [node.id]));
+    }
+    if ((data.buttons || []).some(button => !button.label.trim())) {
+      issues.push(error('empty-button-label', `A button on card ${describeNode(node)} has no label.`, [node.id]));
+    }
+  }
+  return issues;
+};
+
+// Fields of a node that may hold {{variable}} placeholders - also what copying a node carries variables for
+export const getTemplateSources = (node: Pick<Node, 'type' | 'data'>): string[] => {
+  const templates: (string | undefined)[] = node.type === 'httpNode'
+    ? [node.data?.url, node.data?.body, ...(node.data?.headers || []).map((header: HttpHeader) => header.value)]
+    : node.type === 'mediaNode'
+      ? [node.data?.text, node.data?.title, node.data?.subtitle]
+      : [node.data?.text, node.type === 'inputNode' ? node.data?.errorMessage : undefined];
+  return templates.map(template => template || '');
+};
+
+// Message placeholders must resolve to a registered variable
+const validateTemplates = (node: Node, registered: Set<string>): ValidationIssue[] => {
+  const unknown = new Set(getTemplateSources(node).flatMap(extractTemplateVariables).filter(name => !registered.has(name)));
+
+  return [...unknown].map(name => error(
+    'undeclared-template-variable',
+    `${describeNode(node)} uses undeclared variable "{{${name}}}". Declare it under Variables or capture it with a Collect input node.`,
+    [node.id],
+  ));
+};
+
+// Variable declarations need valid, unique names
+const validateDeclarations = (variables: FlowVariable[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const declared = new Set<string>();
+  for (const variable of variables) {
+    if (!isValidVariableName(variable.name) || declared.has(variable.name)) {
+      issues.push(error('invalid-variable-name', `Variable "${variable.name}" has an invalid or duplicate name.`));
+    }
+    declared.add(variable.name);
   }
+  return issues;
+};
+
+export const createValidationCache = (): ValidationCache => ({
+  content: new WeakMap(),
+  translations: new WeakMap(),
+  registryKey: '',
+  version: 0,
+  graph: null,
+  graphChecks: null,
+});
+
+// Reuse a node's issues while it and the key are unchanged
+const withCache = (store: WeakMap<Node, CachedIssues> | undefined, node: Node, key: string, check: () => ValidationIssue[]) => {
+  const hit = store?.get(node);
+  if (hit && hit.key === key) return hit.issues;
+  const issues = check();
+  store?.set(node, { key, issues });
+  return issues;
+};
+
+// Every content rule for one node
+const validateNode = (node: Node, graph: Graph, registered: Set<string>, insideGroup: boolean): ValidationIssue[] => {
+  const issues = validateMessageText(node);
+  if (node.type === 'textNode') issues.push(...validateMessageTiming(node, graph, insideGroup));
+  if (node.type === 'buttonNode') issues.push(...validateButtonNode(node));
+  if (node.type === 'conditionNode') issues.push(...validateConditionNode(node, graph, registered, insideGroup));
+  if (node.type === 'inputNode') issues.push(...validateInputNode(node));
+  if (node.type === 'httpNode') issues.push(...validateHttpNode(node, graph, insideGroup));
+  if (node.type === 'mediaNode') issues.push(...validateMediaNode(node));
+  if (node.type === 'groupNode') issues.push(...validateGroupNode(node, registered));
+  issues.push(...validateTemplates(node, registered));
+  return issues;
+};
 
-  // Build set of all nodes that have connections
-  const connectedNodeIds = new Set<string>();
-  edges.forEach(edge => {
-    connectedNodeIds.add(edge.source); // Track connected nodes
-    connectedNodeIds.add(edge.target);
+// Node content rules - apply even to single-node flows
+// Results depend on the node, the registry and which of its handles are connected
+const validateNodeContent = (graph: Graph, registered: Set<string>, insideGroup = false, cache?: ValidationCache): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const key = String(cache?.version);
+  for (const node of graph.nodes) {
+    issues.push(...withCache(cache?.content, node, key, () => validateNode(node, graph, registered, insideGroup)));
+  }
+
+  // Every edge must leave from a handle its source node still has
+  graph.edges.forEach(edge => {
+    const source = graph.nodesById.get(edge.source);
+    if (source && !getSourceHandleIds(source).includes(edge.sourceHandle ?? null)) {
+      issues.push(error(
+        'stale-connection',
+        `A connection from ${describeNode(source)} starts at a button or branch that no longer exists.`,
+        [source.id],
+        [edge.id],
+      ));
+    }
   });
-  
-  // Find completely isolated nodes (no connections at all)
+
+  return issues;
+};
+
+// Loops must offer a way out: an edge leaving the loop, or a handle left unconnected (ending the chat)
+const validateCycles = (graph: Graph): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  for (const component of findStronglyConnected(graph)) {
+    const members = new Set(component);
+    const leaving = component.flatMap(id => graph.outgoing.get(id)!);
+    const internalEdges = leaving.filter(edge => members.has(edge.target));
+    if (component.length === 1 && internalEdges.length === 0) continue; // Not a cycle
+
+    const leavesLoop = leaving.some(edge => !members.has(edge.target));
+    const hasEnding = component.some(id => getOpenHandles(graph, id).length > 0);
+    if (leavesLoop || hasEnding) continue;
+
+    // A loop that waits for the user at least stops between rounds; one that never does spins forever
+    const waitsForUser = component.some(id => {
+      const member = graph.nodesById.get(id)!;
+      return member.type === 'inputNode' || !!getReplyButtons(member);
+    });
+    const loopNode = describeNode(graph.nodesById.get(component[component.length - 1])!); // Where the walk entered the loop
+    issues.push(waitsForUser
+      ? warning('cycle-without-exit', `The loop through ${loopNode} has no exit, so the conversation can never end once it gets there.`, component, internalEdges.map(edge => edge.id))
+      : error('cycle-without-exit', `The loop through ${loopNode} has no exit and never waits for the user, so it would repeat forever.`, component, internalEdges.map(edge => edge.id)));
+  }
+  return issues;
+};
+
+// Groups are validated like a small flow that starts at the entry node
+// Inner issues are reported against the group node, which is what the canvas shows
+const validateGroupNode = (node: Node, registered: Set<string>): ValidationIssue[] => {
+  const data = node.data as GroupNodeData;
+  const nodes = withoutAnnotations((data.flow?.nodes || []) as Node[]);
+  const graph = buildFlowGraph(nodes, (data.flow?.edges || []) as Edge[]);
+
+  if (nodes.length === 0) {
+    return [error('empty-group', `Group ${describeNode(node)} has no steps.`, [node.id])];
+  }
+
+  const issues = [...validateNodeContent(graph, registered, true), ...validateCycles(graph)];
+  if (!nodes.some(inner => inner.id === data.entryNodeId)) {
+    issues.push(error('group-missing-entry', 'Its entry step no longer exists. Open the group and connect its first step.'));
+  } else {
+    const reached = findReachable(graph, data.entryNodeId);
+    const unreachable = nodes.filter(inner => !reached.has(inner.id));
+    if (unreachable.length > 0) {
+      issues.push(warning(
+        'unreachable-node',
+        `${unreachable.length === 1 ? `${describeNode(unreachable[0])} is` : `${unreachable.length} steps are`} never reached from the group's entry.`,
+      ));
+    }
+  }
+
+  return issues.map(issue => ({
+    ...issue,
+    message: `In group ${describeNode(node)}: ${issue.message}`,
+    nodeIds: [node.id],
+    edgeIds: [],
+  }));
+};
+
+// Entry point, islands and reachability - only meaningful once there are several nodes
+const validateStructure = (graph: Graph): { issues: ValidationIssue[]; startNodeId?: string } => {
+  const { nodes } = graph;
+  if (nodes.length <= 1) {
+    return { issues: [], startNodeId: nodes[0]?.id }; // Empty or single-node flows need no connections
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  // Nodes with at least one connection, in either direction
+  const connectedNodeIds = new Set(
+    nodes.filter(node => graph.outgoing.get(node.id)!.length > 0 || graph.incoming.get(node.id)!.length > 0).map(node => node.id)
+  );
+
+  // Completely isolated nodes (no connections at all)
   const disconnectedNodes = nodes.filter(node => !connectedNodeIds.has(node.id));
-  
-  if (disconnectedNodes.length > 1) { // Multiple islands not allowed
-    return {
-      isValid: false,
-      errorMessage: `Cannot save Flow: ${disconnectedNodes.length} nodes are completely disconnected. Please connect all nodes to create a valid conversation flow.`
-    };
+  if (disconnectedNodes.length > 0) {
+    issues.push(error(
+      'disconnected-node',
+      disconnectedNodes.length === 1
+        ? `${describeNode(disconnectedNodes[0])} is disconnected from the flow. Connect it to create a valid conversation path.`
+        : `${disconnectedNodes.length} nodes are completely disconnected. Connect all nodes to create a valid conversation flow.`,
+      disconnectedNodes.map(node => node.id),
+    ));
+  }
+
+  // Potential starting nodes among the connected ones - isolated nodes are reported above
+  const startNodes = findStartNodes(graph);
+
+  if (startNodes.length > 1) {
+    issues.push(error(
+      'multiple-start-nodes',
+      `${startNodes.length} nodes have no incoming connections. Only one starting node is allowed in a chatbot flow.`,
+      startNodes.map(node => node.id),
+    ));
+  }
+  if (startNodes.length === 0 && connectedNodeIds.size > 0) {
+    issues.push(error(
+      'no-start-node',
+      'No starting node found. At least one node must have no incoming connections to serve as the conversation entry point.',
+    ));
+  }
+  if (startNodes.length !== 1) {
+    return { issues };
   }
 
-  // If there's exactly one disconnected node and other connected nodes, it might be valid
-  // but we need to check the main flow structure
-  if (disconnectedNodes.length === 1 && connectedNodeIds.size > 0) {
-    return {
-      isValid: false,
-      errorMessage: `Cannot save Flow: 1 node is disconnected from the main flow. Please connect all nodes to create a valid conversation path.`
-    };
+  // Walk forward from the start; connected nodes never reached are dead content
+  const startNodeId = startNodes[0].id;
+  const reached = findReachable(graph, startNodeId);
+  const unreachable = nodes.filter(node => connectedNodeIds.has(node.id) && !reached.has(node.id));
+  if (unreachable.length > 0) {
+    issues.push(warning(
+      'unreachable-node',
+      `${unreachable.length === 1 ? `${describeNode(unreachable[0])} is` : `${unreachable.length} nodes are`} never reached from the start node.`,
+      unreachable.map(node => node.id),
+    ));
   }
 
-  const nodesWithoutIncomingEdges = nodes.filter(node => {
-    return !edges.some(edge => edge.target === node.id); // Find potential starting nodes
+  return { issues, startNodeId };
+};
+
+// Strings left in the default language - warnings, since the bot falls back to it
+// Steps inside a group are reported on the group node; a node's languages are listed together
+const validateTranslations = (nodes: Node[], locales: LocaleSettings, cache?: ValidationCache): ValidationIssue[] => {
+  const targets = locales.locales.filter(locale => locale !== locales.defaultLocale);
+  if (targets.length === 0) return [];
+
+  const checkNode = (node: Node) => targets.flatMap(locale => {
+    const missing = flattenNodes([node]).flatMap(inner => findMissingTranslations(inner.type, inner.data, locale));
+    if (missing.length === 0) return [];
+    return [warning(
+      'missing-translation',
+      node.type === 'groupNode'
+        ? `Group ${describeNode(node)} has ${missing.length} string${missing.length === 1 ? '' : 's'} without a ${describeLocale(locale)} translation.`
+        : `${describeNode(node)} has no ${describeLocale(locale)} translation for ${missing.map(entry => entry.label).join(', ')}.`,
+      [node.id],
+    )];
   });
 
-  if (nodesWithoutIncomingEdges.length > 1) {
-    return {
-      isValid: false,
-      errorMessage: `Cannot save Flow: ${nodesWithoutIncomingEdges.length} nodes have no incoming connections. Only one starting node is allowed in a chatbot flow.`
-    };
+  return nodes.flatMap(node => withCache(cache?.translations, node, targets.join(','), () => checkNode(node)));
+};
+
+const validateFlowGraph = (graph: Graph): { graph: Graph; checks: GraphChecks } => {
+  const structure = validateStructure(graph);
+  return { graph, checks: { issues: [...structure.issues, ...validateCycles(graph)], startNodeId: structure.startNodeId } };
+};
+
+// The last graph with replaced node objects swapped in, or null when nodes or
+// connections were added, removed or reordered and it has to be rebuilt
+const patchGraph = (previous: Graph, nodes: Node[], edges: Edge[]): { graph: Graph; changed: [Node, Node][] } | null => {
+  if (previous.edges !== edges || previous.nodes.length !== nodes.length) return null;
+  const changed: [Node, Node][] = [];
+  for (let index = 0; index < nodes.length; index++) {
+    const before = previous.nodes[index];
+    if (nodes[index] === before) continue;
+    if (nodes[index].id !== before.id) return null;
+    changed.push([before, nodes[index]]);
   }
+  changed.forEach(([, node]) => previous.nodesById.set(node.id, node));
+  return { graph: { ...previous, nodes }, changed };
+};
 
-  if (nodes.length > 1 && nodesWithoutIncomingEdges.length === 0) {
-    return {
-      isValid: false,
-      errorMessage: `Cannot save Flow: No starting node found. At least one node must have no incoming connections to serve as the conversation entry point.`
-    };
+const haveSameHandles = (before: Node, after: Node) => {
+  const previous = getSourceHandleIds(before);
+  const handles = getSourceHandleIds(after);
+  return before.type === after.type && previous.length === handles.length && previous.every((id, index) => id === handles[index]);
+};
+
+// validateFlowGraph, reusing the last run's graph and results where an edit cannot change them
+const validateGraphIncrementally = (cache: ValidationCache, nodes: Node[], edges: Edge[], registered: Set<string>) => {
+  const registryKey = [...registered].join(',');
+  const patched = cache.graph && cache.graphChecks ? patchGraph(cache.graph, nodes, edges) : null;
+  if (!patched || registryKey !== cache.registryKey) cache.version++;
+  cache.registryKey = registryKey;
+
+  if (!patched) {
+    const result = validateFlowGraph(buildFlowGraph(nodes, edges));
+    cache.graph = result.graph;
+    cache.graphChecks = result.checks;
+    return result;
   }
 
-  return { isValid: true };
+  const named = new Set(cache.graphChecks!.issues.flatMap(issue => issue.nodeIds));
+  const affected = patched.changed.some(([before, after]) => named.has(after.id) || !haveSameHandles(before, after));
+  cache.graph = patched.graph;
+  if (affected) cache.graphChecks = validateFlowGraph(patched.graph).checks;
+  return { graph: patched.graph, checks: cache.graphChecks! };
+};
+
+// Main validation function - checks flow structure before saving
+// Collects every issue so the problems panel can list them all at once
+// Pass the same cache on every run to only re-check what changed (see "Incremental runs" above)
+export const validateFlow = (
+  nodes: Node[],
+  edges: Edge[],
+  variables: FlowVariable[] = [],
+  locales: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  cache?: ValidationCache,
+): ValidationResult => {
+  const steps = withoutAnnotations(nodes);
+  const registered = new Set(collectFlowVariables(steps, variables).map(variable => variable.name));
+  const { graph, checks } = cache ? validateGraphIncrementally(cache, steps, edges, registered) : validateFlowGraph(buildFlowGraph(steps, edges));
+  const issues = [
+    ...validateDeclarations(variables),
+    ...validateNodeContent(graph, registered, false, cache),
+    ...checks.issues,
+    ...validateTranslations(steps, locales, cache),
+  ].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1)); // Errors first, stable otherwise
+
+  const firstError = issues.find(issue => issue.severity === 'error');
+  return {
+    isValid: !firstError,
+    issues,
+    errorMessage: firstError ? `Cannot save Flow: ${firstError.message}` : undefined,
+    startNodeId: checks.startNodeId,
+  };
 };
 
 // Create clean flow data for saving/export
 // Strips out React Flow internal properties, keeping only essential data
-export const createFlowData = (nodes: Node[], edges: Edge[]) => {
+// Group nodes keep their nested flow, cleaned the same way (see toSubflowGraph)
+export const createFlowData = (
+  nodes: Node[],
+  edges: Edge[],
+  variables: FlowVariable[] = [],
+  locales: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+): FlowData => {
   return {
-    nodes: nodes.map(node => ({
+    ...toSubflowGraph(nodes, edges),
+    variables: variables.map(variable => ({ ...variable })),
+    locales: { ...locales, locales: [...locales.locales] }
+  };
+};
+
+// Rebuild React Flow state from saved flow data (inverse of createFlowData)
+// Copies every serialized field back so positions and handle IDs round-trip exactly
+// Locale settings are flow-level configuration and are read from flowData.locales directly
+export const restoreFlowData = (flowData: Pick<FlowData, 'nodes' | 'edges' | 'variables'>): { nodes: Node[]; edges: Edge[]; variables: FlowVariable[] } => {
+  return {
+    nodes: flowData.nodes.map(node => ({
       id: node.id,
       type: node.type,
-      position: node.position,
-      data: node.data // Just the essential properties
+      position: { ...node.position },
+      data: node.data
     })),
-    edges: edges.map(edge => ({
+    edges: flowData.edges.map(edge => ({
       id: edge.id,
       source: edge.source,
       target: edge.target,
       sourceHandle: edge.sourceHandle,
-      targetHandle: edge.targetHandle
-    }))
+      targetHandle: edge.targetHandle,
+      type: edge.type,
+      data: edge.data // Label and metadata, absent on edges saved before they existed
+    })),
+    variables: flowData.variables.map(variable => ({ ...variable }))
   };
 };
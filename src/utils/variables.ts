@@ -0,0 +1,71 @@
+import { Node } from 'reactflow';
+import { InputNodeData } from '../nodes/InputNode';
+import { HttpNodeData } from '../nodes/HttpNode';
+import { flattenNodes } from './groups';
+
+export type VariableType = 'text' | 'number' | 'boolean';
+
+// Flow-level variable declaration - values are collected while a conversation runs
+export interface FlowVariable {
+  name: string;
+  type: VariableType;
+  defaultValue: string; // Stored as text, interpreted according to `type`
+}
+
+// Entry in the flow's variable registry - declared variables plus those captured by input nodes
+export interface RegisteredVariable extends FlowVariable {
+  declared: boolean; // Listed in the Variables dialog
+  capturedBy: string[]; // IDs of collect-input and HTTP request nodes that store into it
+}
+
+export const VARIABLE_TYPES: VariableType[] = ['text', 'number', 'boolean'];
+
+// Same rules as a JS identifier, so names are safe in templates and exports
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const isValidVariableName = (name: string) => VARIABLE_NAME_PATTERN.test(name);
+
+// Starting values for a conversation: every declared variable at its default
+export const getDefaultValues = (variables: FlowVariable[]): Record<string, string> => {
+  return Object.fromEntries(variables.map(variable => [variable.name, variable.defaultValue]));
+};
+
+// Variables a node stores into - a collect-input node's answer, an HTTP node's mapped response fields
+export const getCapturedVariables = (node: Pick<Node, 'type' | 'data'>): { name: string; type: VariableType }[] => {
+  if (node.type === 'inputNode') {
+    const data = node.data as InputNodeData;
+    const name = data?.variable?.trim();
+    return name ? [{ name, type: data.inputType === 'number' ? 'number' : 'text' }] : [];
+  }
+  if (node.type === 'httpNode') {
+    const data = node.data as HttpNodeData;
+    return [...new Set((data?.mappings || []).map(mapping => mapping.variable.trim()))]
+      .filter(name => name)
+      .map(name => ({ name, type: 'text' }));
+  }
+  return [];
+};
+
+// Build the flow-level variable registry other nodes and the validator reference
+// Declared variables keep their settings; input nodes and HTTP response mappings add any
+// variable they capture, including nodes nested inside groups
+export const collectFlowVariables = (nodes: Node[], declared: FlowVariable[]): RegisteredVariable[] => {
+  const registry = new Map<string, RegisteredVariable>(
+    declared.map(variable => [variable.name, { ...variable, declared: true, capturedBy: [] }])
+  );
+
+  const capture = (name: string, nodeId: string, type: VariableType) => {
+    const existing = registry.get(name);
+    if (existing) {
+      existing.capturedBy.push(nodeId);
+    } else {
+      registry.set(name, { name, type, defaultValue: '', declared: false, capturedBy: [nodeId] });
+    }
+  };
+
+  flattenNodes(nodes).forEach(node => {
+    getCapturedVariables(node).forEach(({ name, type }) => capture(name, node.id, type));
+  });
+
+  return [...registry.values()];
+};